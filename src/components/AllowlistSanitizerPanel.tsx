@@ -0,0 +1,108 @@
+import { useMemo, useState } from "react";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Textarea } from "./ui/textarea";
+import { parsePolicy, POLICY_PRESETS, sanitizeHtml, type DiffNode } from "@/lib/htmlSanitizer";
+import { cn } from "@/lib/utils";
+
+const SAMPLE_INPUT =
+  '<p>Ciao <b onclick="steal()">mondo</b>! <a href="javascript&#58;alert(1)">premio</a> ' +
+  '<a href="https://example.com">docs</a></p><script>alert(document.cookie)</script><img src=x onerror=alert(1)>';
+
+const STATUS_STYLES: Record<DiffNode["status"], string> = {
+  kept: "text-success",
+  removed: "text-threat line-through",
+  unwrapped: "text-warning",
+};
+
+const DiffTree = ({ nodes }: { nodes: DiffNode[] }) => (
+  <ul className="space-y-0.5 border-l border-border/50 pl-3">
+    {nodes.map((node, i) => (
+      <li key={i}>
+        <span className={cn("font-mono", STATUS_STYLES[node.status])}>{node.label}</span>
+        {node.reason && <span className="ml-2 text-muted-foreground">— {node.reason}</span>}
+        {node.children.length > 0 && <DiffTree nodes={node.children} />}
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * AllowlistSanitizerPanel - Policy editor and removal diff for the allowlist sanitizer
+ *
+ * EDUCATIONAL NOTE:
+ * Write the policy for what a comment or post NEEDS, then watch everything
+ * else disappear, each removal with its reason. Compare with the blacklist:
+ * here an unknown tag or attribute is removed by default.
+ */
+export const AllowlistSanitizerPanel = () => {
+  const [input, setInput] = useState(SAMPLE_INPUT);
+  const [policyText, setPolicyText] = useState(POLICY_PRESETS[0].policy);
+
+  const parsed = useMemo(() => parsePolicy(policyText), [policyText]);
+  const result = useMemo(
+    () => (parsed.ok === true ? sanitizeHtml(input, parsed.policy) : null),
+    [input, parsed]
+  );
+
+  return (
+    <div className="space-y-3">
+      <Textarea
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        placeholder="HTML da sanitizzare..."
+        className="min-h-[80px] bg-muted/30 font-mono text-sm"
+      />
+
+      <div className="space-y-2 rounded-lg border border-border/50 bg-muted/20 p-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground">Policy:</span>
+          <Select onValueChange={(name) => setPolicyText(POLICY_PRESETS.find((p) => p.name === name)?.policy ?? "")}>
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue placeholder="Preset..." />
+            </SelectTrigger>
+            <SelectContent>
+              {POLICY_PRESETS.map((p) => (
+                <SelectItem key={p.name} value={p.name}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Input
+          value={policyText}
+          onChange={(e) => setPolicyText(e.target.value)}
+          className="h-9 font-mono text-xs"
+          placeholder="b, i, a[href https only]"
+        />
+        {parsed.ok === false && <p className="text-xs text-threat">{parsed.error}</p>}
+      </div>
+
+      {result && (
+        <div className="space-y-3">
+          <div className="rounded-lg border border-success/30 bg-success/10 p-3">
+            <span className="mb-1 block text-xs font-semibold text-success">Output</span>
+            <code className="break-all font-mono text-xs text-muted-foreground">{result.html || "(empty)"}</code>
+          </div>
+
+          <div className="rounded-lg border border-border/50 bg-muted/20 p-3 text-xs">
+            <div className="mb-2 flex flex-wrap gap-3">
+              <span className="font-semibold text-foreground">Albero delle differenze</span>
+              <span className="text-success">mantenuto</span>
+              <span className="text-warning">tag rimosso, contenuto mantenuto</span>
+              <span className="text-threat line-through">rimosso</span>
+            </div>
+            <DiffTree nodes={result.tree} />
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {result.removed.length === 0
+              ? "Nessun nodo rimosso."
+              : `${result.removed.length} nodi rimossi: ${result.removed.map((r) => r.node).join(", ")}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,25 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { KeyRound, RefreshCw, CheckCircle, XCircle } from "lucide-react";
+import { CsrfAttackPlayground } from "./CsrfAttackPlayground";
+import { CsrfDefenseMatrix } from "./CsrfDefenseMatrix";
+import { CsrfTokenLifecyclePanel } from "./CsrfTokenLifecyclePanel";
 import { SecurityCard } from "./SecurityCard";
 import { Terminal } from "./Terminal";
 import { Button } from "./ui/button";
-import { cn } from "@/lib/utils";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  createSignedToken,
+  createSigningKey,
+  generateSessionId,
+  type SignedCsrfToken,
+} from "@/lib/csrf";
+import {
+  CSRF_STRATEGIES,
+  legitimateIntent,
+  runCsrfScenario,
+  type CsrfContext,
+  type CsrfStrategy,
+} from "@/lib/csrfStrategies";
 
 /**
  * CSRFProtectionSimulator - Interactive demo of CSRF token protection
@@ -26,67 +42,102 @@ import { cn } from "@/lib/utils";
  * - Custom request headers for AJAX
  */
 
-const generateToken = () => {
-  // In production: crypto.randomBytes(32).toString('hex')
-  return 'csrf_' + Math.random().toString(36).substring(2, 15) + 
-         Math.random().toString(36).substring(2, 15);
-};
-
 export const CSRFProtectionSimulator = () => {
-  const [serverToken, setServerToken] = useState(generateToken());
-  const [clientToken, setClientToken] = useState(serverToken);
+  const keyRef = useRef<CryptoKey | null>(null);
+  const [sessionId, setSessionId] = useState("");
+  const [serverToken, setServerToken] = useState<SignedCsrfToken | null>(null);
+  // The attacker logs into the same site with their own account and harvests a genuine token
+  const [attackerToken, setAttackerToken] = useState<SignedCsrfToken | null>(null);
   const [isValidating, setIsValidating] = useState(false);
   const [validationResult, setValidationResult] = useState<"success" | "error" | null>(null);
   const [attackMode, setAttackMode] = useState(false);
+  const [strategy, setStrategy] = useState<CsrfStrategy>("signed-double-submit");
   const [logs, setLogs] = useState<Array<{ type: "input" | "output" | "error" | "success" | "warning"; content: string }>>([
     { type: "output", content: "CSRF protection initialized" },
-    { type: "success", content: "Token synchronized with server" },
   ]);
 
   useEffect(() => {
-    if (!attackMode) {
-      setClientToken(serverToken);
-    } else {
-      setClientToken("malicious_fake_token_xyz");
-    }
-  }, [attackMode, serverToken]);
+    let cancelled = false;
+    const init = async () => {
+      const key = await createSigningKey();
+      const session = generateSessionId();
+      const [token, foreign] = await Promise.all([
+        createSignedToken(key, session),
+        createSignedToken(key, generateSessionId()),
+      ]);
+      if (cancelled) return;
+      keyRef.current = key;
+      setSessionId(session);
+      setServerToken(token);
+      setAttackerToken(foreign);
+      setLogs((prev) => [
+        ...prev,
+        { type: "success" as const, content: `HMAC-SHA256 token bound to ${session}` },
+      ]);
+    };
+    init();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const ctx = useMemo<CsrfContext | null>(
+    () =>
+      keyRef.current && serverToken && attackerToken
+        ? { key: keyRef.current, sessionId, token: serverToken.token, attackerToken: attackerToken.token }
+        : null,
+    [sessionId, serverToken, attackerToken]
+  );
+
+  const intent = ctx ? legitimateIntent(strategy, ctx) : null;
+  const clientToken = intent?.fields.csrf_token ?? "";
+
+  // Playground hops arrive one by one, so keep a longer tail than a single submit needs
+  const addLog = (type: "input" | "output" | "error" | "success" | "warning", content: string) => {
+    setLogs((prev) => [...prev.slice(-11), { type, content }]);
+  };
 
   const validateRequest = async () => {
+    if (!ctx || !intent) return;
     setIsValidating(true);
     setValidationResult(null);
     
     setLogs(prev => [...prev.slice(-6), 
-      { type: "input" as const, content: "Submitting form with CSRF token..." },
+      { type: "input" as const, content: `Submitting form (${CSRF_STRATEGIES.find((s) => s.id === strategy)?.label})...` },
       { type: "output" as const, content: `Client token: ${clientToken.substring(0, 20)}...` }
     ]);
 
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 1000));
 
-    const isValid = clientToken === serverToken;
-    
-    if (isValid) {
+    const outcome = await runCsrfScenario(strategy, intent, ctx);
+    const last = outcome.browser.steps[outcome.browser.steps.length - 1];
+
+    if (outcome.executed) {
       setLogs(prev => [...prev.slice(-6),
-        { type: "success" as const, content: "✓ Token validated successfully" },
+        { type: "output" as const, content: last },
+        { type: "success" as const, content: `✓ ${outcome.verdict?.reason}` },
         { type: "success" as const, content: "Request APPROVED - Action executed" }
       ]);
     } else {
       setLogs(prev => [...prev.slice(-6),
-        { type: "error" as const, content: "✗ Token mismatch detected!" },
+        { type: "output" as const, content: last },
+        { type: "error" as const, content: `✗ ${outcome.verdict?.reason ?? "Request blocked by the browser"}` },
         { type: "error" as const, content: "Request REJECTED - Possible CSRF attack" }
       ]);
     }
 
-    setValidationResult(isValid ? "success" : "error");
+    setValidationResult(outcome.executed ? "success" : "error");
     setIsValidating(false);
   };
 
-  const rotateToken = () => {
-    const newToken = generateToken();
+  const rotateToken = async () => {
+    if (!keyRef.current) return;
+    const newToken = await createSignedToken(keyRef.current, sessionId);
     setServerToken(newToken);
     setLogs(prev => [...prev.slice(-6),
       { type: "warning" as const, content: "Token rotated for security" },
-      { type: "output" as const, content: `New token: ${newToken.substring(0, 20)}...` }
+      { type: "output" as const, content: `New token: ${newToken.token.substring(0, 20)}...` }
     ]);
     setValidationResult(null);
   };
@@ -97,14 +148,23 @@ export const CSRFProtectionSimulator = () => {
       setLogs((l) => [
         ...l.slice(-6),
         next
-          ? ({ type: "warning" as const, content: "Attack mode ENABLED: client token is now forged" })
-          : ({ type: "success" as const, content: "Attack mode DISABLED: client token resynced" }),
+          ? ({ type: "warning" as const, content: "Attack mode ENABLED: the victim may now visit an attacker page" })
+          : ({ type: "success" as const, content: "Attack mode DISABLED" }),
       ]);
       return next;
     });
     setValidationResult(null);
   };
 
+  const changeStrategy = (next: CsrfStrategy) => {
+    setStrategy(next);
+    setValidationResult(null);
+    setLogs((prev) => [
+      ...prev.slice(-6),
+      { type: "output" as const, content: `Strategy: ${CSRF_STRATEGIES.find((s) => s.id === next)?.label}` },
+    ]);
+  };
+
   return (
     <SecurityCard
       title="CSRF Protection"
@@ -121,40 +181,63 @@ export const CSRFProtectionSimulator = () => {
               <CheckCircle className="h-3 w-3 text-success" />
             </div>
             <code className="text-xs font-mono text-success/80 break-all">
-              {serverToken}
+              {serverToken?.token ?? "Generating..."}
             </code>
+            {serverToken && (
+              <div className="mt-2 space-y-1 border-t border-success/20 pt-2 text-xs font-mono">
+                <div>
+                  <span className="text-muted-foreground">nonce: </span>
+                  <span className="text-success/80">{serverToken.nonce.substring(0, 16)}…</span>
+                  <span className="text-muted-foreground"> (256 bit, crypto.getRandomValues)</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">session: </span>
+                  <span className="text-success/80">{serverToken.sessionId}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">signature: </span>
+                  <span className="text-success/80">{serverToken.signature.substring(0, 16)}…</span>
+                  <span className="text-muted-foreground"> = HMAC-SHA256(secret, session + nonce)</span>
+                </div>
+              </div>
+            )}
           </div>
           
-          <div className={cn(
-            "rounded-lg border p-3 transition-all duration-300",
-            attackMode 
-              ? "border-threat/30 bg-threat/5" 
-              : "border-primary/30 bg-primary/5"
-          )}>
+          <div className="rounded-lg border border-primary/30 bg-primary/5 p-3">
             <div className="flex items-center justify-between mb-1">
-              <span className={cn(
-                "text-xs",
-                attackMode ? "text-threat" : "text-primary"
-              )}>
-                {attackMode ? "Attacker's Token (Fake)" : "Client Token (Form)"}
-              </span>
-              {attackMode && <XCircle className="h-3 w-3 text-threat" />}
+              <span className="text-xs text-primary">Client Token (Form)</span>
             </div>
-            <code className={cn(
-              "text-xs font-mono break-all",
-              attackMode ? "text-threat/80" : "text-primary/80"
-            )}>
+            <code className="text-xs font-mono break-all text-primary/80">
               {clientToken}
             </code>
           </div>
         </div>
 
+        {/* Strategy */}
+        <div className="space-y-1">
+          <Select value={strategy} onValueChange={(v) => changeStrategy(v as CsrfStrategy)}>
+            <SelectTrigger className="h-9 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CSRF_STRATEGIES.map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {CSRF_STRATEGIES.find((s) => s.id === strategy)?.description}
+          </p>
+        </div>
+
         {/* Controls */}
         <div className="flex flex-wrap gap-2">
           <Button
             type="button"
             onClick={validateRequest}
-            disabled={isValidating}
+            disabled={isValidating || !serverToken}
             variant={validationResult === "error" ? "destructive" : "default"}
             className="glow-button"
           >
@@ -182,16 +265,23 @@ export const CSRFProtectionSimulator = () => {
           </Button>
         </div>
 
+        {attackMode && ctx && <CsrfAttackPlayground ctx={ctx} strategy={strategy} onLog={addLog} />}
+
         <Terminal
           lines={logs}
           title="CSRF Validator"
           autoPlay={false}
         />
 
+        <CsrfTokenLifecyclePanel onLog={addLog} />
+
+        <CsrfDefenseMatrix ctx={ctx} selected={strategy} onSelect={changeStrategy} />
+
         <div className="rounded-lg border border-border/50 bg-muted/20 p-3 text-xs text-muted-foreground">
           <strong className="text-foreground">💡 In produzione:</strong> I token CSRF vengono generati 
           dal server con entropia crittografica, inclusi in form nascosti, e validati ad ogni 
-          richiesta POST/PUT/DELETE. Cookies con SameSite=Strict aggiungono protezione extra.
+          richiesta POST/PUT/DELETE. SameSite e il controllo di Origin sono difese in profondità, non 
+          sostituti del token: nessuna strategia da sola copre ogni colonna della matrice.
         </div>
       </div>
     </SecurityCard>
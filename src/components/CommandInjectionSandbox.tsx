@@ -0,0 +1,205 @@
+import { useRef, useState } from "react";
+import { FileX, Play, RotateCcw } from "lucide-react";
+import { PayloadLibrary } from "./PayloadLibrary";
+import { Terminal } from "./Terminal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  callEndpoint,
+  ENDPOINTS,
+  injectedCommands,
+  SHELL_MODES,
+  SHELL_PAYLOADS,
+  type EndpointId,
+  type ShellMode,
+} from "@/lib/commandInjection";
+import { createVirtualFs, SEED_FILES, SHELL_USER } from "@/lib/virtualShell";
+import { cn } from "@/lib/utils";
+
+interface CommandInjectionSandboxProps {
+  onLog: (type: "input" | "output" | "error" | "success" | "warning", content: string) => void;
+}
+
+type ShellLog = { type: "input" | "output" | "error" | "success" | "warning"; content: string };
+
+const LINE_DELAY_MS = 120;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * CommandInjectionSandbox - Fake server endpoints over a virtual filesystem
+ *
+ * EDUCATIONAL NOTE:
+ * The blacklist flags "; rm" and "../", but the consequence is what matters:
+ * here the payload really runs, in a shell that lives in this page. Read
+ * /etc/passwd, delete the downloads, then switch mode and send the same
+ * payload again to see which defence stops which bug.
+ */
+export const CommandInjectionSandbox = ({ onLog }: CommandInjectionSandboxProps) => {
+  const fsRef = useRef(createVirtualFs());
+  const [endpoint, setEndpoint] = useState<EndpointId>("ping");
+  const [mode, setMode] = useState<ShellMode>("concatenation");
+  const [value, setValue] = useState(SHELL_PAYLOADS[1].value);
+  const [running, setRunning] = useState(false);
+  const [files, setFiles] = useState(() => fsRef.current.files());
+  const [shellLogs, setShellLogs] = useState<ShellLog[]>([
+    { type: "output", content: `Virtual server ready, processes run as ${SHELL_USER}` },
+  ]);
+
+  const current = ENDPOINTS.find((e) => e.id === endpoint) ?? ENDPOINTS[0];
+
+  const print = (type: ShellLog["type"], content: string) => {
+    setShellLogs((prev) => [...prev.slice(-19), { type, content }]);
+  };
+
+  const send = async () => {
+    const call = callEndpoint(fsRef.current, endpoint, mode, value);
+    setRunning(true);
+    print("input", `${current.route}${encodeURIComponent(value)}`);
+    print("output", `server runs: ${call.invocation}`);
+
+    if (call.blocked) {
+      print("success", `400 Bad Request - ${call.blocked}`);
+      onLog("success", `✓ ${current.label}: input rejected before execution`);
+    } else {
+      for (const line of call.run.lines) {
+        await delay(LINE_DELAY_MS);
+        print(line.stream === "stderr" ? "error" : "output", line.text);
+      }
+      const injected = injectedCommands(call);
+      if (injected.length > 0) {
+        onLog("error", `⚠ COMMAND INJECTION: ${injected.map((argv) => argv.join(" ")).join("; ")}`);
+      } else {
+        onLog("output", `${current.label}: exit code ${call.run.exitCode}, no extra process started`);
+      }
+    }
+
+    const after = fsRef.current.files();
+    const deleted = files.filter((f) => !after.includes(f));
+    if (deleted.length > 0) onLog("error", `⚠ ${deleted.length} files deleted from the server`);
+    setFiles(after);
+    setRunning(false);
+  };
+
+  const resetFs = () => {
+    fsRef.current = createVirtualFs();
+    setFiles(fsRef.current.files());
+    print("success", "Virtual filesystem restored");
+  };
+
+  const changeEndpoint = (id: EndpointId) => {
+    setEndpoint(id);
+    setValue(SHELL_PAYLOADS.find((p) => p.endpoint === id)?.value ?? "");
+  };
+
+  const modified = (path: string) => fsRef.current.read(path) !== SEED_FILES[path];
+
+  return (
+    <div className="space-y-4">
+      {/* Endpoint and mode */}
+      <div className="flex flex-wrap gap-1">
+        {ENDPOINTS.map((e) => (
+          <button
+            key={e.id}
+            type="button"
+            onClick={() => changeEndpoint(e.id)}
+            className={cn(
+              "rounded px-2 py-0.5 text-xs transition-colors",
+              endpoint === e.id ? "bg-primary/20 text-primary" : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {e.label}
+          </button>
+        ))}
+      </div>
+      <div className="space-y-1">
+        <div className="flex flex-wrap gap-1">
+          {SHELL_MODES.map((m) => (
+            <button
+              key={m.id}
+              type="button"
+              onClick={() => setMode(m.id)}
+              className={cn(
+                "rounded border px-2 py-0.5 text-xs transition-colors",
+                mode === m.id ? "border-primary/50 text-primary" : "border-border/50 text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">{SHELL_MODES.find((m) => m.id === mode)?.description}</p>
+      </div>
+
+      {/* Request */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <span className="shrink-0 font-mono text-xs text-muted-foreground">{current.route}</span>
+          <Input
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={current.placeholder}
+            className="h-9 bg-muted/30 font-mono text-xs"
+          />
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {SHELL_PAYLOADS.filter((p) => p.endpoint === endpoint).map((p) => (
+            <button
+              key={p.label}
+              type="button"
+              onClick={() => setValue(p.value)}
+              className="rounded border border-border/50 px-2 py-0.5 font-mono text-xs text-muted-foreground transition-colors hover:text-foreground"
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" onClick={send} disabled={running} className="glow-button">
+            <Play className="mr-2 h-4 w-4" />
+            Invia richiesta
+          </Button>
+          <Button type="button" variant="outline" onClick={resetFs} disabled={running}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Ripristina filesystem
+          </Button>
+          <PayloadLibrary target={endpoint} onSelect={(entry) => setValue(entry.payload)} />
+        </div>
+      </div>
+
+      <Terminal lines={shellLogs} title={`${SHELL_USER}@web-01`} autoPlay={false} />
+
+      {/* Filesystem state */}
+      <div className="rounded-lg border border-border/50 bg-muted/20 p-3 text-xs">
+        <span className="mb-2 block font-semibold text-foreground">Filesystem del server</span>
+        <ul className="space-y-0.5 font-mono">
+          {Object.keys(SEED_FILES)
+            .sort()
+            .map((path) => {
+              const deleted = !files.includes(path);
+              return (
+                <li
+                  key={path}
+                  className={cn(
+                    "flex items-center gap-1",
+                    deleted ? "text-threat line-through" : modified(path) ? "text-warning" : "text-muted-foreground"
+                  )}
+                >
+                  {deleted && <FileX className="h-3 w-3" />}
+                  {path}
+                  {!deleted && modified(path) && " (modificato)"}
+                </li>
+              );
+            })}
+          {files
+            .filter((path) => !(path in SEED_FILES))
+            .map((path) => (
+              <li key={path} className="text-warning">
+                {path} (nuovo)
+              </li>
+            ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { CheckCircle, Plus, RotateCcw, Trash2, XCircle } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  enforcePolicy,
+  RESOURCE_KINDS,
+  SAMPLE_PAGE,
+  type PageResource,
+  type PageResourceKind,
+  type ResourceVerdict,
+} from "@/lib/cspEnforcement";
+import { cn } from "@/lib/utils";
+
+interface CspEnforcementPanelProps {
+  policy: string;
+  /** False when the CSP header is switched off in the header list */
+  enabled: boolean;
+}
+
+const kindLabel = (kind: PageResourceKind) => RESOURCE_KINDS.find((k) => k.id === kind)?.label ?? kind;
+
+/**
+ * CspEnforcementPanel - Loads a mock page under the current CSP
+ *
+ * EDUCATIONAL NOTE:
+ * Each resource goes through the same check the browser runs, and blocked
+ * ones show the directive that stopped them. Edit the policy in the CSP
+ * tab and come back: the fastest way to learn what a source list means.
+ */
+export const CspEnforcementPanel = ({ policy, enabled }: CspEnforcementPanelProps) => {
+  const [page, setPage] = useState<PageResource[]>(SAMPLE_PAGE);
+  const [verdicts, setVerdicts] = useState<ResourceVerdict[]>([]);
+  const [kind, setKind] = useState<PageResourceKind>("external-script");
+  const [value, setValue] = useState("");
+  const [nonce, setNonce] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    // Hashing goes through crypto.subtle, which is async
+    enforcePolicy(enabled ? policy : "", page).then((result) => {
+      if (!cancelled) setVerdicts(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [policy, enabled, page]);
+
+  const addResource = () => {
+    if (!value.trim()) return;
+    const id = `r${Date.now().toString(36)}`;
+    setPage((prev) => [...prev, { id, kind, value: value.trim(), ...(nonce.trim() ? { nonce: nonce.trim() } : {}) }]);
+    setValue("");
+    setNonce("");
+  };
+
+  const blocked = verdicts.filter((v) => !v.allowed).length;
+  const inline = RESOURCE_KINDS.find((k) => k.id === kind)?.inline;
+
+  return (
+    <div className="space-y-3">
+      {!enabled && (
+        <p className="rounded border border-threat/30 bg-threat/10 px-2 py-1 text-xs text-threat">
+          Content-Security-Policy è disattivata nella scheda Header: il browser carica tutto.
+        </p>
+      )}
+      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+        <span>
+          Consentite: <span className="font-semibold text-success">{verdicts.length - blocked}</span>
+        </span>
+        <span>
+          Bloccate: <span className="font-semibold text-threat">{blocked}</span>
+        </span>
+      </div>
+
+      {/* Resources and verdicts */}
+      <ul className="space-y-1.5">
+        {verdicts.map(({ resource, allowed, directive, reason, suggestedHash }) => (
+          <li
+            key={resource.id}
+            className={cn(
+              "flex items-start gap-2 rounded-lg border p-2 text-xs",
+              allowed ? "border-success/30 bg-success/5" : "border-threat/30 bg-threat/5"
+            )}
+          >
+            {allowed ? (
+              <CheckCircle className="mt-0.5 h-4 w-4 shrink-0 text-success" />
+            ) : (
+              <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-threat" />
+            )}
+            <div className="min-w-0 flex-1 space-y-0.5">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold text-foreground">{kindLabel(resource.kind)}</span>
+                {resource.nonce && <span className="font-mono text-primary">nonce={resource.nonce}</span>}
+                {resource.loadedBy && <span className="text-muted-foreground">caricato da {resource.loadedBy}</span>}
+                {directive && <span className="ml-auto font-mono text-muted-foreground">{directive}</span>}
+              </div>
+              <code className="block truncate font-mono text-muted-foreground" title={resource.value}>
+                {resource.value}
+              </code>
+              <p className={allowed ? "text-success/80" : "text-threat/80"}>{reason}</p>
+              {suggestedHash && (
+                <p className="text-muted-foreground">
+                  Per consentirlo aggiungi a {directive}:{" "}
+                  <code className="break-all font-mono text-primary/80">{suggestedHash}</code>
+                </p>
+              )}
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => setPage((prev) => prev.filter((r) => r.id !== resource.id))}
+              aria-label={`Rimuovi ${resource.id}`}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      {/* Add a resource */}
+      <div className="space-y-2 rounded-lg border border-border/50 bg-muted/20 p-3">
+        <span className="block text-xs font-semibold text-foreground">Aggiungi una risorsa alla pagina</span>
+        <div className="flex flex-wrap gap-2">
+          <Select value={kind} onValueChange={(v) => setKind(v as PageResourceKind)}>
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RESOURCE_KINDS.map((k) => (
+                <SelectItem key={k.id} value={k.id}>
+                  {k.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={inline ? "Codice, es. alert(1)" : "URL, es. https://cdn.example.com/lib.js"}
+            className="h-8 min-w-[12rem] flex-1 font-mono text-xs"
+          />
+          <Input
+            value={nonce}
+            onChange={(e) => setNonce(e.target.value)}
+            placeholder="nonce"
+            className="h-8 w-24 font-mono text-xs"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" size="sm" onClick={addResource} disabled={!value.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Aggiungi
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setPage(SAMPLE_PAGE)}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Pagina di esempio
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
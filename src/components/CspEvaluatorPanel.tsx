@@ -0,0 +1,143 @@
+import { useMemo } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Textarea } from "./ui/textarea";
+import { CSP_PRESETS, evaluateCsp, type CspGrade, type CspSeverity } from "@/lib/csp";
+import { cn } from "@/lib/utils";
+
+interface CspEvaluatorPanelProps {
+  policy: string;
+  onChange: (policy: string) => void;
+}
+
+const SEVERITY_ORDER: CspSeverity[] = ["critical", "high", "medium", "low"];
+
+const SEVERITY_BADGE: Record<CspSeverity, string> = {
+  critical: "bg-threat/20 text-threat border-threat/30",
+  high: "bg-threat/10 text-threat border-threat/20",
+  medium: "bg-warning/20 text-warning border-warning/30",
+  low: "bg-muted text-muted-foreground border-border/50",
+};
+
+const GRADE_STYLES: Record<CspGrade, string> = {
+  A: "border-success/40 bg-success/10 text-success",
+  B: "border-success/30 bg-success/5 text-success",
+  C: "border-warning/40 bg-warning/10 text-warning",
+  D: "border-threat/30 bg-threat/5 text-threat",
+  F: "border-threat/40 bg-threat/10 text-threat",
+};
+
+const sourceStyle = (source: string) => {
+  if (source.startsWith("'unsafe-") || source === "*" || source === "data:") return "text-threat";
+  if (/^'(nonce-|sha\d+-|strict-dynamic)/.test(source)) return "text-primary";
+  if (source === "'none'" || source === "'self'") return "text-success";
+  return "text-foreground";
+};
+
+/**
+ * CspEvaluatorPanel - Paste a Content-Security-Policy and get a graded report
+ *
+ * EDUCATIONAL NOTE:
+ * Paste the CSP your production site sends (DevTools > Network > response
+ * headers). The report explains what each weakness lets an attacker do,
+ * so the fix is obvious even without knowing every directive by heart.
+ */
+export const CspEvaluatorPanel = ({ policy, onChange }: CspEvaluatorPanelProps) => {
+  const report = useMemo(() => evaluateCsp(policy), [policy]);
+  const findings = [...report.findings].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-muted-foreground">Policy:</span>
+        <Select onValueChange={(name) => onChange(CSP_PRESETS.find((p) => p.name === name)?.policy ?? "")}>
+          <SelectTrigger className="h-8 w-40 text-xs">
+            <SelectValue placeholder="Preset..." />
+          </SelectTrigger>
+          <SelectContent>
+            {CSP_PRESETS.map((p) => (
+              <SelectItem key={p.name} value={p.name}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Textarea
+        value={policy}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="default-src 'self'; script-src 'self'"
+        className="min-h-[70px] bg-muted/30 font-mono text-xs"
+        spellCheck={false}
+      />
+
+      {/* Grade */}
+      <div className="flex items-center gap-3">
+        <span
+          className={cn(
+            "flex h-12 w-12 items-center justify-center rounded-lg border text-2xl font-bold",
+            GRADE_STYLES[report.grade]
+          )}
+          aria-label={`Voto ${report.grade}`}
+        >
+          {report.grade}
+        </span>
+        <div className="text-xs text-muted-foreground">
+          <div>
+            Punteggio: <span className="font-semibold text-foreground">{report.score}/100</span>
+          </div>
+          <div>
+            {report.directives.length} direttive, {report.findings.length} problemi
+          </div>
+        </div>
+      </div>
+
+      {/* Directives */}
+      {report.directives.length > 0 && (
+        <div className="overflow-x-auto rounded-lg border border-border/50">
+          <table className="w-full text-xs">
+            <tbody>
+              {report.directives.map((d) => (
+                <tr key={d.name} className="border-b border-border/30 last:border-0">
+                  <td className="whitespace-nowrap p-2 align-top font-mono text-muted-foreground">{d.name}</td>
+                  <td className="p-2 font-mono">
+                    {d.sources.length === 0 ? (
+                      <span className="text-muted-foreground">(nessuna sorgente)</span>
+                    ) : (
+                      <span className="flex flex-wrap gap-x-2">
+                        {d.sources.map((s, i) => (
+                          <span key={i} className={sourceStyle(s)}>
+                            {s}
+                          </span>
+                        ))}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Findings */}
+      {findings.length === 0 ? (
+        <p className="text-xs text-success">✓ Nessun problema trovato.</p>
+      ) : (
+        <ul className="space-y-2">
+          {findings.map((f, i) => (
+            <li key={i} className="rounded-lg border border-border/50 bg-muted/20 p-2 text-xs">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={cn("rounded border px-1.5 py-0.5", SEVERITY_BADGE[f.severity])}>{f.severity}</span>
+                <span className="font-semibold text-foreground">{f.title}</span>
+                <span className="font-mono text-muted-foreground">{f.directive}</span>
+              </div>
+              <p className="mt-1 text-muted-foreground">{f.explanation}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
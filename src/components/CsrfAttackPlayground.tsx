@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Globe, Landmark, Play, Skull } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  attackMarkup,
+  cookieJarFor,
+  CSRF_ATTACKS,
+  CSRF_STRATEGIES,
+  formatRequest,
+  runCsrfScenario,
+  type CsrfContext,
+  type CsrfStrategy,
+} from "@/lib/csrfStrategies";
+import { cn } from "@/lib/utils";
+
+interface CsrfAttackPlaygroundProps {
+  ctx: CsrfContext;
+  strategy: CsrfStrategy;
+  onLog: (type: "input" | "output" | "error" | "success" | "warning", content: string) => void;
+}
+
+const HOP_DELAY_MS = 350;
+const INITIAL_BALANCE = 5000;
+const STOLEN_AMOUNT = 1000;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * CsrfAttackPlayground - Attacker site and bank site side by side
+ *
+ * EDUCATIONAL NOTE:
+ * The attacker never talks to the bank directly: the victim's BROWSER does,
+ * and it decides what to attach. Follow each hop in the terminal: which
+ * cookies SameSite withholds, which headers the browser sets on its own,
+ * and which requests CORS never lets out of the attacker's page.
+ */
+export const CsrfAttackPlayground = ({ ctx, strategy, onLog }: CsrfAttackPlaygroundProps) => {
+  const [attackId, setAttackId] = useState(CSRF_ATTACKS[0].id);
+  const [balance, setBalance] = useState(INITIAL_BALANCE);
+  const [running, setRunning] = useState(false);
+  const [received, setReceived] = useState<{ raw: string; executed: boolean } | null>(null);
+
+  const attack = CSRF_ATTACKS.find((a) => a.id === attackId) ?? CSRF_ATTACKS[0];
+  const intent = attack.intent(ctx);
+  const jar = cookieJarFor(strategy, ctx);
+  const strategyLabel = CSRF_STRATEGIES.find((s) => s.id === strategy)?.label;
+
+  const visit = async () => {
+    setRunning(true);
+    setReceived(null);
+    onLog("input", `Victim (logged into bank.example) opens ${intent.initiator}`);
+
+    const outcome = await runCsrfScenario(strategy, intent, ctx);
+    for (const step of outcome.browser.steps) {
+      await delay(HOP_DELAY_MS);
+      onLog("output", step);
+    }
+
+    if (outcome.browser.request) {
+      await delay(HOP_DELAY_MS);
+      setReceived({ raw: formatRequest(outcome.browser.request), executed: outcome.executed });
+      onLog(outcome.executed ? "warning" : "success", `Server (${strategyLabel}): ${outcome.verdict?.reason}`);
+    }
+
+    await delay(HOP_DELAY_MS);
+    if (outcome.executed) {
+      setBalance((b) => b - STOLEN_AMOUNT);
+      onLog("error", `✗ Transfer of €${STOLEN_AMOUNT} to attacker EXECUTED`);
+    } else {
+      onLog("success", "✓ Attack blocked - balance untouched");
+    }
+    setRunning(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-muted-foreground">Tipo di attacco:</span>
+        {CSRF_ATTACKS.map((a) => (
+          <button
+            key={a.id}
+            type="button"
+            title={a.description}
+            onClick={() => setAttackId(a.id)}
+            className={cn(
+              "rounded px-2 py-0.5 transition-colors",
+              attackId === a.id ? "bg-threat/20 text-threat" : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {a.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        {/* Attacker site */}
+        <div className="space-y-2 rounded-lg border border-threat/30 bg-threat/5 p-3">
+          <div className="flex items-center gap-2 rounded bg-muted/40 px-2 py-1 font-mono text-xs text-threat">
+            <Skull className="h-3 w-3" />
+            {intent.initiator}
+          </div>
+          <p className="text-xs text-muted-foreground">{attack.description}</p>
+          <pre className="overflow-x-auto whitespace-pre-wrap break-all rounded bg-muted/30 p-2 font-mono text-xs text-threat/80">
+            {attackMarkup(intent)}
+          </pre>
+          <Button type="button" size="sm" variant="destructive" onClick={visit} disabled={running}>
+            <Play className="mr-2 h-4 w-4" />
+            Visita la pagina
+          </Button>
+        </div>
+
+        {/* Bank site */}
+        <div
+          className={cn(
+            "space-y-2 rounded-lg border p-3 transition-colors",
+            received?.executed ? "border-threat/30 bg-threat/10" : "border-success/30 bg-success/5"
+          )}
+        >
+          <div className="flex items-center gap-2 rounded bg-muted/40 px-2 py-1 font-mono text-xs text-success">
+            <Landmark className="h-3 w-3" />
+            https://bank.example/account
+          </div>
+          <div className="flex items-baseline justify-between">
+            <span className="text-xs text-muted-foreground">Saldo</span>
+            <span className={cn("font-mono text-lg", balance < INITIAL_BALANCE ? "text-threat" : "text-foreground")}>
+              €{balance.toLocaleString("it-IT")}
+            </span>
+          </div>
+          <div className="space-y-1 text-xs">
+            <span className="text-muted-foreground">Cookie nel browser della vittima:</span>
+            {jar.map((cookie) => (
+              <div key={cookie.name} className="flex items-center gap-2 font-mono">
+                <Globe className="h-3 w-3 text-muted-foreground" />
+                <span className="text-foreground">{cookie.name}</span>
+                <span className="text-muted-foreground">SameSite={cookie.sameSite}</span>
+              </div>
+            ))}
+          </div>
+          <pre className="min-h-[80px] overflow-x-auto whitespace-pre-wrap break-all rounded bg-muted/30 p-2 font-mono text-xs text-muted-foreground">
+            {received?.raw ?? "Nessuna richiesta ricevuta"}
+          </pre>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { Check, X } from "lucide-react";
+import {
+  computeDefenseMatrix,
+  CSRF_ATTACKS,
+  CSRF_STRATEGIES,
+  type CsrfContext,
+  type CsrfStrategy,
+} from "@/lib/csrfStrategies";
+import { cn } from "@/lib/utils";
+
+interface CsrfDefenseMatrixProps {
+  ctx: CsrfContext | null;
+  selected: CsrfStrategy;
+  onSelect: (strategy: CsrfStrategy) => void;
+}
+
+/**
+ * CsrfDefenseMatrix - Which attack each CSRF defence stops
+ *
+ * EDUCATIONAL NOTE:
+ * Every cell is computed by actually running the attack through the
+ * browser model and the strategy's validator, not hard-coded. The answer
+ * to "why not just use SameSite?" is in the last two columns: Lax lets
+ * top-level GETs through, and a sibling subdomain is same-site.
+ */
+export const CsrfDefenseMatrix = ({ ctx, selected, onSelect }: CsrfDefenseMatrixProps) => {
+  const [matrix, setMatrix] = useState<Record<CsrfStrategy, Record<string, boolean>> | null>(null);
+
+  useEffect(() => {
+    if (!ctx) return;
+    let cancelled = false;
+    computeDefenseMatrix(ctx).then((result) => {
+      if (!cancelled) setMatrix(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [ctx]);
+
+  if (!matrix) {
+    return <p className="text-xs text-muted-foreground">Calcolo della matrice...</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-border/50">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-border/50 bg-muted/30">
+            <th className="p-2 text-left font-medium text-muted-foreground">Difesa</th>
+            {CSRF_ATTACKS.map((attack) => (
+              <th key={attack.id} title={attack.description} className="p-2 text-center font-medium text-muted-foreground">
+                {attack.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {CSRF_STRATEGIES.map((strategy) => (
+            <tr
+              key={strategy.id}
+              onClick={() => onSelect(strategy.id)}
+              className={cn(
+                "cursor-pointer border-b border-border/30 transition-colors last:border-0",
+                selected === strategy.id ? "bg-primary/10" : "hover:bg-muted/20"
+              )}
+            >
+              <td className="p-2 font-mono text-foreground" title={strategy.description}>
+                {strategy.label}
+              </td>
+              {CSRF_ATTACKS.map((attack) => {
+                const blocked = matrix[strategy.id][attack.id];
+                return (
+                  <td key={attack.id} className="p-2 text-center">
+                    {blocked ? (
+                      <Check className="mx-auto h-4 w-4 text-success" aria-label="bloccato" />
+                    ) : (
+                      <X className="mx-auto h-4 w-4 text-threat" aria-label="vulnerabile" />
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from "react";
+import { AppWindow, CheckCircle, Plus, RotateCw, Send, X, XCircle } from "lucide-react";
+import { ProgressMeter } from "./ProgressMeter";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import {
+  createCsrfTokenStore,
+  TOKEN_LIFECYCLES,
+  type CsrfTokenStore,
+  type IssuedToken,
+  type TokenLifecycle,
+  type TokenRejection,
+} from "@/lib/csrfTokenStore";
+import { cn } from "@/lib/utils";
+
+interface CsrfTokenLifecyclePanelProps {
+  onLog: (type: "input" | "output" | "error" | "success" | "warning", content: string) => void;
+}
+
+const FORMS: Array<{ id: string; label: string }> = [
+  { id: "transfer", label: "Bonifico" },
+  { id: "change-email", label: "Cambia email" },
+];
+
+const TOKEN_REJECTIONS: Record<TokenRejection, string> = {
+  unknown: "Token never issued by this server",
+  superseded: "Token replaced by a newer page load (another tab?)",
+  consumed: "Token already used by a previous submission",
+  expired: "Token expired - page left open longer than the TTL",
+  "wrong-form": "Token was issued for a different form",
+};
+
+interface SimulatedTab {
+  id: number;
+  formId: string;
+  issued: IssuedToken | null;
+  result: { ok: boolean; message: string } | null;
+}
+
+const formLabel = (formId: string) => FORMS.find((f) => f.id === formId)?.label ?? formId;
+
+/**
+ * CsrfTokenLifecyclePanel - Several tabs, one session, one token store
+ *
+ * EDUCATIONAL NOTE:
+ * Open two "Bonifico" tabs with per-request tokens and submit the first:
+ * it fails, because loading the second tab rotated the token. This is why
+ * OWASP recommends per-session tokens unless the extra protection of
+ * per-request tokens is worth the broken back button and multi-tab UX.
+ */
+export const CsrfTokenLifecyclePanel = ({ onLog }: CsrfTokenLifecyclePanelProps) => {
+  const [lifecycle, setLifecycle] = useState<TokenLifecycle>("per-session");
+  const [ttlSeconds, setTtlSeconds] = useState(30);
+  // Shown while dragging; the server is only redeployed when the slider is released
+  const [ttlDraft, setTtlDraft] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [tabs, setTabs] = useState<SimulatedTab[]>([
+    { id: 1, formId: "transfer", issued: null, result: null },
+    { id: 2, formId: "transfer", issued: null, result: null },
+  ]);
+  // Issuing a token mutates the server, so it happens here, never inside a state updater
+  const tabsRef = useRef(tabs);
+  tabsRef.current = tabs;
+  const nextTabId = useRef(3);
+  const storeRef = useRef<CsrfTokenStore>(createCsrfTokenStore(lifecycle, { ttlMs: ttlSeconds * 1000 }));
+
+  // A new lifecycle means a redeployed server: every open tab reloads in order
+  useEffect(() => {
+    const store = createCsrfTokenStore(lifecycle, { ttlMs: ttlSeconds * 1000 });
+    storeRef.current = store;
+    const reloaded = tabsRef.current.map((tab) => ({ ...tab, issued: store.issue(tab.formId), result: null }));
+    setTabs(reloaded);
+  }, [lifecycle, ttlSeconds]);
+
+  // Drive the expiry countdown
+  useEffect(() => {
+    if (lifecycle !== "time-limited") return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [lifecycle]);
+
+  const openTab = (formId: string) => {
+    const id = nextTabId.current++;
+    const issued = storeRef.current.issue(formId);
+    setTabs((prev) => [...prev, { id, formId, issued, result: null }]);
+    onLog("input", `Tab ${id} opened (${formLabel(formId)}) → token ${issued.token.substring(0, 12)}…`);
+  };
+
+  const reloadTab = (id: number) => {
+    const reloaded = tabs.find((tab) => tab.id === id);
+    if (!reloaded) return;
+    const issued = storeRef.current.issue(reloaded.formId);
+    setTabs((prev) => prev.map((tab) => (tab.id === id ? { ...tab, issued, result: null } : tab)));
+    onLog("output", `Tab ${id} reloaded`);
+  };
+
+  const closeTab = (id: number) => {
+    setTabs((prev) => prev.filter((tab) => tab.id !== id));
+  };
+
+  const submit = (tab: SimulatedTab, targetFormId: string) => {
+    if (!tab.issued) return;
+    const check = storeRef.current.validate(tab.issued.token, targetFormId);
+    const action = `Tab ${tab.id} → POST /${targetFormId}`;
+
+    if (check.valid === false) {
+      onLog("error", `${action}: ✗ ${TOKEN_REJECTIONS[check.reason]}`);
+      setTabs((prev) =>
+        prev.map((t) => (t.id === tab.id ? { ...t, result: { ok: false, message: TOKEN_REJECTIONS[check.reason] } } : t))
+      );
+      return;
+    }
+
+    onLog("success", `${action}: ✓ token accepted`);
+    // The response is a new page: under per-request rotation it carries a fresh token
+    const issued = lifecycle === "per-request" ? storeRef.current.issue(tab.formId) : tab.issued;
+    if (lifecycle === "per-request") {
+      onLog("warning", `Tab ${tab.id} received a fresh token - every other open tab is now stale`);
+    }
+    setTabs((prev) =>
+      prev.map((t) => (t.id === tab.id ? { ...t, issued, result: { ok: true, message: "Submission accepted" } } : t))
+    );
+  };
+
+  const current = TOKEN_LIFECYCLES.find((l) => l.id === lifecycle);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 bg-muted/20 p-3">
+      <div className="flex flex-wrap gap-1">
+        {TOKEN_LIFECYCLES.map((l) => (
+          <button
+            key={l.id}
+            type="button"
+            onClick={() => setLifecycle(l.id)}
+            className={cn(
+              "rounded px-2 py-0.5 text-xs transition-colors",
+              lifecycle === l.id ? "bg-primary/20 text-primary" : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {l.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">{current?.description}</p>
+
+      {lifecycle === "time-limited" && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">TTL</span>
+            <span className="font-mono text-foreground">{ttlDraft ?? ttlSeconds}s</span>
+          </div>
+          <Slider
+            min={5}
+            max={120}
+            step={5}
+            value={[ttlDraft ?? ttlSeconds]}
+            onValueChange={([v]) => setTtlDraft(v)}
+            onValueCommit={([v]) => {
+              setTtlDraft(null);
+              setTtlSeconds(v);
+            }}
+          />
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {FORMS.map((form) => (
+          <Button key={form.id} type="button" size="sm" variant="outline" onClick={() => openTab(form.id)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Scheda: {form.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {tabs.map((tab) => {
+          const other = FORMS.find((f) => f.id !== tab.formId);
+          const remainingMs = tab.issued ? Math.max(0, tab.issued.expiresAt - now) : 0;
+          return (
+            <div
+              key={tab.id}
+              className={cn(
+                "space-y-2 rounded-lg border p-2 transition-colors",
+                tab.result === null
+                  ? "border-border/50 bg-background/40"
+                  : tab.result.ok
+                    ? "border-success/30 bg-success/5"
+                    : "border-threat/30 bg-threat/5"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="flex items-center gap-1 text-foreground">
+                  <AppWindow className="h-3 w-3 text-primary" />
+                  Tab {tab.id} · {formLabel(tab.formId)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => closeTab(tab.id)}
+                  className="text-muted-foreground hover:text-threat"
+                  aria-label={`Close tab ${tab.id}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+              <code className="block truncate font-mono text-xs text-muted-foreground">
+                csrf_token={tab.issued?.token ?? "..."}
+              </code>
+              {lifecycle === "time-limited" && tab.issued && (
+                <ProgressMeter
+                  value={Math.ceil(remainingMs / 1000)}
+                  max={ttlSeconds}
+                  label="Scade tra (s)"
+                  variant={remainingMs === 0 ? "threat" : remainingMs < 10_000 ? "warning" : "success"}
+                  size="sm"
+                />
+              )}
+              <div className="flex flex-wrap gap-1">
+                <Button type="button" size="sm" onClick={() => submit(tab, tab.formId)} disabled={!tab.issued}>
+                  <Send className="mr-1 h-3 w-3" />
+                  Invia
+                </Button>
+                {other && (
+                  <Button type="button" size="sm" variant="outline" onClick={() => submit(tab, other.id)}>
+                    Usa per {other.label}
+                  </Button>
+                )}
+                <Button type="button" size="sm" variant="ghost" onClick={() => reloadTab(tab.id)} aria-label="Ricarica">
+                  <RotateCw className="h-3 w-3" />
+                </Button>
+              </div>
+              {tab.result && (
+                <p className={cn("flex items-center gap-1 text-xs", tab.result.ok ? "text-success" : "text-threat")}>
+                  {tab.result.ok ? <CheckCircle className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+                  {tab.result.message}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
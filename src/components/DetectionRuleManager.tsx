@@ -0,0 +1,340 @@
+import { useRef, useState } from "react";
+import { Download, Pencil, Plus, RotateCcw, Trash2, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Switch } from "./ui/switch";
+import { Textarea } from "./ui/textarea";
+import type { PatternSeverity } from "@/lib/dangerousPatterns";
+import {
+  exportRuleSet,
+  matchRule,
+  parseRuleSet,
+  RULE_FUNCTIONS,
+  ruleIdFor,
+  STARTER_RULES,
+  testRuleSamples,
+  validateRule,
+  type CustomRule,
+  type RuleKind,
+} from "@/lib/detectionRules";
+import { cn } from "@/lib/utils";
+
+interface DetectionRuleManagerProps {
+  rules: CustomRule[];
+  onChange: (rules: CustomRule[]) => void;
+  onLog: (type: "input" | "output" | "error" | "success" | "warning", content: string) => void;
+}
+
+const EMPTY_DRAFT: CustomRule = {
+  id: "",
+  name: "",
+  severity: "high",
+  enabled: true,
+  kind: "regex",
+  pattern: "",
+  flags: "gi",
+  functionId: RULE_FUNCTIONS[0].id,
+  samples: [],
+  remediation: "",
+};
+
+const SEVERITY_BADGE: Record<PatternSeverity, string> = {
+  critical: "bg-threat/20 text-threat border-threat/30",
+  high: "bg-warning/20 text-warning border-warning/30",
+};
+
+/**
+ * DetectionRuleManager - Create, test and share custom detection rules
+ *
+ * EDUCATIONAL NOTE:
+ * Every rule ships with the payloads it must catch: the samples are its
+ * test suite. A rule that stops flagging one of them after an edit is a
+ * regression, exactly like in a real WAF rule set.
+ */
+export const DetectionRuleManager = ({ rules, onChange, onLog }: DetectionRuleManagerProps) => {
+  const [draft, setDraft] = useState<CustomRule>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [tryInput, setTryInput] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const validation = validateRule(draft);
+  const draftSamples = testRuleSamples(draft);
+  const tryMatches = tryInput ? matchRule(draft, tryInput) : [];
+
+  const update = (change: Partial<CustomRule>) => setDraft((prev) => ({ ...prev, ...change }));
+
+  const saveDraft = () => {
+    if (validation.ok === false) return;
+    const rule = { ...draft, samples: draft.samples.filter((s) => s.trim()) };
+    if (editingId) {
+      onChange(rules.map((r) => (r.id === editingId ? { ...rule, id: editingId } : r)));
+      onLog("success", `Rule updated: ${draft.name}`);
+    } else {
+      onChange([...rules, { ...rule, id: ruleIdFor(draft.name, rules) }]);
+      onLog("success", `Rule added: ${draft.name} (${draft.severity})`);
+    }
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const edit = (rule: CustomRule) => {
+    setDraft({ ...EMPTY_DRAFT, ...rule });
+    setEditingId(rule.id);
+  };
+
+  const remove = (rule: CustomRule) => {
+    onChange(rules.filter((r) => r.id !== rule.id));
+    if (editingId === rule.id) {
+      setDraft(EMPTY_DRAFT);
+      setEditingId(null);
+    }
+    onLog("warning", `Rule deleted: ${rule.name}`);
+  };
+
+  const toggle = (rule: CustomRule, enabled: boolean) => {
+    onChange(rules.map((r) => (r.id === rule.id ? { ...r, enabled } : r)));
+    onLog("output", `Rule ${enabled ? "enabled" : "disabled"}: ${rule.name}`);
+  };
+
+  const exportRules = () => {
+    const url = URL.createObjectURL(new Blob([exportRuleSet(rules)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "secureshield-rules.json";
+    link.click();
+    URL.revokeObjectURL(url);
+    onLog("output", `Exported ${rules.length} rules`);
+  };
+
+  const importRules = async (file: File | undefined) => {
+    if (!file) return;
+    const parsed = parseRuleSet(await file.text());
+    if (parsed.ok === false) {
+      setImportError(parsed.error);
+      onLog("error", `Import rejected: ${parsed.error}`);
+    } else {
+      setImportError(null);
+      onChange(parsed.rules);
+      onLog("success", `Imported ${parsed.rules.length} rules from ${file.name}`);
+    }
+    if (fileRef.current) fileRef.current.value = "";
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Rule list */}
+      <div className="space-y-2">
+        {rules.length === 0 && <p className="text-xs text-muted-foreground">Nessuna regola personalizzata.</p>}
+        {rules.map((rule) => {
+          const samples = testRuleSamples(rule);
+          const passing = samples.filter((s) => s.matched).length;
+          return (
+            <div
+              key={rule.id}
+              className={cn(
+                "flex items-center gap-2 rounded-lg border border-border/50 bg-muted/20 p-2 text-xs",
+                !rule.enabled && "opacity-60"
+              )}
+            >
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(checked) => toggle(rule, checked)}
+                aria-label={`Abilita ${rule.name}`}
+              />
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-foreground">{rule.name}</span>
+                  <span className={cn("rounded border px-1.5 py-0.5", SEVERITY_BADGE[rule.severity])}>{rule.severity}</span>
+                  <span
+                    className={cn("font-mono", passing === samples.length ? "text-success" : "text-threat")}
+                    title="Payload di esempio riconosciuti"
+                  >
+                    {passing}/{samples.length} esempi
+                  </span>
+                </div>
+                <code className="block truncate font-mono text-muted-foreground">
+                  {rule.kind === "regex"
+                    ? `/${rule.pattern}/${rule.flags ?? ""}`
+                    : `ƒ ${RULE_FUNCTIONS.find((f) => f.id === rule.functionId)?.label}`}
+                </code>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => edit(rule)}
+                aria-label={`Modifica ${rule.name}`}
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => remove(rule)}
+                aria-label={`Elimina ${rule.name}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Editor */}
+      <div className="space-y-2 rounded-lg border border-border/50 bg-muted/20 p-3">
+        <span className="block text-xs font-semibold text-foreground">
+          {editingId ? `Modifica regola: ${editingId}` : "Nuova regola"}
+        </span>
+        <div className="flex flex-wrap gap-2">
+          <Input
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Nome (es. LDAP Injection)"
+            className="h-8 min-w-[10rem] flex-1 text-xs"
+          />
+          <Select value={draft.severity} onValueChange={(v) => update({ severity: v as PatternSeverity })}>
+            <SelectTrigger className="h-8 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="critical">critical</SelectItem>
+              <SelectItem value="high">high</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={draft.kind} onValueChange={(v) => update({ kind: v as RuleKind })}>
+            <SelectTrigger className="h-8 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="regex">Regex</SelectItem>
+              <SelectItem value="function">Funzione</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {draft.kind === "regex" ? (
+          <div className="flex gap-2">
+            <Input
+              value={draft.pattern ?? ""}
+              onChange={(e) => update({ pattern: e.target.value })}
+              placeholder="Regex, es. \{\{.*\}\}"
+              className="h-8 flex-1 font-mono text-xs"
+            />
+            <Input
+              value={draft.flags ?? ""}
+              onChange={(e) => update({ flags: e.target.value })}
+              placeholder="flag"
+              className="h-8 w-16 font-mono text-xs"
+            />
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <Select value={draft.functionId} onValueChange={(v) => update({ functionId: v })}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RULE_FUNCTIONS.map((f) => (
+                  <SelectItem key={f.id} value={f.id}>
+                    {f.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {RULE_FUNCTIONS.find((f) => f.id === draft.functionId)?.description}
+            </p>
+          </div>
+        )}
+
+        <Input
+          value={draft.remediation ?? ""}
+          onChange={(e) => update({ remediation: e.target.value })}
+          placeholder="Suggerimento di rimedio"
+          className="h-8 text-xs"
+        />
+        <Textarea
+          value={draft.samples.join("\n")}
+          onChange={(e) => update({ samples: e.target.value.split("\n") })}
+          placeholder="Payload di esempio, uno per riga"
+          className="min-h-[60px] font-mono text-xs"
+        />
+        {draftSamples.some((s) => s.sample) && (
+          <ul className="space-y-0.5 font-mono text-xs">
+            {draftSamples
+              .filter((s) => s.sample)
+              .map((s, i) => (
+                <li key={i} className={s.matched ? "text-success" : "text-threat"}>
+                  {s.matched ? "✓" : "✗"} {s.sample}
+                </li>
+              ))}
+          </ul>
+        )}
+
+        <Input
+          value={tryInput}
+          onChange={(e) => setTryInput(e.target.value)}
+          placeholder="Prova la regola su un input..."
+          className="h-8 font-mono text-xs"
+        />
+        {tryInput && (
+          <p className="text-xs text-muted-foreground">
+            {tryMatches.length === 0
+              ? "Nessuna corrispondenza"
+              : `${tryMatches.length} corrispondenze: ${tryMatches.map((m) => tryInput.slice(m.start, m.end)).join(", ")}`}
+          </p>
+        )}
+
+        {validation.ok === false && <p className="text-xs text-threat">{validation.error}</p>}
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" size="sm" onClick={saveDraft} disabled={validation.ok === false}>
+            <Plus className="mr-2 h-4 w-4" />
+            {editingId ? "Salva modifiche" : "Aggiungi regola"}
+          </Button>
+          {editingId && (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setDraft(EMPTY_DRAFT);
+                setEditingId(null);
+              }}
+            >
+              Annulla
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Import / export */}
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={exportRules}>
+          <Download className="mr-2 h-4 w-4" />
+          Esporta JSON
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => fileRef.current?.click()}>
+          <Upload className="mr-2 h-4 w-4" />
+          Importa JSON
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange(STARTER_RULES)}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Regole iniziali
+        </Button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => importRules(e.target.files?.[0])}
+        />
+      </div>
+      {importError && <p className="text-xs text-threat">{importError}</p>}
+    </div>
+  );
+};
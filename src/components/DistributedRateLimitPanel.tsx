@@ -0,0 +1,181 @@
+import { useEffect, useRef, useState } from "react";
+import { Database, Network, Server } from "lucide-react";
+import { ProgressMeter } from "./ProgressMeter";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import {
+  createDistributedRateLimiter,
+  type CounterStore,
+  type DistributedRateLimiter,
+} from "@/lib/distributedRateLimit";
+import type { Clock } from "@/lib/rateLimiter";
+import { cn } from "@/lib/utils";
+
+interface DistributedRateLimitPanelProps {
+  limit: number;
+  windowMs: number;
+  clock: Clock;
+  onLog: (type: "input" | "output" | "error" | "success" | "warning", content: string) => void;
+}
+
+const STORES: Array<{ id: CounterStore; label: string }> = [
+  { id: "local", label: "In-memory per nodo" },
+  { id: "shared", label: "Redis condiviso" },
+];
+
+/**
+ * DistributedRateLimitPanel - N app nodes, one load balancer, one limit
+ *
+ * EDUCATIONAL NOTE:
+ * Scaling out silently multiplies in-memory limits. Send a burst with
+ * local counters and the cluster accepts nodes × limit; switch to the
+ * shared store and it accepts exactly the limit, unless replication lag
+ * lets nodes decide on stale counts.
+ */
+export const DistributedRateLimitPanel = ({ limit, windowMs, clock, onLog }: DistributedRateLimitPanelProps) => {
+  const [nodes, setNodes] = useState(3);
+  const [store, setStore] = useState<CounterStore>("local");
+  const [lagMs, setLagMs] = useState(0);
+  // Shown while dragging; the cluster is only redeployed when the slider is released
+  const [lagDraft, setLagDraft] = useState<number | null>(null);
+  const [lastNode, setLastNode] = useState<number | null>(null);
+  const limiterRef = useRef<DistributedRateLimiter>(
+    createDistributedRateLimiter({ nodes, store, limit, windowMs, replicationLagMs: lagMs, clock })
+  );
+  const [, setVersion] = useState(0);
+
+  // Changing the topology redeploys the cluster with empty counters
+  useEffect(() => {
+    limiterRef.current = createDistributedRateLimiter({ nodes, store, limit, windowMs, replicationLagMs: lagMs, clock });
+    setVersion((v) => v + 1);
+  }, [nodes, store, lagMs, limit, windowMs, clock]);
+
+  const send = (count: number) => {
+    let accepted = 0;
+    for (let i = 0; i < count; i++) {
+      const result = limiterRef.current.handle();
+      if (result.allowed) accepted++;
+      setLastNode(result.node);
+      if (count === 1) {
+        onLog(
+          result.allowed ? "input" : "error",
+          `LB → node-${result.node + 1}: saw ${result.seen}/${limit}, ${result.allowed ? "200 OK" : "429"}`
+        );
+      }
+    }
+    if (count > 1) {
+      onLog(
+        accepted > limit ? "error" : "warning",
+        `Burst of ${count} across ${nodes} nodes: ${accepted} accepted, ${count - accepted} rejected`
+      );
+    }
+    const total = limiterRef.current.clusterAccepted();
+    if (total > limit) {
+      onLog("error", `⚠ Cluster accepted ${total} requests in the window - limit is ${limit}`);
+    }
+    setVersion((v) => v + 1);
+  };
+
+  // Enough traffic to saturate every node's local counter and then some
+  const burstSize = limit * (nodes + 1);
+  const views = limiterRef.current.nodeViews();
+  const clusterAccepted = limiterRef.current.clusterAccepted();
+  const overshoot = clusterAccepted > limit;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-3 rounded-lg border border-border/50 bg-muted/20 p-3">
+        <div className="flex flex-wrap gap-1">
+          {STORES.map((s) => (
+            <button
+              key={s.id}
+              type="button"
+              onClick={() => setStore(s.id)}
+              className={cn(
+                "rounded px-2 py-0.5 text-xs transition-colors",
+                store === s.id ? "bg-primary/20 text-primary" : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">App nodes</span>
+            <span className="font-mono text-foreground">{nodes}</span>
+          </div>
+          <Slider min={1} max={5} step={1} value={[nodes]} onValueChange={([v]) => setNodes(v)} />
+        </div>
+        {store === "shared" && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">Replication lag</span>
+              <span className="font-mono text-foreground">{lagDraft ?? lagMs} ms</span>
+            </div>
+            <Slider
+              min={0}
+              max={5000}
+              step={250}
+              value={[lagDraft ?? lagMs]}
+              onValueChange={([v]) => setLagDraft(v)}
+              onValueCommit={([v]) => {
+                setLagDraft(null);
+                setLagMs(v);
+              }}
+            />
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Button type="button" size="sm" onClick={() => send(1)}>
+            Send Request
+          </Button>
+          <Button type="button" size="sm" variant="destructive" onClick={() => send(burstSize)}>
+            Burst ×{burstSize}
+          </Button>
+        </div>
+      </div>
+
+      {/* Load balancer fan-out */}
+      <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+        <Network className="h-4 w-4" />
+        <span>Round-robin load balancer</span>
+      </div>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {views.map((seen, node) => (
+          <div
+            key={node}
+            className={cn(
+              "space-y-2 rounded-lg border p-2 transition-colors",
+              lastNode === node ? "border-primary/50 bg-primary/10" : "border-border/50 bg-muted/20"
+            )}
+          >
+            <div className="flex items-center gap-2 text-xs">
+              <Server className="h-3 w-3 text-primary" />
+              <span className="font-mono text-foreground">node-{node + 1}</span>
+            </div>
+            <ProgressMeter value={seen} max={limit} label="Vista del nodo" size="sm" />
+          </div>
+        ))}
+      </div>
+
+      <div
+        className={cn(
+          "space-y-2 rounded-lg border p-3",
+          overshoot ? "border-threat/30 bg-threat/10" : "border-success/30 bg-success/5"
+        )}
+      >
+        <div className="flex items-center gap-2 text-xs">
+          <Database className={cn("h-4 w-4", overshoot ? "text-threat" : "text-success")} />
+          <span className="text-foreground">Accettate dal cluster nella finestra</span>
+        </div>
+        <ProgressMeter value={clusterAccepted} max={limit} variant={overshoot ? "threat" : "success"} size="sm" />
+        {overshoot && (
+          <p className="text-xs text-threat">
+            Limite effettivo ≈ {(clusterAccepted / limit).toFixed(1)}× quello configurato
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
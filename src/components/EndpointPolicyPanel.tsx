@@ -0,0 +1,309 @@
+import { useEffect, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Download, Plus, Send, Trash2, Upload } from "lucide-react";
+import { ProgressMeter } from "./ProgressMeter";
+import { Button } from "./ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "./ui/form";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Slider } from "./ui/slider";
+import { Textarea } from "./ui/textarea";
+import {
+  createEndpointRateLimiter,
+  endpointPolicySchema,
+  parsePolicies,
+  policyIdFor,
+  POLICY_PRESETS,
+  SAMPLE_PATHS,
+  serializePolicies,
+  type EndpointPolicy,
+  type EndpointRateLimiter,
+} from "@/lib/endpointPolicies";
+import { RATE_LIMIT_ALGORITHMS, type Clock, type RateLimitDecision } from "@/lib/rateLimiter";
+import { cn } from "@/lib/utils";
+
+const policyFormSchema = endpointPolicySchema.omit({ id: true });
+
+interface EndpointPolicyPanelProps {
+  clock: Clock;
+  onLog: (type: "input" | "output" | "error" | "success" | "warning", content: string) => void;
+  /** Reports every decision with the matched route and that policy's window */
+  onDecision?: (decision: RateLimitDecision, policy: string, windowMs: number) => void;
+}
+
+/**
+ * EndpointPolicyPanel - Route-based rate limit policies
+ *
+ * EDUCATIONAL NOTE:
+ * Gateways (Kong, NGINX, Cloudflare, AWS API Gateway) all configure limits
+ * per route. The matched policy is as important as the limit itself: an
+ * overly broad "/api/*" placed before "/api/search" silently shadows it.
+ */
+export const EndpointPolicyPanel = ({ clock, onLog, onDecision }: EndpointPolicyPanelProps) => {
+  const [policies, setPolicies] = useState<EndpointPolicy[]>(POLICY_PRESETS[0].policies);
+  const [path, setPath] = useState(SAMPLE_PATHS[0]);
+  const [lastMatch, setLastMatch] = useState<string | null>(null);
+  const [json, setJson] = useState("");
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const limiterRef = useRef<EndpointRateLimiter>(createEndpointRateLimiter(policies, clock));
+  const [, setVersion] = useState(0);
+
+  // Editing the policy set starts every policy with fresh counters
+  useEffect(() => {
+    limiterRef.current = createEndpointRateLimiter(policies, clock);
+    setVersion((v) => v + 1);
+  }, [policies, clock]);
+
+  const form = useForm<Omit<EndpointPolicy, "id">>({
+    resolver: zodResolver(policyFormSchema),
+    defaultValues: { route: "/api/upload", algorithm: "token-bucket", limit: 5, windowSeconds: 60 },
+  });
+
+  useEffect(() => {
+    setJson(serializePolicies(policies));
+  }, [policies]);
+
+  const addPolicy = (values: Omit<EndpointPolicy, "id">) => {
+    const policy = { ...values, id: policyIdFor(values.route, policies) };
+    setPolicies((prev) => [...prev, policy]);
+    onLog("output", `Policy added: ${policy.route} → ${policy.limit}/${policy.windowSeconds}s (${policy.algorithm})`);
+  };
+
+  const removePolicy = (id: string) => {
+    setPolicies((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  const fire = (target: string) => {
+    const { policy, decision } = limiterRef.current.consume(target);
+    setLastMatch(policy?.id ?? null);
+    setVersion((v) => v + 1);
+
+    if (!policy) {
+      onLog("warning", `GET ${target} → no policy matched, request NOT rate limited`);
+      return;
+    }
+    onDecision?.(decision, policy.route, policy.windowSeconds * 1000);
+    if (decision.allowed) {
+      onLog("input", `GET ${target} → ${policy.route} ${decision.used}/${policy.limit} 200 OK`);
+    } else {
+      onLog("error", `GET ${target} → ${policy.route} 429 - retry in ${Math.ceil(decision.retryAfterMs / 1000)}s`);
+    }
+  };
+
+  const importJson = () => {
+    const result = parsePolicies(json);
+    if (result.ok === false) {
+      setJsonError(result.error);
+      return;
+    }
+    setJsonError(null);
+    setPolicies(result.policies);
+    onLog("success", `Imported ${result.policies.length} policies${result.name ? ` (${result.name})` : ""}`);
+  };
+
+  const copyJson = async () => {
+    try {
+      if (!navigator.clipboard) throw new Error("Clipboard API unavailable");
+      await navigator.clipboard.writeText(serializePolicies(policies));
+      setJsonError(null);
+      onLog("success", `Copied ${policies.length} policies to the clipboard`);
+    } catch {
+      setJsonError("Impossibile copiare negli appunti: seleziona e copia il JSON dal riquadro");
+    }
+  };
+
+  const loadPreset = (name: string) => {
+    const preset = POLICY_PRESETS.find((p) => p.name === name);
+    if (!preset) return;
+    setPolicies(preset.policies);
+    onLog("output", `Preset loaded: ${preset.name}`);
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Fire requests at an endpoint */}
+      <div className="flex gap-2">
+        <Input
+          value={path}
+          onChange={(e) => setPath(e.target.value)}
+          className="h-9 font-mono text-xs"
+          placeholder="/api/search"
+        />
+        <Button type="button" size="sm" onClick={() => fire(path)}>
+          <Send className="mr-2 h-4 w-4" />
+          Send
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {SAMPLE_PATHS.map((p) => (
+          <button
+            key={p}
+            type="button"
+            onClick={() => {
+              setPath(p);
+              fire(p);
+            }}
+            className="rounded border border-border/50 px-2 py-0.5 font-mono text-xs text-muted-foreground hover:text-foreground"
+          >
+            {p}
+          </button>
+        ))}
+      </div>
+
+      {/* Policy table, in match order */}
+      <div className="space-y-2">
+        {policies.map((policy, index) => {
+          const state = limiterRef.current.peek(policy.id);
+          return (
+            <div
+              key={policy.id}
+              className={cn(
+                "space-y-2 rounded-lg border p-3 transition-colors",
+                lastMatch === policy.id ? "border-primary/50 bg-primary/10" : "border-border/50 bg-muted/20"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="font-mono text-foreground">
+                  {index + 1}. {policy.route}
+                </span>
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-muted-foreground">
+                    {policy.algorithm} · {policy.limit}/{policy.windowSeconds}s
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => removePolicy(policy.id)}
+                    className="text-muted-foreground hover:text-threat"
+                    aria-label={`Remove ${policy.route}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              </div>
+              {state && <ProgressMeter value={state.used} max={policy.limit} size="sm" />}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* New policy */}
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit(addPolicy)}
+          className="space-y-3 rounded-lg border border-border/50 bg-muted/20 p-3"
+        >
+          <div className="grid gap-3 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="route"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Route</FormLabel>
+                  <FormControl>
+                    <Input {...field} className="h-9 font-mono text-xs" />
+                  </FormControl>
+                  <FormMessage className="text-xs" />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="algorithm"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Algorithm</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="h-9 font-mono text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {RATE_LIMIT_ALGORITHMS.map((a) => (
+                        <SelectItem key={a.id} value={a.id}>
+                          {a.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="limit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex justify-between text-xs">
+                  <span>Limit</span>
+                  <span className="font-mono">{field.value} req</span>
+                </FormLabel>
+                <FormControl>
+                  <Slider min={1} max={100} step={1} value={[field.value]} onValueChange={([v]) => field.onChange(v)} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="windowSeconds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex justify-between text-xs">
+                  <span>Window</span>
+                  <span className="font-mono">{field.value}s</span>
+                </FormLabel>
+                <FormControl>
+                  <Slider min={1} max={300} step={1} value={[field.value]} onValueChange={([v]) => field.onChange(v)} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <Button type="submit" size="sm" variant="outline">
+            <Plus className="mr-2 h-4 w-4" />
+            Add policy
+          </Button>
+        </form>
+      </Form>
+
+      {/* Shareable JSON */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select onValueChange={loadPreset}>
+            <SelectTrigger className="h-9 w-48 text-xs">
+              <SelectValue placeholder="Carica preset..." />
+            </SelectTrigger>
+            <SelectContent>
+              {POLICY_PRESETS.map((p) => (
+                <SelectItem key={p.name} value={p.name}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" size="sm" variant="outline" onClick={importJson}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import JSON
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={copyJson}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Copy JSON
+          </Button>
+        </div>
+        <Textarea
+          value={json}
+          onChange={(e) => setJson(e.target.value)}
+          className="min-h-[120px] bg-muted/30 font-mono text-xs"
+        />
+        {jsonError && <p className="text-xs text-threat">{jsonError}</p>}
+      </div>
+    </div>
+  );
+};
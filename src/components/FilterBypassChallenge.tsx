@@ -0,0 +1,190 @@
+import { useRef, useState } from "react";
+import { CheckCircle, Lightbulb, Swords, Trophy } from "lucide-react";
+import { PayloadLibrary } from "./PayloadLibrary";
+import { SandboxedPreview } from "./SandboxedPreview";
+import { Button } from "./ui/button";
+import { Textarea } from "./ui/textarea";
+import { executionVectors, FILTER_LEVELS, levelScore, type LevelProgress } from "@/lib/filterChallenge";
+import type { PreviewEvent } from "@/lib/sandboxPreview";
+import { cn } from "@/lib/utils";
+
+interface FilterBypassChallengeProps {
+  onLog: (type: "input" | "output" | "error" | "success" | "warning", content: string) => void;
+}
+
+const EMPTY_PROGRESS: LevelProgress = { attempts: 0, hintsUsed: 0, solved: false };
+
+/**
+ * FilterBypassChallenge - Beat the filter, make the payload fire
+ *
+ * EDUCATIONAL NOTE:
+ * A level is solved only when the FILTERED output actually executes in the
+ * sandboxed preview, not when a regex says so. Working through the levels
+ * shows the blacklist arms race first-hand, and why the last level ends it.
+ */
+export const FilterBypassChallenge = ({ onLog }: FilterBypassChallengeProps) => {
+  const [levelId, setLevelId] = useState(FILTER_LEVELS[0].id);
+  const [payload, setPayload] = useState('<script>alert("XSS")</script>');
+  const [progress, setProgress] = useState<Record<number, LevelProgress>>({});
+  const [attempt, setAttempt] = useState<{ id: number; levelId: number; payload: string; filtered: string } | null>(
+    null
+  );
+  // Events can arrive after the learner moved on; only the latest attempt counts
+  const attemptRef = useRef(attempt);
+  attemptRef.current = attempt;
+  const progressRef = useRef(progress);
+  progressRef.current = progress;
+
+  const level = FILTER_LEVELS.find((l) => l.id === levelId) ?? FILTER_LEVELS[0];
+  const current = progress[levelId] ?? EMPTY_PROGRESS;
+
+  const update = (id: number, change: (p: LevelProgress) => Partial<LevelProgress>) => {
+    setProgress((prev) => {
+      const before = prev[id] ?? EMPTY_PROGRESS;
+      return { ...prev, [id]: { ...before, ...change(before) } };
+    });
+  };
+
+  const tryPayload = () => {
+    const filtered = level.filter(payload);
+    setAttempt({ id: (attempt?.id ?? 0) + 1, levelId, payload, filtered });
+    update(levelId, (p) => ({ attempts: p.attempts + 1 }));
+    const vectors = executionVectors(filtered);
+    onLog("input", `Level ${levelId} (${level.name}): ${payload.substring(0, 40)}`);
+    onLog(
+      vectors.length > 0 ? "warning" : "output",
+      vectors.length > 0 ? `Filter output still contains ${vectors.join(", ")}` : "Filter output has no executable vector"
+    );
+  };
+
+  const handlePreviewEvent = ({ pane, sink, detail }: PreviewEvent) => {
+    const active = attemptRef.current;
+    if (pane !== "sanitized" || !active) return;
+    onLog("error", `⚠ Payload executed past level ${active.levelId}: ${sink}(${detail})`);
+    const before = progressRef.current[active.levelId] ?? EMPTY_PROGRESS;
+    if (before.solved) return;
+    // Mark solved now: one payload often reports several sinks before the next render
+    progressRef.current = { ...progressRef.current, [active.levelId]: { ...before, solved: true } };
+    onLog("success", `🏆 Level ${active.levelId} solved - +${levelScore({ ...before, solved: true })} points`);
+    update(active.levelId, () => ({ solved: true }));
+  };
+
+  const showHint = () => {
+    update(levelId, (p) => ({ hintsUsed: Math.min(level.hints.length, p.hintsUsed + 1) }));
+  };
+
+  const changeLevel = (id: number) => {
+    setLevelId(id);
+    setAttempt(null);
+  };
+
+  const total = FILTER_LEVELS.reduce((sum, l) => sum + levelScore(progress[l.id] ?? EMPTY_PROGRESS), 0);
+
+  return (
+    <div className="space-y-4">
+      {/* Level picker */}
+      <div className="flex flex-wrap gap-1">
+        {FILTER_LEVELS.map((l) => (
+          <button
+            key={l.id}
+            type="button"
+            onClick={() => changeLevel(l.id)}
+            className={cn(
+              "flex items-center gap-1 rounded px-2 py-0.5 text-xs transition-colors",
+              levelId === l.id ? "bg-primary/20 text-primary" : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {progress[l.id]?.solved && <CheckCircle className="h-3 w-3 text-success" />}
+            {l.id}. {l.name}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">{level.description}</p>
+
+      <div className="space-y-2">
+        <Textarea
+          value={payload}
+          onChange={(e) => setPayload(e.target.value)}
+          placeholder="Scrivi un payload che superi il filtro..."
+          className="min-h-[60px] bg-muted/30 font-mono text-sm"
+        />
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" onClick={tryPayload} className="glow-button">
+            <Swords className="mr-2 h-4 w-4" />
+            Prova il payload
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={showHint}
+            disabled={current.hintsUsed >= level.hints.length || current.solved}
+          >
+            <Lightbulb className="mr-2 h-4 w-4" />
+            Suggerimento ({current.hintsUsed}/{level.hints.length})
+          </Button>
+          <PayloadLibrary target="challenge" onSelect={(entry) => setPayload(entry.payload)} />
+        </div>
+        {level.hints.slice(0, current.hintsUsed).map((hint, i) => (
+          <p key={i} className="rounded border border-warning/30 bg-warning/10 px-2 py-1 text-xs text-warning">
+            💡 {hint}
+          </p>
+        ))}
+      </div>
+
+      {attempt && attempt.levelId === levelId && (
+        <div className="space-y-2">
+          <code className="block break-all rounded bg-muted/30 p-2 font-mono text-xs text-muted-foreground">
+            Output del filtro: {attempt.filtered || "(empty)"}
+          </code>
+          <SandboxedPreview
+            key={attempt.id}
+            raw={attempt.payload}
+            sanitized={attempt.filtered}
+            onEvent={handlePreviewEvent}
+          />
+          <p className="text-xs text-muted-foreground">
+            Il livello è superato quando il payload si esegue nell'anteprima filtrata (a destra), anche con un click.
+          </p>
+        </div>
+      )}
+
+      {/* Scoreboard */}
+      <div className="overflow-x-auto rounded-lg border border-border/50">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-border/50 bg-muted/30 text-muted-foreground">
+              <th className="p-2 text-left font-medium">Livello</th>
+              <th className="p-2 text-center font-medium">Tentativi</th>
+              <th className="p-2 text-center font-medium">Suggerimenti</th>
+              <th className="p-2 text-right font-medium">Punti</th>
+            </tr>
+          </thead>
+          <tbody>
+            {FILTER_LEVELS.map((l) => {
+              const p = progress[l.id] ?? EMPTY_PROGRESS;
+              return (
+                <tr key={l.id} className="border-b border-border/30 last:border-0">
+                  <td className={cn("p-2", p.solved ? "text-success" : "text-foreground")}>
+                    {l.id}. {l.name}
+                  </td>
+                  <td className="p-2 text-center font-mono text-muted-foreground">{p.attempts}</td>
+                  <td className="p-2 text-center font-mono text-muted-foreground">{p.hintsUsed}</td>
+                  <td className="p-2 text-right font-mono text-foreground">{levelScore(p)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot>
+            <tr className="bg-muted/20">
+              <td colSpan={3} className="p-2 text-foreground">
+                <Trophy className="mr-1 inline h-3 w-3 text-warning" />
+                Totale
+              </td>
+              <td className="p-2 text-right font-mono text-foreground">{total}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
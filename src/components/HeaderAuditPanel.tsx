@@ -0,0 +1,109 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle, CheckCircle, Info, XCircle } from "lucide-react";
+import { Textarea } from "./ui/textarea";
+import {
+  auditHeaders,
+  parseRawHeaders,
+  SAMPLE_RESPONSE,
+  type AuditCheck,
+  type AuditGrade,
+  type AuditStatus,
+} from "@/lib/headerAudit";
+import { cn } from "@/lib/utils";
+
+const STATUS_ICONS: Record<AuditStatus, { icon: typeof Info; className: string }> = {
+  pass: { icon: CheckCircle, className: "text-success" },
+  warn: { icon: AlertTriangle, className: "text-warning" },
+  fail: { icon: XCircle, className: "text-threat" },
+  info: { icon: Info, className: "text-muted-foreground" },
+};
+
+const GRADE_STYLES: Record<AuditGrade, string> = {
+  "A+": "border-success/40 bg-success/10 text-success",
+  A: "border-success/40 bg-success/10 text-success",
+  B: "border-success/30 bg-success/5 text-success",
+  C: "border-warning/40 bg-warning/10 text-warning",
+  D: "border-threat/30 bg-threat/5 text-threat",
+  F: "border-threat/40 bg-threat/10 text-threat",
+};
+
+const CheckList = ({ title, checks }: { title: string; checks: AuditCheck[] }) => (
+  <div className="space-y-1">
+    <span className="block text-xs font-semibold text-foreground">{title}</span>
+    <ul className="space-y-1">
+      {checks.map((c, i) => {
+        const { icon: Icon, className } = STATUS_ICONS[c.status];
+        return (
+          <li key={i} className="flex items-start gap-2 rounded border border-border/50 bg-muted/20 p-2 text-xs">
+            <Icon className={cn("mt-0.5 h-4 w-4 shrink-0", className)} />
+            <div className="min-w-0">
+              <span className="font-mono text-foreground">{c.header}</span>
+              <p className="break-words text-muted-foreground">{c.message}</p>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
+
+/**
+ * HeaderAuditPanel - Grades a pasted block of response headers
+ *
+ * EDUCATIONAL NOTE:
+ * Everything runs in this page: the headers are parsed and graded locally,
+ * so internal hostnames and cookies in the paste never leave the browser.
+ */
+export const HeaderAuditPanel = () => {
+  const [raw, setRaw] = useState(SAMPLE_RESPONSE);
+
+  const parsed = useMemo(() => parseRawHeaders(raw), [raw]);
+  const report = useMemo(
+    () => (parsed.ok === true ? auditHeaders(parsed.headers, parsed.statusLine) : null),
+    [parsed]
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Incolla l'output di <code className="font-mono">curl -I https://tuo.sito</code>: l'analisi avviene solo nel
+        browser.
+      </p>
+      <Textarea
+        value={raw}
+        onChange={(e) => setRaw(e.target.value)}
+        placeholder={"HTTP/2 200\ncontent-type: text/html\n..."}
+        className="min-h-[140px] bg-muted/30 font-mono text-xs"
+        spellCheck={false}
+      />
+      {parsed.ok === false && <p className="text-xs text-threat">{parsed.error}</p>}
+
+      {report && (
+        <>
+          <div className="flex items-center gap-3">
+            <span
+              className={cn(
+                "flex h-12 w-12 items-center justify-center rounded-lg border text-2xl font-bold",
+                GRADE_STYLES[report.grade]
+              )}
+              aria-label={`Voto ${report.grade}`}
+            >
+              {report.grade}
+            </span>
+            <div className="text-xs text-muted-foreground">
+              <div>
+                Punteggio: <span className="font-semibold text-foreground">{report.score}/100</span>
+              </div>
+              <div>
+                {report.statusLine ?? "Risposta senza status line"}, {report.headers.length} header
+              </div>
+            </div>
+          </div>
+
+          <CheckList title="Header di sicurezza" checks={report.checks.filter((c) => c.baseline)} />
+          <CheckList title="Controlli aggiuntivi" checks={report.checks.filter((c) => !c.baseline)} />
+        </>
+      )}
+    </div>
+  );
+};
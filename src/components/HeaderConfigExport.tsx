@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Check, Copy, XCircle } from "lucide-react";
+import { Button } from "./ui/button";
+import { CONFIG_TARGETS, generateConfig, type ConfigTarget, type HeaderEntry } from "@/lib/headerConfig";
+import { cn } from "@/lib/utils";
+
+interface HeaderConfigExportProps {
+  /** The enabled headers, with the values currently shown in the viewer */
+  headers: HeaderEntry[];
+}
+
+/**
+ * HeaderConfigExport - Ready-to-paste header config for the enabled headers
+ *
+ * EDUCATIONAL NOTE:
+ * Toggle headers or edit the CSP, then copy the snippet for your stack.
+ * Always check the result with the Audit tab against the real response:
+ * a CDN or a framework default can still add, drop or duplicate headers.
+ */
+export const HeaderConfigExport = ({ headers }: HeaderConfigExportProps) => {
+  const [target, setTarget] = useState<ConfigTarget>("nginx");
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">("idle");
+
+  const current = CONFIG_TARGETS.find((t) => t.id === target) ?? CONFIG_TARGETS[0];
+  const config = generateConfig(target, headers);
+
+  const copy = async () => {
+    try {
+      // Missing outside secure contexts; writeText rejects when permission is denied
+      if (!navigator.clipboard) throw new Error("Clipboard API unavailable");
+      await navigator.clipboard.writeText(config);
+      setCopyState("copied");
+      setTimeout(() => setCopyState("idle"), 1500);
+    } catch {
+      setCopyState("failed");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {CONFIG_TARGETS.map((t) => (
+          <button
+            key={t.id}
+            type="button"
+            onClick={() => {
+              setTarget(t.id);
+              setCopyState("idle");
+            }}
+            className={cn(
+              "rounded px-2 py-0.5 text-xs transition-colors",
+              target === t.id ? "bg-primary/20 text-primary" : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-hidden rounded-lg border border-border/50">
+        <div className="flex items-center justify-between border-b border-border/50 bg-muted/30 px-3 py-1.5">
+          <span className="font-mono text-xs text-muted-foreground">{current.filename}</span>
+          <Button type="button" variant="ghost" size="sm" className="h-7" onClick={copy}>
+            {copyState === "copied" ? (
+              <Check className="mr-2 h-3 w-3 text-success" />
+            ) : copyState === "failed" ? (
+              <XCircle className="mr-2 h-3 w-3 text-threat" />
+            ) : (
+              <Copy className="mr-2 h-3 w-3" />
+            )}
+            {copyState === "copied" ? "Copiato" : copyState === "failed" ? "Copia non riuscita" : "Copia"}
+          </Button>
+        </div>
+        <pre className="max-h-80 overflow-auto bg-background/80 p-3 font-mono text-xs text-foreground">{config}</pre>
+      </div>
+
+      {copyState === "failed" && (
+        <p className="text-xs text-threat">Appunti non disponibili: seleziona il testo e copialo a mano.</p>
+      )}
+      {headers.length === 0 && (
+        <p className="text-xs text-threat">Nessun header attivo: la configurazione generata non aggiunge nulla.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import { FileCode } from "lucide-react";
+import type { MockHttpResponse, RateLimitHeaderFormat } from "@/lib/rateLimitHeaders";
+import { cn } from "@/lib/utils";
+
+interface HttpResponseInspectorProps {
+  response: MockHttpResponse | null;
+  format: RateLimitHeaderFormat;
+  onFormatChange: (format: RateLimitHeaderFormat) => void;
+}
+
+const FORMATS: Array<{ id: RateLimitHeaderFormat; label: string }> = [
+  { id: "legacy", label: "X-RateLimit-*" },
+  { id: "standard", label: "IETF RateLimit" },
+];
+
+const isRateLimitHeader = (name: string) => /ratelimit|retry-after/i.test(name);
+
+/**
+ * HttpResponseInspector - Raw view of the last simulated HTTP response
+ *
+ * EDUCATIONAL NOTE:
+ * This is what a well-behaved client (or curl -i) sees. Clients should read
+ * Retry-After and back off instead of hammering the API; SDKs like Octokit
+ * or the AWS SDK do exactly this with these headers.
+ */
+export const HttpResponseInspector = ({ response, format, onFormatChange }: HttpResponseInspectorProps) => {
+  return (
+    <div className="rounded-lg border border-border bg-background/80 overflow-hidden">
+      <div className="flex items-center justify-between border-b border-border bg-muted/30 px-4 py-2">
+        <div className="flex items-center gap-2">
+          <FileCode className="h-3 w-3 text-muted-foreground" />
+          <span className="font-mono text-xs text-muted-foreground">Last Response</span>
+        </div>
+        <div className="flex gap-1">
+          {FORMATS.map((f) => (
+            <button
+              key={f.id}
+              type="button"
+              onClick={() => onFormatChange(f.id)}
+              className={cn(
+                "rounded px-2 py-0.5 font-mono text-xs transition-colors",
+                format === f.id ? "bg-primary/20 text-primary" : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="p-4 font-mono text-xs space-y-0.5 break-all">
+        {response ? (
+          <>
+            <div className={response.status === 429 ? "text-threat" : "text-success"}>
+              HTTP/1.1 {response.status} {response.statusText}
+            </div>
+            {response.headers.map(([name, value]) => (
+              <div key={name}>
+                <span className={isRateLimitHeader(name) ? "text-primary" : "text-muted-foreground"}>{name}</span>
+                <span className="text-muted-foreground">: </span>
+                <span className="text-foreground">{value}</span>
+              </div>
+            ))}
+            <div className="pt-2 text-muted-foreground">{response.body}</div>
+          </>
+        ) : (
+          <span className="text-muted-foreground">Nessuna richiesta inviata</span>
+        )}
+      </div>
+    </div>
+  );
+};
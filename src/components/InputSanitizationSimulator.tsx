@@ -1,9 +1,23 @@
 import { useEffect, useRef, useState } from "react";
 import { ShieldAlert, Code, AlertTriangle, CheckCircle } from "lucide-react";
+import { AllowlistSanitizerPanel } from "./AllowlistSanitizerPanel";
+import { CommandInjectionSandbox } from "./CommandInjectionSandbox";
+import { DetectionRuleManager } from "./DetectionRuleManager";
+import { PayloadLibrary } from "./PayloadLibrary";
+import { OutputEncodingPanel } from "./OutputEncodingPanel";
+import { SandboxedPreview } from "./SandboxedPreview";
 import { SecurityCard } from "./SecurityCard";
+import { FilterBypassChallenge } from "./FilterBypassChallenge";
 import { Terminal } from "./Terminal";
+import { WrongEncoderDemo } from "./WrongEncoderDemo";
 import { Button } from "./ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { Textarea } from "./ui/textarea";
+import { highlightSegments, type PatternSeverity, type ThreatFinding } from "@/lib/dangerousPatterns";
+import { analyzeWithRules, loadRules, saveRules, type CustomRule } from "@/lib/detectionRules";
+import { PAYLOADS, type PayloadEntry } from "@/lib/payloadLibrary";
+import { embedInContext, encodeForContext, OUTPUT_CONTEXTS, type OutputContext } from "@/lib/encoding";
+import type { PreviewEvent } from "@/lib/sandboxPreview";
 import { cn } from "@/lib/utils";
 
 /**
@@ -26,56 +40,55 @@ import { cn } from "@/lib/utils";
  * - Input length limits
  */
 
-// Dangerous patterns to detect
-const DANGEROUS_PATTERNS = [
-  { pattern: /<script[\s\S]*?>[\s\S]*?<\/script>/gi, name: "XSS Script Tag", severity: "critical" },
-  { pattern: /javascript:/gi, name: "JavaScript URI", severity: "critical" },
-  { pattern: /on\w+\s*=/gi, name: "Event Handler", severity: "high" },
-  { pattern: /'\s*(or|and)\s*'?\d*'?\s*=\s*'?\d*'?/gi, name: "SQL Injection", severity: "critical" },
-  { pattern: /;\s*(rm|cat|ls|wget|curl)/gi, name: "Command Injection", severity: "critical" },
-  { pattern: /\.\.\//g, name: "Path Traversal", severity: "high" },
-  { pattern: /<iframe/gi, name: "Iframe Injection", severity: "high" },
-  { pattern: /<img.*onerror/gi, name: "Image XSS", severity: "high" },
-];
-
-const sanitizeInput = (input: string): { sanitized: string; threats: string[] } => {
-  let sanitized = input;
-  const threats: string[] = [];
-
-  for (const { pattern, name } of DANGEROUS_PATTERNS) {
-    if (pattern.test(input)) {
-      threats.push(name);
-    }
-    sanitized = sanitized.replace(pattern, "[BLOCKED]");
-  }
+interface SanitizeResult {
+  sanitized: string;
+  findings: ThreatFinding[];
+  /** Names of the rules that matched, once each */
+  threats: string[];
+}
+
+const sanitizeInput = (input: string, context: OutputContext, rules: CustomRule[]): SanitizeResult => {
+  // Findings are only reported: rewriting matches would mangle harmless input, encoding alone neutralises it
+  const findings = analyzeWithRules(input, rules);
+  // Encode for where the value is written, not with one HTML encoder for everything
+  const sanitized = encodeForContext(context, input);
 
-  // HTML entity encoding
-  sanitized = sanitized
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#x27;");
+  return { sanitized, findings, threats: Array.from(new Set(findings.map((f) => f.name))) };
+};
 
-  return { sanitized, threats };
+const SEVERITY_STYLES: Record<PatternSeverity, { mark: string; badge: string }> = {
+  critical: { mark: "bg-threat/40", badge: "bg-threat/20 text-threat border-threat/30" },
+  high: { mark: "bg-warning/40", badge: "bg-warning/20 text-warning border-warning/30" },
 };
 
-const EXAMPLE_ATTACKS = [
-  '<script>alert("XSS")</script>',
-  "'; DROP TABLE users; --",
-  '<img src=x onerror="steal()">',
-  "../../../etc/passwd",
-];
+// Quick picks; the full set is in the payload library
+const FEATURED_PAYLOADS = ["xss-script-tag", "sqli-drop-table", "xss-img-onerror", "traversal-etc-passwd"].map(
+  (id) => PAYLOADS.find((p) => p.id === id)
+);
 
 export const InputSanitizationSimulator = () => {
   const [input, setInput] = useState("");
-  const [result, setResult] = useState<{ sanitized: string; threats: string[] } | null>(null);
+  const [result, setResult] = useState<SanitizeResult | null>(null);
   const [shake, setShake] = useState(false);
+  const [context, setContext] = useState<OutputContext>("html-body");
+  const [showWrongEncoder, setShowWrongEncoder] = useState(false);
+  const [customRules, setCustomRules] = useState<CustomRule[]>(loadRules);
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const backdropRef = useRef<HTMLDivElement | null>(null);
   const [logs, setLogs] = useState<Array<{ type: "input" | "output" | "error" | "success" | "warning"; content: string }>>([
     { type: "output", content: "Input sanitization engine ready" },
     { type: "success", content: "XSS, SQL Injection, Command Injection detection enabled" },
   ]);
 
+  useEffect(() => {
+    if (!saveRules(customRules)) {
+      setLogs((prev) => [
+        ...prev.slice(-5),
+        { type: "warning", content: "Browser storage unavailable: custom rules last until reload" },
+      ]);
+    }
+  }, [customRules]);
+
   useEffect(() => {
     if (!shake) return;
     const t = window.setTimeout(() => setShake(false), 400);
@@ -96,13 +109,18 @@ export const InputSanitizationSimulator = () => {
       return;
     }
 
-    const sanitized = sanitizeInput(input);
+    const sanitized = sanitizeInput(input, context, customRules);
     setResult(sanitized);
 
     if (sanitized.threats.length > 0) {
       setLogs(prev => [...prev.slice(-5),
         { type: "warning" as const, content: `Analyzing input: ${input.substring(0, 30)}...` },
-        { type: "error" as const, content: `⚠ THREATS DETECTED: ${sanitized.threats.join(", ")}` },
+        {
+          type: "error" as const,
+          content: `⚠ THREATS DETECTED: ${sanitized.threats.join(", ")} (${sanitized.findings.length} matches, ${
+            sanitized.findings.filter((f) => f.severity === "critical").length
+          } critical)`,
+        },
         { type: "success" as const, content: "Malicious content neutralized" },
       ]);
     } else {
@@ -113,12 +131,46 @@ export const InputSanitizationSimulator = () => {
     }
   };
 
+  const changeContext = (next: OutputContext) => {
+    setContext(next);
+    if (result) setResult(sanitizeInput(input, next, customRules));
+    setLogs((prev) => [
+      ...prev.slice(-5),
+      { type: "output" as const, content: `Output context: ${OUTPUT_CONTEXTS.find((c) => c.id === next)?.label}` },
+    ]);
+  };
+
+  const changeRules = (next: CustomRule[]) => {
+    setCustomRules(next);
+    setResult(null);
+  };
+
+  const addLog = (type: "input" | "output" | "error" | "success" | "warning", content: string) => {
+    setLogs((prev) => [...prev.slice(-7), { type, content }]);
+  };
+
+  const handlePreviewEvent = ({ pane, sink, detail }: PreviewEvent) => {
+    setLogs((prev) => [
+      ...prev.slice(-5),
+      pane === "raw"
+        ? { type: "error" as const, content: `⚠ Payload executed in raw preview: ${sink}(${detail})` }
+        : { type: "error" as const, content: `✗ Payload executed in SANITIZED preview: ${sink}(${detail}) - wrong context?` },
+    ]);
+  };
+
   const loadExample = (example: string) => {
     setInput(example);
     setResult(null);
   };
 
+  const loadLibraryPayload = (entry: PayloadEntry) => {
+    loadExample(entry.payload);
+    addLog("input", `Loaded ${entry.name} (${entry.cwe}) from the payload library`);
+  };
+
   const hasThreat = result && result.threats.length > 0;
+  // Highlight while typing: the analysis is cheap and shows what the blacklist sees
+  const segments = highlightSegments(input, analyzeWithRules(input, customRules));
 
   return (
     <SecurityCard
@@ -128,96 +180,166 @@ export const InputSanitizationSimulator = () => {
       status={hasThreat ? "warning" : "protected"}
     >
       <div className="space-y-4">
-        {/* Example Attack Buttons */}
-        <div className="flex flex-wrap gap-2">
-          <span className="text-xs text-muted-foreground self-center">Prova un attacco:</span>
-          {EXAMPLE_ATTACKS.map((attack, index) => (
-          <Button
-            key={index}
-            type="button"
-            variant="outline"
-            size="sm"
-            onClick={() => loadExample(attack)}
-            className="font-mono text-xs"
-          >
-            {attack.substring(0, 12)}...
-            </Button>
-          ))}
-        </div>
+        <Tabs defaultValue="simulator">
+          <TabsList className="grid w-full grid-cols-5">
+            <TabsTrigger value="simulator">Simulatore</TabsTrigger>
+            <TabsTrigger value="allowlist">Allowlist</TabsTrigger>
+            <TabsTrigger value="challenge">Challenge</TabsTrigger>
+            <TabsTrigger value="shell">Comandi</TabsTrigger>
+            <TabsTrigger value="rules">Regole</TabsTrigger>
+          </TabsList>
 
-        {/* Input Area */}
-        <div className="space-y-2">
-          <Textarea
-            ref={textareaRef}
-            value={input}
-            onChange={(e) => {
-              setInput(e.target.value);
-              setResult(null);
-            }}
-            placeholder="Inserisci input potenzialmente pericoloso..."
-            className={cn(
-              "font-mono text-sm min-h-[80px] bg-muted/30 border-border",
-              shake && "animate-shake"
-            )}
-          />
-          <Button 
-            type="button" 
-            onClick={handleSanitize} 
-            className="glow-button"
-          >
-            <Code className="mr-2 h-4 w-4" />
-            Analizza e Sanitizza
-          </Button>
-        </div>
+          <TabsContent value="simulator" className="space-y-4">
+            {/* Example Attack Buttons */}
+            <div className="flex flex-wrap gap-2">
+              <span className="text-xs text-muted-foreground self-center">Prova un attacco:</span>
+              {FEATURED_PAYLOADS.map((entry) => (
+                <Button
+                  key={entry.id}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => loadExample(entry.payload)}
+                  className="text-xs"
+                  title={entry.payload}
+                >
+                  {entry.name}
+                </Button>
+              ))}
+              <PayloadLibrary target="sanitizer" size="sm" onSelect={loadLibraryPayload} />
+            </div>
 
-        {/* Results */}
-        {result && (
-          <div className="space-y-3">
-            {/* Threats Detected */}
-            {result.threats.length > 0 && (
-              <div className="rounded-lg border border-threat/30 bg-threat/10 p-3">
-                <div className="flex items-center gap-2 text-threat mb-2">
-                  <AlertTriangle className="h-4 w-4" />
-                  <span className="font-semibold text-sm">Minacce Rilevate</span>
+            {/* Input Area */}
+            <div className="space-y-2">
+              {/* The marks sit in a backdrop that mirrors the textarea's text, behind its transparent background */}
+              <div className={cn("relative rounded-md bg-muted/30", shake && "animate-shake")}>
+                <div
+                  ref={backdropRef}
+                  aria-hidden
+                  className="pointer-events-none absolute inset-0 overflow-hidden whitespace-pre-wrap break-words rounded-md border border-transparent px-3 py-2 font-mono text-sm text-transparent"
+                >
+                  {segments.map((segment, i) =>
+                    segment.severity ? (
+                      <mark key={i} className={cn("rounded-sm text-transparent", SEVERITY_STYLES[segment.severity].mark)}>
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      <span key={i}>{segment.text}</span>
+                    )
+                  )}
+                  {input.endsWith("\n") && " "}
                 </div>
-                <div className="flex flex-wrap gap-1">
-                  {result.threats.map((threat, i) => (
-                    <span
-                      key={i}
-                      className="px-2 py-0.5 rounded text-xs bg-threat/20 text-threat border border-threat/30"
-                    >
-                      {threat}
+                <Textarea
+                  ref={textareaRef}
+                  value={input}
+                  onChange={(e) => {
+                    setInput(e.target.value);
+                    setResult(null);
+                  }}
+                  onScroll={(e) => {
+                    if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+                  }}
+                  placeholder="Inserisci input potenzialmente pericoloso..."
+                  className="relative font-mono text-sm min-h-[80px] bg-transparent border-border"
+                />
+              </div>
+              <Button 
+                type="button" 
+                onClick={handleSanitize} 
+                className="glow-button"
+              >
+                <Code className="mr-2 h-4 w-4" />
+                Analizza e Sanitizza
+              </Button>
+            </div>
+
+            {/* Results */}
+            {result && (
+              <div className="space-y-3">
+                {/* Threats Detected */}
+                {result.findings.length > 0 && (
+                  <div className="rounded-lg border border-threat/30 bg-threat/10 p-3">
+                    <div className="flex items-center gap-2 text-threat mb-2">
+                      <AlertTriangle className="h-4 w-4" />
+                      <span className="font-semibold text-sm">Minacce Rilevate</span>
+                    </div>
+                    <ul className="space-y-2">
+                      {result.findings.map((finding, i) => (
+                        <li key={i} className="space-y-0.5 text-xs">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className={cn("px-2 py-0.5 rounded border", SEVERITY_STYLES[finding.severity].badge)}>
+                              {finding.severity}
+                            </span>
+                            <span className="font-semibold text-foreground">{finding.name}</span>
+                            <span className="font-mono text-muted-foreground">
+                              {finding.ruleId} [{finding.start}–{finding.end}]
+                            </span>
+                          </div>
+                          <code className="block break-all font-mono text-threat">{finding.match}</code>
+                          <p className="text-muted-foreground">{finding.remediation}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Sanitized Output */}
+                <div className={cn(
+                  "rounded-lg border p-3",
+                  result.threats.length > 0 
+                    ? "border-success/30 bg-success/10" 
+                    : "border-primary/30 bg-primary/10"
+                )}>
+                  <div className="flex items-center gap-2 mb-2">
+                    <CheckCircle className={cn(
+                      "h-4 w-4",
+                      result.threats.length > 0 ? "text-success" : "text-primary"
+                    )} />
+                    <span className={cn(
+                      "font-semibold text-sm",
+                      result.threats.length > 0 ? "text-success" : "text-primary"
+                    )}>
+                      Output Sanitizzato ({OUTPUT_CONTEXTS.find((c) => c.id === context)?.label})
                     </span>
-                  ))}
+                  </div>
+                  <code className="text-xs font-mono break-all text-muted-foreground">
+                    {result.sanitized || "(empty)"}
+                  </code>
                 </div>
+
+                <SandboxedPreview
+                  raw={embedInContext(context, input)}
+                  sanitized={embedInContext(context, result.sanitized)}
+                  onEvent={handlePreviewEvent}
+                />
               </div>
             )}
 
-            {/* Sanitized Output */}
-            <div className={cn(
-              "rounded-lg border p-3",
-              result.threats.length > 0 
-                ? "border-success/30 bg-success/10" 
-                : "border-primary/30 bg-primary/10"
-            )}>
-              <div className="flex items-center gap-2 mb-2">
-                <CheckCircle className={cn(
-                  "h-4 w-4",
-                  result.threats.length > 0 ? "text-success" : "text-primary"
-                )} />
-                <span className={cn(
-                  "font-semibold text-sm",
-                  result.threats.length > 0 ? "text-success" : "text-primary"
-                )}>
-                  Output Sanitizzato
-                </span>
-              </div>
-              <code className="text-xs font-mono break-all text-muted-foreground">
-                {result.sanitized || "(empty)"}
-              </code>
-            </div>
-          </div>
-        )}
+            <OutputEncodingPanel payload={input} context={context} onContextChange={changeContext} />
+
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowWrongEncoder((v) => !v)}>
+              <AlertTriangle className="mr-2 h-4 w-4" />
+              {showWrongEncoder ? "Nascondi demo" : "Perché l'encoder sbagliato è ancora sfruttabile"}
+            </Button>
+            {showWrongEncoder && <WrongEncoderDemo />}
+          </TabsContent>
+
+          <TabsContent value="allowlist">
+            <AllowlistSanitizerPanel />
+          </TabsContent>
+
+          <TabsContent value="challenge">
+            <FilterBypassChallenge onLog={addLog} />
+          </TabsContent>
+
+          <TabsContent value="shell">
+            <CommandInjectionSandbox onLog={addLog} />
+          </TabsContent>
+
+          <TabsContent value="rules">
+            <DetectionRuleManager rules={customRules} onChange={changeRules} onLog={addLog} />
+          </TabsContent>
+        </Tabs>
 
         <Terminal
           lines={logs}
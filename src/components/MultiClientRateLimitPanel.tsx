@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from "react";
+import { Shuffle, User, Skull } from "lucide-react";
+import { ProgressMeter } from "./ProgressMeter";
+import { Button } from "./ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  createKeyedRateLimiter,
+  rateLimitKey,
+  RATE_LIMIT_KEY_STRATEGIES,
+  type Clock,
+  type KeyedRateLimiter,
+  type RateLimitAlgorithm,
+  type RateLimitDecision,
+  type RateLimitKeyStrategy,
+  type RateLimitSubject,
+} from "@/lib/rateLimiter";
+import { cn } from "@/lib/utils";
+
+interface SimulatedClient extends RateLimitSubject {
+  id: string;
+  name: string;
+  attacker?: boolean;
+}
+
+// Alice and Carol sit behind the same corporate NAT, so they share an IP
+const SIMULATED_CLIENTS: SimulatedClient[] = [
+  { id: "alice", name: "Alice", ip: "198.51.100.10", userId: "alice", apiKey: "key_a1b2" },
+  { id: "carol", name: "Carol", ip: "198.51.100.10", userId: "carol", apiKey: "key_c3d4" },
+  { id: "bob", name: "Bob", ip: "192.0.2.44", userId: "bob", apiKey: "key_e5f6" },
+  { id: "attacker", name: "Attacker", ip: "203.0.113.1", userId: "admin", apiKey: "key_leaked", attacker: true },
+];
+
+interface MultiClientRateLimitPanelProps {
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  windowMs: number;
+  clock: Clock;
+  onLog: (type: "input" | "output" | "error" | "success" | "warning", content: string) => void;
+  /** Reports every decision, with the limit key as policy name */
+  onDecision?: (decision: RateLimitDecision, policy: string, windowMs: number) => void;
+}
+
+/**
+ * MultiClientRateLimitPanel - Several callers sharing (or not) one limit
+ *
+ * EDUCATIONAL NOTE:
+ * The choice of key decides who gets blocked:
+ * - Per IP: an attacker rotating through a botnet never hits the limit,
+ *   while colleagues behind one NAT exhaust each other's quota
+ * - Per user: brute force against one account is stopped whatever the IP
+ * - Global: the server is protected, but one noisy client blocks everyone
+ * Production systems usually combine several keys (e.g. IP AND user on /login).
+ */
+export const MultiClientRateLimitPanel = ({
+  algorithm,
+  limit,
+  windowMs,
+  clock,
+  onLog,
+  onDecision,
+}: MultiClientRateLimitPanelProps) => {
+  const [strategy, setStrategy] = useState<RateLimitKeyStrategy>("ip");
+  const [rotateIps, setRotateIps] = useState(true);
+  const [attackerIp, setAttackerIp] = useState(SIMULATED_CLIENTS[3].ip);
+  const limiterRef = useRef<KeyedRateLimiter>(createKeyedRateLimiter(algorithm, { limit, windowMs, clock }));
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    limiterRef.current = createKeyedRateLimiter(algorithm, { limit, windowMs, clock });
+    setVersion((v) => v + 1);
+  }, [algorithm, limit, windowMs, clock, strategy]);
+
+  const subjectFor = (client: SimulatedClient): RateLimitSubject =>
+    client.attacker ? { ...client, ip: attackerIp } : client;
+
+  const send = (client: SimulatedClient, count = 1) => {
+    let ip = attackerIp;
+    for (let i = 0; i < count; i++) {
+      if (client.attacker && rotateIps) {
+        // Each request comes from a fresh address in the botnet's range
+        const lastOctet = (Number(ip.split(".")[3]) % 254) + 1;
+        ip = `203.0.113.${lastOctet}`;
+      }
+      const subject = client.attacker ? { ...client, ip } : client;
+      const key = rateLimitKey(strategy, subject);
+      const result = limiterRef.current.consume(key);
+      onDecision?.(result, key, windowMs);
+      const tag = `[${subject.ip} ${subject.userId}]`;
+      if (result.allowed) {
+        onLog(client.attacker ? "warning" : "input", `${tag} ${key} ${result.used}/${limit} accepted`);
+      } else {
+        onLog("error", `${tag} ${key} BLOCKED - retry in ${Math.ceil(result.retryAfterMs / 1000)}s`);
+      }
+    }
+    setAttackerIp(ip);
+    setVersion((v) => v + 1);
+  };
+
+  const changeStrategy = (next: RateLimitKeyStrategy) => {
+    setStrategy(next);
+    const label = RATE_LIMIT_KEY_STRATEGIES.find((s) => s.id === next)?.label;
+    onLog("output", `Limit key switched to ${label} - counters reset`);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={strategy} onValueChange={(v) => changeStrategy(v as RateLimitKeyStrategy)}>
+          <SelectTrigger className="h-9 w-40 font-mono text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RATE_LIMIT_KEY_STRATEGIES.map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          size="sm"
+          variant={rotateIps ? "destructive" : "outline"}
+          onClick={() => setRotateIps((r) => !r)}
+        >
+          <Shuffle className="mr-2 h-4 w-4" />
+          {rotateIps ? "Attacker rotating IPs" : "Attacker fixed IP"}
+        </Button>
+      </div>
+
+      {SIMULATED_CLIENTS.map((client) => {
+        const subject = subjectFor(client);
+        const key = rateLimitKey(strategy, subject);
+        const state = limiterRef.current.peek(key);
+        return (
+          <div
+            key={client.id}
+            className={cn(
+              "space-y-2 rounded-lg border p-3",
+              client.attacker ? "border-threat/30 bg-threat/5" : "border-border/50 bg-muted/20"
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm">
+                {client.attacker ? <Skull className="h-4 w-4 text-threat" /> : <User className="h-4 w-4 text-primary" />}
+                <span className="text-foreground">{client.name}</span>
+                <span className="font-mono text-xs text-muted-foreground">
+                  {subject.ip} · {subject.userId} · {subject.apiKey}
+                </span>
+              </div>
+              <div className="flex gap-1">
+                <Button type="button" size="sm" variant="outline" onClick={() => send(client)}>
+                  Send
+                </Button>
+                <Button type="button" size="sm" variant="outline" onClick={() => send(client, 5)}>
+                  ×5
+                </Button>
+              </div>
+            </div>
+            <ProgressMeter value={state.used} max={limit} label={key} size="sm" />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import { OUTPUT_CONTEXTS, renderInContext, type OutputContext } from "@/lib/encoding";
+import { cn } from "@/lib/utils";
+
+interface OutputEncodingPanelProps {
+  payload: string;
+  context: OutputContext;
+  onContextChange: (context: OutputContext) => void;
+}
+
+/**
+ * OutputEncodingPanel - One payload, six output contexts
+ *
+ * EDUCATIONAL NOTE:
+ * Pick the context the value is written INTO, not the one it came from.
+ * The rows below show how differently the same input must be escaped.
+ */
+export const OutputEncodingPanel = ({ payload, context, onContextChange }: OutputEncodingPanelProps) => {
+  const selected = OUTPUT_CONTEXTS.find((c) => c.id === context);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 bg-muted/20 p-3">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="mr-1 text-xs text-muted-foreground">Contesto di output:</span>
+        {OUTPUT_CONTEXTS.map((c) => (
+          <button
+            key={c.id}
+            type="button"
+            title={c.description}
+            onClick={() => onContextChange(c.id)}
+            className={cn(
+              "rounded px-2 py-0.5 text-xs transition-colors",
+              context === c.id ? "bg-primary/20 text-primary" : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {c.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">{selected?.description}</p>
+      <code className="block break-all rounded bg-muted/30 p-2 font-mono text-xs text-foreground">
+        {renderInContext(context, payload)}
+      </code>
+
+      <div className="space-y-1">
+        {OUTPUT_CONTEXTS.map((c) => (
+          <div
+            key={c.id}
+            className={cn("grid grid-cols-[7rem_1fr] gap-2 text-xs", c.id === context ? "text-primary" : "text-muted-foreground")}
+          >
+            <span>{c.label}</span>
+            <code className="truncate font-mono">{c.encode(payload) || "(empty)"}</code>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
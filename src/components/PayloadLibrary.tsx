@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { Library } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "./ui/command";
+import { DialogTitle } from "./ui/dialog";
+import { PAYLOAD_CATEGORIES, payloadsFor, type PayloadEntry, type PayloadTarget } from "@/lib/payloadLibrary";
+import { cn } from "@/lib/utils";
+
+interface PayloadLibraryProps {
+  target: PayloadTarget;
+  onSelect: (entry: PayloadEntry) => void;
+  size?: "default" | "sm";
+}
+
+/**
+ * PayloadLibrary - Searchable payload palette for any simulator input
+ *
+ * EDUCATIONAL NOTE:
+ * Search by name, payload text, category or CWE id. Each entry says
+ * whether the blacklist is expected to catch it: the ones it misses are
+ * the interesting ones.
+ */
+export const PayloadLibrary = ({ target, onSelect, size = "default" }: PayloadLibraryProps) => {
+  const [open, setOpen] = useState(false);
+  const entries = payloadsFor(target);
+
+  const choose = (entry: PayloadEntry) => {
+    onSelect(entry);
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Button type="button" variant="outline" size={size} onClick={() => setOpen(true)}>
+        <Library className="mr-2 h-4 w-4" />
+        Libreria payload
+      </Button>
+      <CommandDialog open={open} onOpenChange={setOpen}>
+        <DialogTitle className="sr-only">Libreria payload</DialogTitle>
+        <CommandInput placeholder="Cerca per nome, payload, categoria o CWE..." />
+        <CommandList className="max-h-[420px]">
+          <CommandEmpty>Nessun payload trovato.</CommandEmpty>
+          {PAYLOAD_CATEGORIES.map((category) => {
+            const items = entries.filter((e) => e.category === category.id);
+            if (items.length === 0) return null;
+            return (
+              <CommandGroup key={category.id} heading={category.label}>
+                {items.map((entry) => (
+                  <CommandItem
+                    key={entry.id}
+                    value={entry.id}
+                    keywords={[entry.name, entry.payload, entry.cwe, category.label, entry.description]}
+                    onSelect={() => choose(entry)}
+                    className="flex-col items-start gap-1"
+                  >
+                    <div className="flex w-full items-center gap-2">
+                      <span className="font-medium">{entry.name}</span>
+                      <span className="ml-auto rounded border border-border/50 px-1.5 font-mono text-xs text-muted-foreground">
+                        {entry.cwe}
+                      </span>
+                    </div>
+                    <code className="block w-full truncate font-mono text-xs text-primary/80">{entry.payload}</code>
+                    <span className="text-xs text-muted-foreground">{entry.description}</span>
+                    <span
+                      className={cn("text-xs", entry.expectedDetection.length > 0 ? "text-success" : "text-warning")}
+                    >
+                      {entry.expectedDetection.length > 0
+                        ? `Rilevato da: ${entry.expectedDetection.join(", ")}`
+                        : "Non rilevato dalla blacklist"}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            );
+          })}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
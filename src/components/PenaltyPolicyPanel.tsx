@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Ban, Hourglass } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Slider } from "./ui/slider";
+import {
+  formatPenalty,
+  penaltyDurationMs,
+  PENALTY_STRATEGIES,
+  type PenaltyPolicy,
+  type PenaltyStatus,
+  type PenaltyStrategy,
+} from "@/lib/penaltyPolicy";
+import { cn } from "@/lib/utils";
+
+interface PenaltyPolicyPanelProps {
+  policy: PenaltyPolicy;
+  onChange: (policy: PenaltyPolicy) => void;
+  status: PenaltyStatus;
+}
+
+const LADDER_STEPS = 6;
+
+interface PolicySliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onCommit: (value: number) => void;
+}
+
+/** A slider that only reports on release: every change rebuilds the tracker and clears the strikes */
+const PolicySlider = ({ label, value, min, max, step, format, onCommit }: PolicySliderProps) => {
+  const [draft, setDraft] = useState<number | null>(null);
+  const shown = draft ?? value;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">{label}</span>
+        <span className="font-mono text-foreground">{format(shown)}</span>
+      </div>
+      <Slider
+        aria-label={label}
+        min={min}
+        max={max}
+        step={step}
+        value={[shown]}
+        onValueChange={([v]) => setDraft(v)}
+        onValueCommit={([v]) => {
+          setDraft(null);
+          onCommit(v);
+        }}
+      />
+    </div>
+  );
+};
+
+/**
+ * PenaltyPolicyPanel - Escalation ladder and violation history
+ *
+ * EDUCATIONAL NOTE:
+ * Auditors ask two questions about login throttling: "what happens on the
+ * Nth failure?" and "can a locked-out user recover?". The ladder answers the
+ * first, the strike history and forgiveness window answer the second.
+ */
+export const PenaltyPolicyPanel = ({ policy, onChange, status }: PenaltyPolicyPanelProps) => {
+  const info = PENALTY_STRATEGIES.find((s) => s.id === policy.strategy);
+  // A ban after the sixth strike would fall off a fixed-length ladder
+  const ladderSteps = policy.strategy === "ban" ? Math.max(LADDER_STEPS, policy.banAfterStrikes) : LADDER_STEPS;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 bg-muted/20 p-3">
+      <div className="flex items-center gap-2">
+        <span className="shrink-0 text-xs text-muted-foreground">Penalty</span>
+        <Select value={policy.strategy} onValueChange={(v) => onChange({ ...policy, strategy: v as PenaltyStrategy })}>
+          <SelectTrigger className="h-9 font-mono text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PENALTY_STRATEGIES.map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground">{info?.description}</p>
+
+      {policy.strategy !== "none" && (
+        <div className="space-y-3">
+          <PolicySlider
+            label="Base block"
+            value={policy.baseMs / 1000}
+            min={1}
+            max={60}
+            step={1}
+            format={(v) => formatPenalty(v * 1000)}
+            // The cap never drops below the first block
+            onCommit={(v) => onChange({ ...policy, baseMs: v * 1000, maxMs: Math.max(policy.maxMs, v * 1000) })}
+          />
+          {policy.strategy === "capped" && (
+            <PolicySlider
+              label="Max block"
+              value={policy.maxMs / 1000}
+              min={policy.baseMs / 1000}
+              max={600}
+              step={1}
+              format={(v) => formatPenalty(v * 1000)}
+              onCommit={(v) => onChange({ ...policy, maxMs: v * 1000 })}
+            />
+          )}
+          {policy.strategy === "ban" && (
+            <PolicySlider
+              label="Ban after"
+              value={policy.banAfterStrikes}
+              min={2}
+              max={10}
+              step={1}
+              format={(v) => `${v} strikes`}
+              onCommit={(v) => onChange({ ...policy, banAfterStrikes: v })}
+            />
+          )}
+          <PolicySlider
+            label="Forgive after"
+            value={policy.forgiveAfterMs / 60_000}
+            min={1}
+            max={30}
+            step={1}
+            format={(v) => formatPenalty(v * 60_000)}
+            onCommit={(v) => onChange({ ...policy, forgiveAfterMs: v * 60_000 })}
+          />
+        </div>
+      )}
+
+      {/* Escalation ladder: the block each successive strike earns */}
+      <div className="flex flex-wrap gap-1">
+        {Array.from({ length: ladderSteps }, (_, i) => {
+          const strike = i + 1;
+          const duration = penaltyDurationMs(policy, strike);
+          const reached = strike <= status.strikes;
+          return (
+            <span
+              key={strike}
+              className={cn(
+                "rounded border px-2 py-0.5 font-mono text-xs",
+                reached
+                  ? "border-threat/40 bg-threat/20 text-threat"
+                  : "border-border/50 text-muted-foreground"
+              )}
+            >
+              #{strike} {policy.strategy === "none" ? "—" : formatPenalty(duration)}
+            </span>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">
+          Strikes: <span className="font-mono text-foreground">{status.strikes}</span>
+        </span>
+        {status.banned ? (
+          <span className="flex items-center gap-1 font-mono text-threat">
+            <Ban className="h-3 w-3" />
+            Banned permanently
+          </span>
+        ) : status.blocked ? (
+          <span className="flex items-center gap-1 font-mono text-threat">
+            <Hourglass className="h-3 w-3 animate-pulse" />
+            Penalty: {formatPenalty(status.remainingMs)} left
+          </span>
+        ) : (
+          <span className="text-muted-foreground">
+            Strikes forgiven after {formatPenalty(policy.forgiveAfterMs)} of good behaviour
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,43 @@
-import { useState, useEffect, useCallback } from "react";
-import { Gauge, Clock, AlertTriangle } from "lucide-react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Gauge, Clock, AlertTriangle, Ban } from "lucide-react";
 import { SecurityCard } from "./SecurityCard";
+import { PenaltyPolicyPanel } from "./PenaltyPolicyPanel";
 import { ProgressMeter } from "./ProgressMeter";
 import { Terminal } from "./Terminal";
+import { DistributedRateLimitPanel } from "./DistributedRateLimitPanel";
+import { EndpointPolicyPanel } from "./EndpointPolicyPanel";
+import { HttpResponseInspector } from "./HttpResponseInspector";
+import { MultiClientRateLimitPanel } from "./MultiClientRateLimitPanel";
+import { TrafficGeneratorControls } from "./TrafficGeneratorControls";
+import { TrafficTimelineChart } from "./TrafficTimelineChart";
 import { Button } from "./ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  createRateLimiter,
+  RATE_LIMIT_ALGORITHMS,
+  type RateLimitAlgorithm,
+  type RateLimitDecision,
+  type RateLimiter,
+} from "@/lib/rateLimiter";
+import {
+  createPenaltyTracker,
+  DEFAULT_PENALTY_POLICY,
+  formatPenalty,
+  PENALTY_STRATEGIES,
+  type PenaltyPolicy,
+  type PenaltyStatus,
+  type PenaltyTracker,
+  type Violation,
+} from "@/lib/penaltyPolicy";
+import { buildRateLimitResponse, type RateLimitHeaderFormat } from "@/lib/rateLimitHeaders";
+import {
+  createTrafficGenerator,
+  recordTimeline,
+  type TrafficGenerator,
+  type TrafficPattern,
+  type TrafficTimelinePoint,
+} from "@/lib/trafficGenerator";
 
 /**
  * RateLimitingSimulator - Interactive demo of rate limiting
@@ -27,59 +61,249 @@ import { Button } from "./ui/button";
 
 const MAX_REQUESTS = 10;
 const RESET_TIME = 30; // seconds
+const TICK_MS = 250;
+
+type LogType = "input" | "output" | "error" | "success" | "warning";
+type SimulatorMode = "single" | "multi" | "endpoints" | "cluster";
 
 export const RateLimitingSimulator = () => {
-  const [requests, setRequests] = useState(0);
-  const [blocked, setBlocked] = useState(false);
-  const [timeToReset, setTimeToReset] = useState(0);
-  const [logs, setLogs] = useState<Array<{ type: "input" | "output" | "error" | "success" | "warning"; content: string }>>([
+  // Simulated clock: advances TICK_MS * speed every tick, so the generator can fast-forward
+  const simNowRef = useRef(0);
+  const clock = useCallback(() => simNowRef.current, []);
+  // Bumped every tick so the panels' meters follow the simulated clock
+  const [, setNow] = useState(0);
+  const [mode, setMode] = useState<SimulatorMode>("single");
+  const [algorithm, setAlgorithm] = useState<RateLimitAlgorithm>("fixed-window");
+  const limiterRef = useRef<RateLimiter>(
+    createRateLimiter(algorithm, { limit: MAX_REQUESTS, windowMs: RESET_TIME * 1000, clock })
+  );
+  const [snapshot, setSnapshot] = useState<RateLimitDecision>(() => limiterRef.current.peek());
+  const wasBlockedRef = useRef(false);
+
+  const [penaltyPolicy, setPenaltyPolicy] = useState<PenaltyPolicy>(DEFAULT_PENALTY_POLICY);
+  const penaltyRef = useRef<PenaltyTracker>(createPenaltyTracker(penaltyPolicy, clock));
+  const [penalty, setPenalty] = useState<PenaltyStatus>(() => penaltyRef.current.status());
+
+  const [headerFormat, setHeaderFormat] = useState<RateLimitHeaderFormat>("legacy");
+  const [lastDecision, setLastDecision] = useState<{
+    decision: RateLimitDecision;
+    policy: string;
+    windowMs: number;
+    at: number;
+  } | null>(null);
+
+  const [pattern, setPattern] = useState<TrafficPattern>("constant");
+  const [ratePerSecond, setRatePerSecond] = useState(1);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const generatorRef = useRef<TrafficGenerator>(createTrafficGenerator(pattern, { ratePerSecond }));
+  const elapsedRef = useRef(0);
+  const secondTotalsRef = useRef({ second: 0, accepted: 0, rejected: 0 });
+  const [timeline, setTimeline] = useState<TrafficTimelinePoint[]>([]);
+
+  const [logs, setLogs] = useState<Array<{ type: LogType; content: string }>>([
     { type: "output", content: "Rate limiting monitor initialized" },
     { type: "success", content: `Limit: ${MAX_REQUESTS} requests per ${RESET_TIME}s window` },
   ]);
 
-  const addLog = useCallback((type: "input" | "output" | "error" | "success" | "warning", content: string) => {
+  const addLog = useCallback((type: LogType, content: string) => {
     setLogs(prev => [...prev.slice(-8), { type, content }]);
   }, []);
 
+  const recordDecision = useCallback((decision: RateLimitDecision, policy: string, windowMs: number) => {
+    setLastDecision({ decision, policy, windowMs, at: Date.now() });
+  }, []);
+
+  const blocked = !snapshot.allowed || penalty.blocked;
+  const timeToReset = Math.ceil(Math.max(snapshot.retryAfterMs, penalty.remainingMs) / 1000);
+
+  const refreshSnapshot = useCallback(() => {
+    const next = limiterRef.current.peek();
+    const nextPenalty = penaltyRef.current.status();
+    const nowBlocked = !next.allowed || nextPenalty.blocked;
+    if (wasBlockedRef.current && !nowBlocked) {
+      addLog("success", "Rate limit capacity restored. Requests allowed.");
+    }
+    wasBlockedRef.current = nowBlocked;
+    setSnapshot(next);
+    setPenalty(nextPenalty);
+  }, [addLog]);
+
+  /**
+   * One request through the penalty gate and then the limiter.
+   * While a penalty is active the limiter is not even consulted, so
+   * retrying during a block does not earn capacity back.
+   */
+  const attempt = useCallback((): { result: RateLimitDecision; penalized: boolean; violation?: Violation } => {
+    const gate = penaltyRef.current.status();
+    if (gate.blocked) {
+      return {
+        result: { ...limiterRef.current.peek(), allowed: false, retryAfterMs: gate.remainingMs },
+        penalized: true,
+      };
+    }
+    const result = limiterRef.current.consume();
+    const violation = result.allowed ? undefined : penaltyRef.current.recordViolation();
+    return { result, penalized: false, violation };
+  }, []);
+
+  const logViolation = useCallback(
+    (violation: Violation) => {
+      if (violation.durationMs === Infinity) {
+        addLog("error", `Strike ${violation.strike}: client BANNED permanently`);
+      } else if (violation.durationMs > 0) {
+        addLog("error", `Strike ${violation.strike}: blocked for ${formatPenalty(violation.durationMs)}`);
+      }
+    },
+    [addLog]
+  );
+
+  const flushGeneratorSecond = useCallback(
+    (second: number) => {
+      const totals = secondTotalsRef.current;
+      if (totals.second === second) return;
+      if (totals.accepted + totals.rejected > 0) {
+        addLog(
+          totals.rejected > 0 ? "warning" : "input",
+          `t=${totals.second}s generator: ${totals.accepted} accepted, ${totals.rejected} rejected (429)`
+        );
+      }
+      secondTotalsRef.current = { second, accepted: 0, rejected: 0 };
+    },
+    [addLog]
+  );
+
+  // Bucket levels and windows change with time, not only on requests:
+  // the clock keeps ticking and the limiter is re-read on every tick.
   useEffect(() => {
-    if (blocked && timeToReset > 0) {
-      const timer = setInterval(() => {
-        setTimeToReset(prev => {
-          if (prev <= 1) {
-            setBlocked(false);
-            setRequests(0);
-            addLog("success", "Rate limit window reset. Requests allowed.");
-            return 0;
+    const timer = setInterval(() => {
+      const dt = TICK_MS * speed;
+      simNowRef.current += dt;
+      const second = Math.floor(simNowRef.current / 1000);
+
+      if (playing) {
+        flushGeneratorSecond(second);
+        const arrivals = generatorRef.current.next(elapsedRef.current, dt);
+        elapsedRef.current += dt;
+        let accepted = 0;
+        for (let i = 0; i < arrivals; i++) {
+          const { result, violation } = attempt();
+          if (result.allowed) accepted++;
+          if (violation) logViolation(violation);
+          if (i === arrivals - 1) {
+            recordDecision(result, limiterRef.current.algorithm, limiterRef.current.windowMs);
           }
-          return prev - 1;
-        });
-      }, 1000);
-      return () => clearInterval(timer);
+        }
+        const rejected = arrivals - accepted;
+        secondTotalsRef.current.accepted += accepted;
+        secondTotalsRef.current.rejected += rejected;
+        setTimeline((prev) => recordTimeline(prev, second, accepted, rejected));
+      }
+
+      setNow(simNowRef.current);
+      refreshSnapshot();
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [speed, playing, refreshSnapshot, flushGeneratorSecond, attempt, logViolation, recordDecision]);
+
+  const changeAlgorithm = (next: RateLimitAlgorithm) => {
+    const limiter = createRateLimiter(next, { limit: MAX_REQUESTS, windowMs: RESET_TIME * 1000, clock });
+    limiterRef.current = limiter;
+    penaltyRef.current.reset();
+    wasBlockedRef.current = false;
+    setAlgorithm(next);
+    setSnapshot(limiter.peek());
+    setPenalty(penaltyRef.current.status());
+    const info = RATE_LIMIT_ALGORITHMS.find((a) => a.id === next);
+    addLog("output", `Algorithm switched to ${info?.label} - counters reset`);
+  };
+
+  const changePenaltyPolicy = (policy: PenaltyPolicy) => {
+    penaltyRef.current = createPenaltyTracker(policy, clock);
+    setPenaltyPolicy(policy);
+    setPenalty(penaltyRef.current.status());
+    const label = PENALTY_STRATEGIES.find((s) => s.id === policy.strategy)?.label;
+    const settings = [
+      `base ${formatPenalty(policy.baseMs)}`,
+      policy.strategy === "capped" && `max ${formatPenalty(policy.maxMs)}`,
+      policy.strategy === "ban" && `ban after ${policy.banAfterStrikes} strikes`,
+      `forgiven after ${formatPenalty(policy.forgiveAfterMs)}`,
+    ].filter(Boolean);
+    const summary = policy.strategy === "none" ? "" : ` (${settings.join(", ")})`;
+    addLog("output", `Penalty policy: ${label}${summary} - strikes cleared`);
+  };
+
+  const changeMode = (next: SimulatorMode) => {
+    if (next !== "single" && playing) {
+      // The generator drives the single-client limiter only
+      setPlaying(false);
+      flushGeneratorSecond(-1);
+      addLog("output", "Traffic generator paused");
     }
-  }, [blocked, timeToReset, addLog]);
+    setMode(next);
+    const modeLog: Record<SimulatorMode, string> = {
+      single: "Single client mode",
+      multi: "Multi-client mode: one limiter per key",
+      endpoints: "Endpoint mode: first matching route policy applies",
+      cluster: "Cluster mode: round-robin across app nodes",
+    };
+    addLog("output", modeLog[next]);
+  };
 
-  const handleRequest = () => {
-    if (blocked) {
-      addLog("error", `Request BLOCKED - Wait ${timeToReset}s before retry`);
-      return;
+  const changeTraffic = (nextPattern: TrafficPattern, nextRate: number) => {
+    generatorRef.current = createTrafficGenerator(nextPattern, { ratePerSecond: nextRate });
+    elapsedRef.current = 0;
+    setPattern(nextPattern);
+    setRatePerSecond(nextRate);
+  };
+
+  const togglePlay = () => {
+    const next = !playing;
+    setPlaying(next);
+    if (next) {
+      secondTotalsRef.current = { second: Math.floor(simNowRef.current / 1000), accepted: 0, rejected: 0 };
+      addLog("output", `Traffic generator started: ${pattern} @ ${ratePerSecond} req/s (${speed}x)`);
+    } else {
+      flushGeneratorSecond(-1);
+      addLog("output", "Traffic generator paused");
     }
+  };
 
-    const newCount = requests + 1;
-    setRequests(newCount);
+  const handleRequest = () => {
+    const { result, penalized, violation } = attempt();
+    recordDecision(result, limiterRef.current.algorithm, limiterRef.current.windowMs);
+    wasBlockedRef.current = !result.allowed;
+    setSnapshot(limiterRef.current.peek());
+    setPenalty(penaltyRef.current.status());
+    setTimeline((prev) =>
+      recordTimeline(prev, Math.floor(simNowRef.current / 1000), result.allowed ? 1 : 0, result.allowed ? 0 : 1)
+    );
 
-    if (newCount >= MAX_REQUESTS) {
-      setBlocked(true);
-      setTimeToReset(RESET_TIME);
-      addLog("warning", `Rate limit reached: ${newCount}/${MAX_REQUESTS}`);
-      addLog("error", "⚠ BLOCKING subsequent requests for 30s");
-    } else if (newCount >= MAX_REQUESTS * 0.7) {
-      addLog("warning", `Request ${newCount}/${MAX_REQUESTS} - Approaching limit!`);
+    if (penalized) {
+      addLog("error", `Request BLOCKED by penalty - ${formatPenalty(result.retryAfterMs)} left`);
+    } else if (violation) {
+      addLog("error", `Request BLOCKED - Wait ${Math.ceil(result.retryAfterMs / 1000)}s before retry`);
+      logViolation(violation);
+    } else if (result.remaining === 0) {
+      addLog("warning", `Rate limit reached: ${result.used}/${MAX_REQUESTS}`);
+      addLog("error", "⚠ BLOCKING subsequent requests until capacity is restored");
+    } else if (result.used >= MAX_REQUESTS * 0.7) {
+      addLog("warning", `Request ${result.used}/${MAX_REQUESTS} - Approaching limit!`);
     } else {
-      addLog("input", `Request ${newCount}/${MAX_REQUESTS} processed successfully`);
+      addLog("input", `Request ${result.used}/${MAX_REQUESTS} processed successfully`);
     }
   };
 
-  const status = blocked ? "threat" : requests >= MAX_REQUESTS * 0.7 ? "warning" : "protected";
+  const status = blocked ? "threat" : snapshot.used >= MAX_REQUESTS * 0.7 ? "warning" : "protected";
+  const algorithmInfo = RATE_LIMIT_ALGORITHMS.find((a) => a.id === algorithm);
+  const lastResponse = lastDecision
+    ? buildRateLimitResponse(lastDecision.decision, {
+        format: headerFormat,
+        policy: lastDecision.policy,
+        windowMs: lastDecision.windowMs,
+        epochNowMs: lastDecision.at,
+      })
+    : null;
 
   return (
     <SecurityCard
@@ -89,36 +313,120 @@ export const RateLimitingSimulator = () => {
       status={status}
     >
       <div className="space-y-4">
-        <ProgressMeter
-          value={requests}
-          max={MAX_REQUESTS}
-          label="Request Usage"
-        />
+        <div className="space-y-1">
+          <Select value={algorithm} onValueChange={(v) => changeAlgorithm(v as RateLimitAlgorithm)}>
+            <SelectTrigger className="font-mono text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RATE_LIMIT_ALGORITHMS.map((a) => (
+                <SelectItem key={a.id} value={a.id}>
+                  {a.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{algorithmInfo?.description}</p>
+        </div>
+
+        <Tabs value={mode} onValueChange={(v) => changeMode(v as SimulatorMode)}>
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="single">Single client</TabsTrigger>
+            <TabsTrigger value="multi">Multi-client</TabsTrigger>
+            <TabsTrigger value="endpoints">Endpoints</TabsTrigger>
+            <TabsTrigger value="cluster">Cluster</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="single" className="space-y-4">
+            <ProgressMeter
+              value={snapshot.used}
+              max={MAX_REQUESTS}
+              label="Request Usage"
+            />
         
-        <div className="flex items-center gap-4">
-          <Button
-            type="button"
-            onClick={handleRequest}
-            variant={blocked ? "destructive" : "default"}
-            className="glow-button"
-          >
-            {blocked ? (
-              <>
-                <AlertTriangle className="mr-2 h-4 w-4" />
-                Blocked ({timeToReset}s)
-              </>
-            ) : (
-              "Send Request"
-            )}
-          </Button>
+            <div className="flex items-center gap-4">
+              <Button
+                type="button"
+                onClick={handleRequest}
+                variant={blocked ? "destructive" : "default"}
+                className="glow-button"
+              >
+                {penalty.banned ? (
+                  <>
+                    <Ban className="mr-2 h-4 w-4" />
+                    Banned
+                  </>
+                ) : blocked ? (
+                  <>
+                    <AlertTriangle className="mr-2 h-4 w-4" />
+                    Blocked ({timeToReset}s)
+                  </>
+                ) : (
+                  "Send Request"
+                )}
+              </Button>
           
-          {blocked && (
-            <div className="flex items-center gap-2 text-threat">
-              <Clock className="h-4 w-4 animate-pulse" />
-              <span className="font-mono text-sm">Reset in {timeToReset}s</span>
+              {blocked && !penalty.banned && (
+                <div className="flex items-center gap-2 text-threat">
+                  <Clock className="h-4 w-4 animate-pulse" />
+                  <span className="font-mono text-sm">Reset in {timeToReset}s</span>
+                </div>
+              )}
             </div>
-          )}
-        </div>
+
+            <PenaltyPolicyPanel
+              policy={penaltyPolicy}
+              onChange={changePenaltyPolicy}
+              status={penalty}
+            />
+
+            <TrafficGeneratorControls
+              pattern={pattern}
+              onPatternChange={(p) => changeTraffic(p, ratePerSecond)}
+              ratePerSecond={ratePerSecond}
+              onRateChange={(r) => changeTraffic(pattern, r)}
+              playing={playing}
+              onTogglePlay={togglePlay}
+              speed={speed}
+              onSpeedChange={setSpeed}
+            />
+
+            {timeline.length > 0 && <TrafficTimelineChart data={timeline} />}
+          </TabsContent>
+
+          <TabsContent value="multi">
+            <MultiClientRateLimitPanel
+              algorithm={algorithm}
+              limit={MAX_REQUESTS}
+              windowMs={RESET_TIME * 1000}
+              clock={clock}
+              onLog={addLog}
+              onDecision={recordDecision}
+            />
+          </TabsContent>
+
+          <TabsContent value="endpoints">
+            <EndpointPolicyPanel
+              clock={clock}
+              onLog={addLog}
+              onDecision={recordDecision}
+            />
+          </TabsContent>
+
+          <TabsContent value="cluster">
+            <DistributedRateLimitPanel
+              limit={MAX_REQUESTS}
+              windowMs={RESET_TIME * 1000}
+              clock={clock}
+              onLog={addLog}
+            />
+          </TabsContent>
+        </Tabs>
+
+        {/* Cluster nodes only report allow/deny, so there is no response of theirs to show */}
+        {mode !== "cluster" && (
+          <HttpResponseInspector response={lastResponse} format={headerFormat} onFormatChange={setHeaderFormat} />
+        )}
 
         <Terminal
           lines={logs}
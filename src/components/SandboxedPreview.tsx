@@ -0,0 +1,79 @@
+import { useEffect, useRef } from "react";
+import { ShieldCheck, ShieldOff } from "lucide-react";
+import {
+  buildPreviewDocument,
+  parsePreviewEvent,
+  PREVIEW_CSP,
+  PREVIEW_SANDBOX,
+  type PreviewEvent,
+} from "@/lib/sandboxPreview";
+
+interface SandboxedPreviewProps {
+  /** Markup with the untouched input */
+  raw: string;
+  /** Markup with the sanitized/encoded input */
+  sanitized: string;
+  onEvent: (event: PreviewEvent) => void;
+}
+
+/**
+ * SandboxedPreview - Raw vs sanitized input, actually rendered
+ *
+ * EDUCATIONAL NOTE:
+ * Both panes are opaque-origin iframes with a CSP that forbids all network
+ * access, so a payload can fire but cannot reach anything. Events are only
+ * accepted from our own two frames (event.source), never from other windows.
+ */
+export const SandboxedPreview = ({ raw, sanitized, onEvent }: SandboxedPreviewProps) => {
+  const rawRef = useRef<HTMLIFrameElement>(null);
+  const sanitizedRef = useRef<HTMLIFrameElement>(null);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    const handleMessage = (e: MessageEvent) => {
+      const fromFrame = e.source === rawRef.current?.contentWindow || e.source === sanitizedRef.current?.contentWindow;
+      if (!fromFrame) return;
+      const event = parsePreviewEvent(e.data);
+      if (event) onEventRef.current(event);
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="space-y-1">
+          <div className="flex items-center gap-1 text-xs text-threat">
+            <ShieldOff className="h-3 w-3" />
+            Input originale
+          </div>
+          <iframe
+            ref={rawRef}
+            title="Raw input preview"
+            sandbox={PREVIEW_SANDBOX}
+            srcDoc={buildPreviewDocument(raw, "raw")}
+            className="h-24 w-full rounded-lg border border-threat/30 bg-threat/5"
+          />
+        </div>
+        <div className="space-y-1">
+          <div className="flex items-center gap-1 text-xs text-success">
+            <ShieldCheck className="h-3 w-3" />
+            Output sanitizzato
+          </div>
+          <iframe
+            ref={sanitizedRef}
+            title="Sanitized output preview"
+            sandbox={PREVIEW_SANDBOX}
+            srcDoc={buildPreviewDocument(sanitized, "sanitized")}
+            className="h-24 w-full rounded-lg border border-success/30 bg-success/5"
+          />
+        </div>
+      </div>
+      <code className="block break-all font-mono text-xs text-muted-foreground">
+        sandbox="{PREVIEW_SANDBOX}" · CSP: {PREVIEW_CSP}
+      </code>
+    </div>
+  );
+};
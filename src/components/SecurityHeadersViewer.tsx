@@ -1,6 +1,14 @@
 import { useState } from "react";
 import { Globe, CheckCircle, XCircle, Info } from "lucide-react";
+import { CspEnforcementPanel } from "./CspEnforcementPanel";
+import { CspEvaluatorPanel } from "./CspEvaluatorPanel";
+import { HeaderAttackDemo } from "./HeaderAttackDemo";
+import { HeaderAuditPanel } from "./HeaderAuditPanel";
+import { HeaderConfigExport } from "./HeaderConfigExport";
 import { SecurityCard } from "./SecurityCard";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { CSP_PRESETS, evaluateCsp } from "@/lib/csp";
+import { SECURITY_HEADERS, type SecurityHeader } from "@/lib/headerAudit";
 import { cn } from "@/lib/utils";
 
 /**
@@ -22,76 +30,25 @@ import { cn } from "@/lib/utils";
  * - Regular header auditing tools (securityheaders.com)
  */
 
-interface SecurityHeader {
-  name: string;
-  value: string;
-  enabled: boolean;
-  description: string;
-  risk: string;
-}
-
-const SECURITY_HEADERS: SecurityHeader[] = [
-  {
-    name: "Content-Security-Policy",
-    value: "default-src 'self'; script-src 'self'; style-src 'self' 'unsafe-inline'",
-    enabled: true,
-    description: "Controlla quali risorse il browser può caricare, prevenendo XSS",
-    risk: "Senza CSP, script malevoli possono essere iniettati ed eseguiti",
-  },
-  {
-    name: "X-Frame-Options",
-    value: "DENY",
-    enabled: true,
-    description: "Previene il clickjacking bloccando l'embedding in iframe",
-    risk: "Attaccanti potrebbero ingannare utenti con UI overlay invisibili",
-  },
-  {
-    name: "X-Content-Type-Options",
-    value: "nosniff",
-    enabled: true,
-    description: "Impedisce al browser di interpretare file con MIME type errato",
-    risk: "File potrebbero essere eseguiti come script invece che scaricati",
-  },
-  {
-    name: "Strict-Transport-Security",
-    value: "max-age=31536000; includeSubDomains; preload",
-    enabled: true,
-    description: "Forza connessioni HTTPS, previene downgrade attacks",
-    risk: "Traffico potrebbe essere intercettato su connessioni HTTP",
-  },
-  {
-    name: "X-XSS-Protection",
-    value: "1; mode=block",
-    enabled: true,
-    description: "Attiva filtri XSS built-in del browser (legacy)",
-    risk: "Browser più vecchi sarebbero vulnerabili a XSS riflessi",
-  },
-  {
-    name: "Referrer-Policy",
-    value: "strict-origin-when-cross-origin",
-    enabled: true,
-    description: "Controlla quali info referrer vengono inviate",
-    risk: "URL sensibili potrebbero essere esposti a terze parti",
-  },
-  {
-    name: "Permissions-Policy",
-    value: "geolocation=(), microphone=(), camera=()",
-    enabled: true,
-    description: "Limita accesso a API browser sensibili",
-    risk: "Script malevoli potrebbero accedere a camera/microfono",
-  },
-];
-
 export const SecurityHeadersViewer = () => {
   const [headers, setHeaders] = useState(SECURITY_HEADERS);
   const [selectedHeader, setSelectedHeader] = useState<SecurityHeader | null>(null);
+  const [cspPolicy, setCspPolicy] = useState(CSP_PRESETS[0].policy);
+  const [demoHeader, setDemoHeader] = useState("X-Frame-Options");
+  const cspGrade = evaluateCsp(cspPolicy).grade;
+  const cspEnabled = headers.some((h) => h.name === "Content-Security-Policy" && h.enabled);
 
   const toggleHeader = (index: number) => {
     setHeaders(prev => prev.map((h, i) => 
       i === index ? { ...h, enabled: !h.enabled } : h
     ));
+    setDemoHeader(headers[index].name);
   };
 
+  const headerValue = (header: SecurityHeader) =>
+    header.name === "Content-Security-Policy" ? cspPolicy : header.value;
+  const demoIndex = headers.findIndex((h) => h.name === demoHeader);
+
   const enabledCount = headers.filter(h => h.enabled).length;
   const status = enabledCount === headers.length 
     ? "protected" 
@@ -107,67 +64,111 @@ export const SecurityHeadersViewer = () => {
       status={status}
     >
       <div className="space-y-4">
-        {/* Stats */}
-        <div className="flex items-center gap-4 text-sm">
-          <span className="text-muted-foreground">
-            Headers attivi: <span className="text-foreground font-semibold">{enabledCount}/{headers.length}</span>
-          </span>
-          <span className="text-xs text-muted-foreground">
-            (Clicca per toggle)
-          </span>
-        </div>
+        <Tabs defaultValue="headers">
+          <TabsList className="grid w-full grid-cols-5">
+            <TabsTrigger value="headers">Header</TabsTrigger>
+            <TabsTrigger value="csp">Analisi CSP</TabsTrigger>
+            <TabsTrigger value="enforcement">Simulazione</TabsTrigger>
+            <TabsTrigger value="audit">Audit</TabsTrigger>
+            <TabsTrigger value="config">Config</TabsTrigger>
+          </TabsList>
 
-        {/* Headers List */}
-        <div className="space-y-2">
-          {headers.map((header, index) => (
-            <div
-              key={header.name}
-              className={cn(
-                "rounded-lg border p-3 cursor-pointer transition-all duration-300",
-                header.enabled 
-                  ? "border-success/30 bg-success/5 hover:bg-success/10" 
-                  : "border-threat/30 bg-threat/5 hover:bg-threat/10"
-              )}
-              onClick={() => toggleHeader(index)}
-              onMouseEnter={() => setSelectedHeader(header)}
-              onMouseLeave={() => setSelectedHeader(null)}
-            >
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  {header.enabled ? (
-                    <CheckCircle className="h-4 w-4 text-success" />
-                  ) : (
-                    <XCircle className="h-4 w-4 text-threat" />
+          <TabsContent value="headers" className="space-y-4">
+            {/* Stats */}
+            <div className="flex items-center gap-4 text-sm">
+              <span className="text-muted-foreground">
+                Headers attivi: <span className="text-foreground font-semibold">{enabledCount}/{headers.length}</span>
+              </span>
+              <span className="text-xs text-muted-foreground">
+                (Clicca per toggle e demo dell'attacco)
+              </span>
+            </div>
+
+            {/* Headers List */}
+            <div className="space-y-2">
+              {headers.map((header, index) => (
+                <div
+                  key={header.name}
+                  className={cn(
+                    "rounded-lg border p-3 cursor-pointer transition-all duration-300",
+                    header.enabled 
+                      ? "border-success/30 bg-success/5 hover:bg-success/10" 
+                      : "border-threat/30 bg-threat/5 hover:bg-threat/10"
                   )}
-                  <span className="font-mono text-sm text-foreground">{header.name}</span>
+                  onClick={() => toggleHeader(index)}
+                  onMouseEnter={() => setSelectedHeader(header)}
+                  onMouseLeave={() => setSelectedHeader(null)}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      {header.enabled ? (
+                        <CheckCircle className="h-4 w-4 text-success" />
+                      ) : (
+                        <XCircle className="h-4 w-4 text-threat" />
+                      )}
+                      <span className="font-mono text-sm text-foreground">{header.name}</span>
+                      {header.name === "Content-Security-Policy" && header.enabled && (
+                        <span className="rounded border border-border/50 px-1.5 text-xs text-muted-foreground">
+                          voto {cspGrade}
+                        </span>
+                      )}
+                    </div>
+                    <Info className="h-4 w-4 text-muted-foreground" />
+                  </div>
+                  <code className={cn(
+                    "text-xs font-mono mt-1 block truncate",
+                    header.enabled ? "text-success/70" : "text-threat/70 line-through"
+                  )}>
+                    {headerValue(header)}
+                  </code>
                 </div>
-                <Info className="h-4 w-4 text-muted-foreground" />
-              </div>
-              <code className={cn(
-                "text-xs font-mono mt-1 block truncate",
-                header.enabled ? "text-success/70" : "text-threat/70 line-through"
-              )}>
-                {header.value}
-              </code>
+              ))}
             </div>
-          ))}
-        </div>
 
-        {/* Info Panel */}
-        {selectedHeader && (
-          <div className="rounded-lg border border-primary/30 bg-primary/5 p-3 animate-fade-in">
-            <h4 className="font-semibold text-sm text-primary mb-2">{selectedHeader.name}</h4>
-            <p className="text-xs text-muted-foreground mb-2">{selectedHeader.description}</p>
-            <p className="text-xs text-threat/80">
-              <strong>⚠ Rischio se disabilitato:</strong> {selectedHeader.risk}
-            </p>
-          </div>
-        )}
+            {/* Info Panel */}
+            {selectedHeader && (
+              <div className="rounded-lg border border-primary/30 bg-primary/5 p-3 animate-fade-in">
+                <h4 className="font-semibold text-sm text-primary mb-2">{selectedHeader.name}</h4>
+                <p className="text-xs text-muted-foreground mb-2">{selectedHeader.description}</p>
+                <p className="text-xs text-threat/80">
+                  <strong>⚠ Rischio se disabilitato:</strong> {selectedHeader.risk}
+                </p>
+              </div>
+            )}
+
+            <HeaderAttackDemo
+              header={demoHeader}
+              enabled={headers[demoIndex].enabled}
+              value={headerValue(headers[demoIndex])}
+              onToggle={() => toggleHeader(demoIndex)}
+            />
+          </TabsContent>
+
+          <TabsContent value="csp">
+            <CspEvaluatorPanel policy={cspPolicy} onChange={setCspPolicy} />
+          </TabsContent>
+
+          <TabsContent value="enforcement">
+            <CspEnforcementPanel policy={cspPolicy} enabled={cspEnabled} />
+          </TabsContent>
+
+          <TabsContent value="audit">
+            <HeaderAuditPanel />
+          </TabsContent>
+
+          <TabsContent value="config">
+            <HeaderConfigExport
+              headers={headers.filter((h) => h.enabled).map((h) => ({ name: h.name, value: headerValue(h) }))}
+            />
+          </TabsContent>
+        </Tabs>
 
         <div className="rounded-lg border border-border/50 bg-muted/20 p-3 text-xs text-muted-foreground">
           <strong className="text-foreground">💡 In produzione:</strong> Gli header vengono 
-          configurati nel server web (nginx, Apache) o tramite middleware (helmet.js). 
-          Usa securityheaders.com per verificare la configurazione del tuo sito.
+          configurati nel server web (nginx, Apache) o tramite middleware (helmet.js): la scheda Config
+          genera lo snippet per gli header attivi. 
+          Usa securityheaders.com per verificare la configurazione del tuo sito. Per la CSP
+          parti in modalità Content-Security-Policy-Report-Only e stringi la policy leggendo i report.
         </div>
       </div>
     </SecurityCard>
@@ -0,0 +1,254 @@
+import { useEffect, useRef, useState } from "react";
+import { Database as DatabaseIcon, LogIn, RefreshCw } from "lucide-react";
+import type { Database } from "sql.js";
+import { PayloadLibrary } from "./PayloadLibrary";
+import { SecurityCard } from "./SecurityCard";
+import { Terminal } from "./Terminal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  attemptLogin,
+  createUsersDatabase,
+  loadSqlEngine,
+  QUERY_MODES,
+  SQLI_PAYLOADS,
+  usersTableExists,
+  type LoginAttempt,
+  type QueryMode,
+} from "@/lib/sqlInjection";
+import { cn } from "@/lib/utils";
+
+/**
+ * SqlInjectionSimulator - Login form backed by a real in-memory SQLite database
+ *
+ * EDUCATIONAL NOTE:
+ * SQL injection is not a "bad character" problem: it happens whenever user
+ * input becomes part of the query TEXT. Here the same payload goes to a
+ * real SQL engine twice. Concatenated, it rewrites the WHERE clause, dumps
+ * the table or drops it; bound as a parameter, it is just an odd username.
+ *
+ * REAL IMPLEMENTATION would include:
+ * - Parameterized queries / prepared statements everywhere (or an ORM using them)
+ * - A database user with least privilege (no DROP, no access to other tables)
+ * - Password hashes (bcrypt/argon2), never plaintext columns
+ * - Generic error messages: SQL errors help the attacker map the schema
+ */
+export const SqlInjectionSimulator = () => {
+  const dbRef = useRef<Database | null>(null);
+  const [ready, setReady] = useState(false);
+  const [tableExists, setTableExists] = useState(true);
+  const [mode, setMode] = useState<QueryMode>("concatenation");
+  const [username, setUsername] = useState(SQLI_PAYLOADS[1].username);
+  const [password, setPassword] = useState(SQLI_PAYLOADS[1].password);
+  const [attempt, setAttempt] = useState<LoginAttempt | null>(null);
+  const [logs, setLogs] = useState<Array<{ type: "input" | "output" | "error" | "success" | "warning"; content: string }>>([
+    { type: "output", content: "Loading SQLite (WebAssembly)..." },
+  ]);
+
+  const addLog = (type: "input" | "output" | "error" | "success" | "warning", content: string) => {
+    setLogs((prev) => [...prev.slice(-7), { type, content }]);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSqlEngine()
+      .then((SQL) => {
+        if (cancelled) return;
+        dbRef.current = createUsersDatabase(SQL);
+        setReady(true);
+        addLog("success", "In-memory database ready: users (4 rows)");
+      })
+      .catch((e) => {
+        if (!cancelled) addLog("error", `SQL engine failed to load: ${e instanceof Error ? e.message : e}`);
+      });
+    return () => {
+      cancelled = true;
+      dbRef.current?.close();
+      dbRef.current = null;
+    };
+  }, []);
+
+  const submitLogin = () => {
+    const db = dbRef.current;
+    if (!db) return;
+    const result = attemptLogin(db, mode, username, password);
+    setAttempt(result);
+    setTableExists(usersTableExists(db));
+
+    addLog("input", `Login (${mode}): ${username.substring(0, 40)}`);
+    addLog("output", result.query);
+    if (result.error) {
+      addLog("error", `SQL error: ${result.error}`);
+    } else if (result.leakedRows > 0) {
+      addLog("error", `⚠ INJECTION: ${result.rows.length} rows returned, ${result.leakedRows} leaked`);
+    } else if (result.authenticated) {
+      addLog("success", `✓ Authenticated as ${result.rows[0][1]}`);
+    } else {
+      addLog("warning", "Invalid credentials - no rows returned");
+    }
+    if (!usersTableExists(db)) addLog("error", "⚠ Table users no longer exists: stacked query executed");
+  };
+
+  const resetDatabase = async () => {
+    const SQL = await loadSqlEngine();
+    dbRef.current?.close();
+    dbRef.current = createUsersDatabase(SQL);
+    setTableExists(true);
+    setAttempt(null);
+    addLog("success", "Database reset to the sample users");
+  };
+
+  const loadPayload = (index: number) => {
+    setUsername(SQLI_PAYLOADS[index].username);
+    setPassword(SQLI_PAYLOADS[index].password);
+  };
+
+  const status = !tableExists || (attempt?.leakedRows ?? 0) > 0 ? "threat" : mode === "concatenation" ? "warning" : "protected";
+
+  return (
+    <SecurityCard
+      title="SQL Injection"
+      description="Concatenated vs parameterized queries against a real SQLite engine"
+      icon={<DatabaseIcon className="h-6 w-6" />}
+      status={status}
+    >
+      <div className="space-y-4">
+        {/* Mode */}
+        <div className="space-y-1">
+          <div className="flex flex-wrap gap-1">
+            {QUERY_MODES.map((m) => (
+              <button
+                key={m.id}
+                type="button"
+                onClick={() => setMode(m.id)}
+                className={cn(
+                  "rounded px-2 py-0.5 text-xs transition-colors",
+                  mode === m.id ? "bg-primary/20 text-primary" : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">{QUERY_MODES.find((m) => m.id === mode)?.description}</p>
+        </div>
+
+        {/* Login form */}
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitLogin();
+          }}
+        >
+          <Input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            className="bg-muted/30 font-mono text-sm"
+          />
+          <Input
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            className="bg-muted/30 font-mono text-sm"
+          />
+          <div className="flex flex-wrap gap-1">
+            {SQLI_PAYLOADS.map((p, i) => (
+              <button
+                key={p.label}
+                type="button"
+                onClick={() => loadPayload(i)}
+                className="rounded border border-border/50 px-2 py-0.5 text-xs text-muted-foreground transition-colors hover:text-foreground"
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button type="submit" disabled={!ready} className="glow-button">
+              <LogIn className="mr-2 h-4 w-4" />
+              Accedi
+            </Button>
+            <Button type="button" variant="outline" onClick={resetDatabase} disabled={!ready}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Ripristina database
+            </Button>
+            <PayloadLibrary target="sql" onSelect={(entry) => setUsername(entry.payload)} />
+          </div>
+        </form>
+
+        {attempt && (
+          <div className="space-y-3">
+            <div className="rounded-lg border border-border/50 bg-muted/20 p-3">
+              <span className="mb-1 block text-xs font-semibold text-foreground">Query eseguita</span>
+              <code className="block break-all font-mono text-xs text-primary/80">{attempt.query}</code>
+              {attempt.params.length > 0 && (
+                <code className="mt-1 block break-all font-mono text-xs text-success/80">
+                  parametri: {JSON.stringify(attempt.params)}
+                </code>
+              )}
+            </div>
+
+            {attempt.error ? (
+              <p className="rounded border border-threat/30 bg-threat/10 px-2 py-1 font-mono text-xs text-threat">
+                {attempt.error}
+              </p>
+            ) : attempt.rows.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Nessuna riga restituita: accesso negato.</p>
+            ) : (
+              <div className="overflow-x-auto rounded-lg border border-border/50">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-border/50 bg-muted/30 text-muted-foreground">
+                      {attempt.columns.map((c) => (
+                        <th key={c} className="p-2 text-left font-medium">
+                          {c}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {attempt.rows.map((row, i) => (
+                      <tr
+                        key={i}
+                        className={cn(
+                          "border-b border-border/30 font-mono last:border-0",
+                          // A correct login returns exactly one row: everything past it leaked
+                          attempt.leakedRows > 0 && i >= attempt.rows.length - attempt.leakedRows
+                            ? "bg-threat/10 text-threat"
+                            : "text-foreground"
+                        )}
+                      >
+                        {row.map((value, j) => (
+                          <td key={j} className="p-2">
+                            {String(value)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {!tableExists && (
+          <p className="rounded border border-threat/30 bg-threat/10 px-2 py-1 text-xs text-threat">
+            La tabella users è stata eliminata da una query in coda (stacked query). Ripristina il database.
+          </p>
+        )}
+
+        <Terminal lines={logs} title="SQLite" autoPlay={false} />
+
+        <div className="rounded-lg border border-border/50 bg-muted/20 p-3 text-xs text-muted-foreground">
+          <strong className="text-foreground">💡 In produzione:</strong> Usa sempre query parametrizzate
+          (prepared statements), anche per i valori "fidati". L'escaping manuale delle virgolette non basta:
+          cambia con il driver, il charset e il contesto (LIKE, ORDER BY, nomi di colonna). Il database
+          deve usare un utente con i soli privilegi necessari e le password vanno salvate come hash.
+        </div>
+      </div>
+    </SecurityCard>
+  );
+};
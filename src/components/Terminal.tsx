@@ -44,6 +44,9 @@ export const Terminal = ({
     return () => clearTimeout(timer);
   }, [visibleLines, lines, autoPlay]);
 
+  // Without autoPlay the terminal is a live log: always show every line it receives
+  const shownLines = autoPlay ? lines.slice(0, visibleLines) : lines;
+
   const lineStyles = {
     input: "text-primary",
     output: "text-muted-foreground",
@@ -71,7 +74,7 @@ export const Terminal = ({
         <span className="font-mono text-xs text-muted-foreground">{title}</span>
       </div>
       <div className="p-4 font-mono text-sm space-y-1 min-h-[120px]">
-        {lines.slice(0, visibleLines).map((line, index) => (
+        {shownLines.map((line, index) => (
           <div
             key={index}
             className={cn(
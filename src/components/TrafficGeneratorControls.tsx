@@ -0,0 +1,100 @@
+import { Pause, Play } from "lucide-react";
+import { Button } from "./ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Slider } from "./ui/slider";
+import { TRAFFIC_PATTERNS, type TrafficPattern } from "@/lib/trafficGenerator";
+import { cn } from "@/lib/utils";
+
+const SIMULATION_SPEEDS = [1, 2, 5, 10] as const;
+
+interface TrafficGeneratorControlsProps {
+  pattern: TrafficPattern;
+  onPatternChange: (pattern: TrafficPattern) => void;
+  ratePerSecond: number;
+  onRateChange: (rate: number) => void;
+  playing: boolean;
+  onTogglePlay: () => void;
+  speed: number;
+  onSpeedChange: (speed: number) => void;
+}
+
+/**
+ * TrafficGeneratorControls - Play/pause, pattern, rate and speed for synthetic traffic
+ *
+ * EDUCATIONAL NOTE:
+ * Load testing tools (k6, JMeter, Locust) expose the same knobs:
+ * arrival pattern, target rate and duration. Speeding up the clock lets
+ * a 30 second window play out in a few seconds of demo time.
+ */
+export const TrafficGeneratorControls = ({
+  pattern,
+  onPatternChange,
+  ratePerSecond,
+  onRateChange,
+  playing,
+  onTogglePlay,
+  speed,
+  onSpeedChange,
+}: TrafficGeneratorControlsProps) => {
+  const patternInfo = TRAFFIC_PATTERNS.find((p) => p.id === pattern);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 bg-muted/20 p-3">
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={playing ? "destructive" : "outline"}
+          onClick={onTogglePlay}
+        >
+          {playing ? <Pause className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+          {playing ? "Pause" : "Play"}
+        </Button>
+        <Select value={pattern} onValueChange={(v) => onPatternChange(v as TrafficPattern)}>
+          <SelectTrigger className="h-9 font-mono text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRAFFIC_PATTERNS.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground">{patternInfo?.description}</p>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">Rate</span>
+          <span className="font-mono text-foreground">{ratePerSecond} req/s</span>
+        </div>
+        <Slider
+          min={0.5}
+          max={10}
+          step={0.5}
+          value={[ratePerSecond]}
+          onValueChange={([v]) => onRateChange(v)}
+        />
+      </div>
+
+      <div className="flex items-center gap-2 text-xs">
+        <span className="text-muted-foreground">Speed</span>
+        {SIMULATION_SPEEDS.map((s) => (
+          <button
+            key={s}
+            type="button"
+            onClick={() => onSpeedChange(s)}
+            className={cn(
+              "rounded px-2 py-0.5 font-mono transition-colors",
+              speed === s ? "bg-primary/20 text-primary" : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {s}x
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "./ui/chart";
+import type { TrafficTimelinePoint } from "@/lib/trafficGenerator";
+
+interface TrafficTimelineChartProps {
+  data: TrafficTimelinePoint[];
+}
+
+const chartConfig = {
+  accepted: { label: "Accepted", color: "hsl(var(--success))" },
+  rejected: { label: "Rejected (429)", color: "hsl(var(--threat))" },
+} satisfies ChartConfig;
+
+/**
+ * TrafficTimelineChart - Accepted vs rejected requests per second
+ *
+ * EDUCATIONAL NOTE:
+ * The same chart exists in every API gateway dashboard. A flat green
+ * band with a red cap on top is a limiter doing its job: legitimate
+ * throughput is preserved while the excess of a flood is shed.
+ */
+export const TrafficTimelineChart = ({ data }: TrafficTimelineChartProps) => {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[180px] w-full">
+      <BarChart data={data} margin={{ left: -20, right: 4, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="second" tickLine={false} axisLine={false} tickFormatter={(s) => `${s}s`} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, p) => `t = ${p[0]?.payload.second}s`} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="accepted" stackId="requests" fill="var(--color-accepted)" isAnimationActive={false} />
+        <Bar dataKey="rejected" stackId="requests" fill="var(--color-rejected)" isAnimationActive={false} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,44 @@
+import { CheckCircle, XCircle } from "lucide-react";
+import { runWrongEncoderDemo, WRONG_ENCODER_DEMOS } from "@/lib/encoding";
+import { cn } from "@/lib/utils";
+
+/**
+ * WrongEncoderDemo - Encoded, and still exploitable
+ *
+ * EDUCATIONAL NOTE:
+ * Each case renders the payload with a real encoder that is simply the
+ * wrong one for the context, parses the result with DOMParser and checks
+ * whether the payload escaped. The right encoder is shown alongside.
+ */
+export const WrongEncoderDemo = () => (
+  <div className="space-y-2">
+    {WRONG_ENCODER_DEMOS.map((demo) => {
+      const result = runWrongEncoderDemo(demo);
+      return (
+        <div key={demo.id} className="space-y-2 rounded-lg border border-border/50 bg-muted/20 p-3 text-xs">
+          <div className="font-semibold text-foreground">{demo.title}</div>
+          <p className="text-muted-foreground">{demo.explanation}</p>
+          <code className="block font-mono text-muted-foreground">payload: {demo.payload}</code>
+          {[
+            { label: demo.wrong.label, ...result.wrong },
+            { label: demo.right.label, ...result.right },
+          ].map((row) => (
+            <div
+              key={row.label}
+              className={cn(
+                "space-y-1 rounded border p-2",
+                row.exploited ? "border-threat/30 bg-threat/10" : "border-success/30 bg-success/5"
+              )}
+            >
+              <div className={cn("flex items-center gap-1", row.exploited ? "text-threat" : "text-success")}>
+                {row.exploited ? <XCircle className="h-3 w-3" /> : <CheckCircle className="h-3 w-3" />}
+                {row.label}: {row.exploited ? "payload eseguibile" : "payload neutralizzato"}
+              </div>
+              <code className="block break-all font-mono text-muted-foreground">{row.markup}</code>
+            </div>
+          ))}
+        </div>
+      );
+    })}
+  </div>
+);
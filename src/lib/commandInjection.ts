@@ -0,0 +1,110 @@
+import { execArgv, resolvePath, runShell, type ShellRun, type VirtualFs } from "@/lib/virtualShell";
+
+/**
+ * Command injection and path traversal against fake "ping" and "download" endpoints
+ *
+ * EDUCATIONAL NOTE:
+ * The two bugs are related but need different fixes:
+ * - Command injection: the input reaches a SHELL. Passing an argument array
+ *   (execFile/spawn) removes the shell, so ";" or "$()" are just characters.
+ * - Path traversal: the input reaches the FILESYSTEM. An argument array does
+ *   not help: "../../../etc/passwd" is a perfectly valid single argument.
+ *   The path must be canonicalised first and checked against a root
+ *   directory (a "jail"), rejecting anything that resolves outside it.
+ */
+
+export type ShellMode = "concatenation" | "argv" | "jail";
+
+export type EndpointId = "ping" | "download";
+
+export const SHELL_MODES: Array<{ id: ShellMode; label: string; description: string }> = [
+  {
+    id: "concatenation",
+    label: "Concatenazione",
+    description: 'exec("ping -c 1 " + host): la stringa è interpretata da /bin/sh',
+  },
+  {
+    id: "argv",
+    label: "Array di argomenti",
+    description: 'execFile("ping", ["-c", "1", host]): nessuna shell, ma il percorso non è controllato',
+  },
+  {
+    id: "jail",
+    label: "Argomenti + root jail",
+    description: "Nessuna shell, host validato, percorso canonicalizzato e confinato in /var/www/downloads",
+  },
+];
+
+export const DOWNLOAD_ROOT = "/var/www/downloads";
+
+const HOSTNAME = /^[a-zA-Z0-9]([a-zA-Z0-9.-]{0,251}[a-zA-Z0-9])?$/;
+
+export const ENDPOINTS: Array<{ id: EndpointId; label: string; route: string; param: string; placeholder: string }> = [
+  { id: "ping", label: "Ping host", route: "GET /ping?host=", param: "host", placeholder: "8.8.8.8" },
+  { id: "download", label: "Scarica file", route: "GET /download?file=", param: "file", placeholder: "report.txt" },
+];
+
+export const SHELL_PAYLOADS: Array<{ label: string; endpoint: EndpointId; value: string }> = [
+  { label: "Host legittimo", endpoint: "ping", value: "8.8.8.8" },
+  { label: "; cat /etc/passwd", endpoint: "ping", value: "8.8.8.8; cat /etc/passwd" },
+  { label: "&& rm -r downloads", endpoint: "ping", value: "8.8.8.8 && rm -r /var/www/downloads" },
+  { label: "$(cat .env)", endpoint: "ping", value: "$(cat /home/app/.env | head -n 1)" },
+  { label: "> defacement", endpoint: "ping", value: "8.8.8.8; echo '<h1>hacked</h1>' > /var/www/html/index.html" },
+  { label: "File legittimo", endpoint: "download", value: "report.txt" },
+  { label: "../../../etc/passwd", endpoint: "download", value: "../../../etc/passwd" },
+  { label: "../../../home/app/.env", endpoint: "download", value: "../../../home/app/.env" },
+  { label: "; rm -rf /var/www", endpoint: "download", value: "report.txt; rm -rf /var/www #" },
+];
+
+export interface EndpointCall {
+  endpoint: EndpointId;
+  mode: ShellMode;
+  /** What the server actually runs: a shell string or a JSON argument array */
+  invocation: string;
+  /** Set when the endpoint refuses the input before running anything */
+  blocked?: string;
+  run?: ShellRun;
+}
+
+export function callEndpoint(fs: VirtualFs, endpoint: EndpointId, mode: ShellMode, value: string): EndpointCall {
+  const base = { endpoint, mode };
+
+  if (endpoint === "ping") {
+    if (mode === "concatenation") {
+      const command = `ping -c 1 ${value}`;
+      return { ...base, invocation: command, run: runShell(fs, command) };
+    }
+    const argv = ["ping", "-c", "1", value];
+    if (mode === "jail" && !HOSTNAME.test(value)) {
+      return { ...base, invocation: JSON.stringify(argv), blocked: `Host non valido: "${value}"` };
+    }
+    return { ...base, invocation: JSON.stringify(argv), run: execArgv(fs, argv) };
+  }
+
+  if (mode === "concatenation") {
+    const command = `cat ${DOWNLOAD_ROOT}/${value}`;
+    return { ...base, invocation: command, run: runShell(fs, command) };
+  }
+  if (mode === "argv") {
+    const argv = ["cat", `${DOWNLOAD_ROOT}/${value}`];
+    return { ...base, invocation: JSON.stringify(argv), run: execArgv(fs, argv) };
+  }
+  // Canonicalise first, then check: checking the raw string for "../" misses encodings and absolute paths
+  const canonical = resolvePath(DOWNLOAD_ROOT, value);
+  const argv = ["cat", canonical];
+  if (!canonical.startsWith(DOWNLOAD_ROOT + "/")) {
+    return { ...base, invocation: JSON.stringify(argv), blocked: `${canonical} è fuori da ${DOWNLOAD_ROOT}` };
+  }
+  return { ...base, invocation: JSON.stringify(argv), run: execArgv(fs, argv) };
+}
+
+/**
+ * Programs that ran besides the one the endpoint meant to start. Every
+ * endpoint command line begins with its own program, so that is the first
+ * top-level one: $() inside the input runs earlier, but is not top-level.
+ */
+export function injectedCommands(call: EndpointCall): string[][] {
+  if (!call.run) return [];
+  const intended = call.run.topLevel[0];
+  return call.run.commands.filter((_, i) => i !== intended);
+}
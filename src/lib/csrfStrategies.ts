@@ -0,0 +1,405 @@
+import { timingSafeEqual, verifySignedToken } from "@/lib/csrf";
+
+/**
+ * CSRF defence strategies, and a small browser model to attack them with
+ *
+ * EDUCATIONAL NOTE:
+ * Every CSRF defence relies on something a cross-site attacker cannot do:
+ * - Synchronizer token: cannot READ the token stored in the victim's session
+ * - Double-submit cookie: cannot READ the csrf cookie to copy it into the form
+ *   (but a sibling subdomain can WRITE it: "cookie tossing")
+ * - Signed double-submit: cannot FORGE an HMAC bound to the victim's session
+ * - SameSite cookies: the BROWSER withholds the session cookie cross-site
+ *   (but "same-site" includes every subdomain, and Lax allows top-level GETs)
+ * - Origin/Referer check: cannot SPOOF headers the browser sets
+ * - Custom header: cannot ADD headers cross-origin without passing CORS
+ *
+ * The browser model below decides which cookies and headers are attached,
+ * then the server validates the request with the chosen strategy.
+ */
+
+export type CsrfStrategy =
+  | "synchronizer"
+  | "double-submit"
+  | "signed-double-submit"
+  | "samesite-lax"
+  | "samesite-strict"
+  | "origin-check"
+  | "custom-header";
+
+export type SameSite = "None" | "Lax" | "Strict";
+
+export type RequestKind = "form-post" | "img-get" | "link-get" | "fetch-post" | "fetch-custom-header";
+
+export const BANK_ORIGIN = "https://bank.example";
+export const ATTACKER_ORIGIN = "https://evil.example";
+/** A compromised or user-content subdomain: cross-origin, but same-site */
+export const SIBLING_ORIGIN = "https://forum.bank.example";
+
+export const CSRF_STRATEGIES: Array<{ id: CsrfStrategy; label: string; description: string }> = [
+  {
+    id: "synchronizer",
+    label: "Synchronizer token",
+    description: "Token salvato nella sessione server e incluso nel form; confrontato ad ogni richiesta",
+  },
+  {
+    id: "double-submit",
+    label: "Double-submit cookie",
+    description: "Lo stesso valore random in un cookie e nel form; il server controlla che coincidano",
+  },
+  {
+    id: "signed-double-submit",
+    label: "Signed double-submit",
+    description: "Come il double-submit, ma il token è firmato con HMAC e legato alla sessione",
+  },
+  {
+    id: "samesite-lax",
+    label: "SameSite=Lax",
+    description: "Il browser non invia il cookie di sessione nelle richieste cross-site, tranne navigazioni GET",
+  },
+  {
+    id: "samesite-strict",
+    label: "SameSite=Strict",
+    description: "Il browser non invia mai il cookie di sessione nelle richieste cross-site",
+  },
+  {
+    id: "origin-check",
+    label: "Origin/Referer check",
+    description: "Il server accetta solo richieste con Origin (o Referer) uguale al proprio",
+  },
+  {
+    id: "custom-header",
+    label: "Custom header (AJAX)",
+    description: "Richiede X-Requested-With: un sito cross-origin non può aggiungerlo senza CORS",
+  },
+];
+
+export interface BrowserCookie {
+  name: string;
+  value: string;
+  sameSite: SameSite;
+}
+
+export interface SimulatedRequest {
+  method: "GET" | "POST";
+  url: string;
+  cookies: Record<string, string>;
+  headers: Record<string, string>;
+  body: Record<string, string>;
+}
+
+/** What a page asks the browser to send; the browser decides the rest */
+export interface RequestIntent {
+  kind: RequestKind;
+  initiator: string;
+  fields: Record<string, string>;
+  headers?: Record<string, string>;
+  /** Cookies the initiating page manages to set for the target's domain first */
+  tossedCookies?: Record<string, string>;
+}
+
+export interface BrowserResult {
+  sent: boolean;
+  request?: SimulatedRequest;
+  /** Each decision the browser made, in order, for logging */
+  steps: string[];
+}
+
+export interface CsrfContext {
+  key: CryptoKey;
+  sessionId: string;
+  /** The victim's genuine token (HMAC-signed, bound to sessionId) */
+  token: string;
+  /** A genuine token for the attacker's own session on the same site */
+  attackerToken: string;
+}
+
+const TRANSFER_URL = `${BANK_ORIGIN}/transfer`;
+
+const query = (fields: Record<string, string>) => new URLSearchParams(fields).toString();
+
+const siteOf = (origin: string) => new URL(origin).hostname.split(".").slice(-2).join(".");
+
+export const isSameSite = (a: string, b: string) => siteOf(a) === siteOf(b);
+
+const usesCsrfCookie = (strategy: CsrfStrategy) =>
+  strategy === "double-submit" || strategy === "signed-double-submit";
+
+/** Cookies the bank set in the victim's browser at login */
+export function cookieJarFor(strategy: CsrfStrategy, ctx: CsrfContext): BrowserCookie[] {
+  const sameSite: SameSite =
+    strategy === "samesite-lax" ? "Lax" : strategy === "samesite-strict" ? "Strict" : "None";
+  const jar: BrowserCookie[] = [{ name: "session", value: ctx.sessionId, sameSite }];
+  if (usesCsrfCookie(strategy)) {
+    jar.push({ name: "csrf", value: ctx.token, sameSite: "None" });
+  }
+  return jar;
+}
+
+export function browserSend(intent: RequestIntent, jar: BrowserCookie[]): BrowserResult {
+  const steps: string[] = [];
+  const crossOrigin = intent.initiator !== BANK_ORIGIN;
+  const crossSite = !isSameSite(intent.initiator, BANK_ORIGIN);
+  const method = intent.kind === "img-get" || intent.kind === "link-get" ? "GET" : "POST";
+  const topLevel = intent.kind === "form-post" || intent.kind === "link-get";
+  steps.push(
+    `Browser: ${method} ${TRANSFER_URL} from ${intent.initiator} (${crossSite ? "cross-site" : crossOrigin ? "same-site, cross-origin" : "same-origin"})`,
+  );
+
+  // CORS: a non-simple request needs a preflight the bank never approves for other origins
+  if (intent.kind === "fetch-custom-header" && crossOrigin) {
+    steps.push(`Browser: OPTIONS preflight for ${Object.keys(intent.headers ?? {}).join(", ")} - no Access-Control-Allow-Origin for ${intent.initiator}`);
+    steps.push("Browser: request NOT sent");
+    return { sent: false, steps };
+  }
+
+  let cookieJar = jar;
+  if (intent.tossedCookies) {
+    // A subdomain can set cookies with Domain=bank.example, overwriting the parent's
+    cookieJar = [
+      ...jar.filter((c) => !(c.name in intent.tossedCookies!)),
+      ...Object.entries(intent.tossedCookies).map(([name, value]) => ({ name, value, sameSite: "None" as const })),
+    ];
+    steps.push(`Browser: ${intent.initiator} overwrote cookie(s) ${Object.keys(intent.tossedCookies).join(", ")} for .bank.example`);
+  }
+
+  const cookies: Record<string, string> = {};
+  for (const cookie of cookieJar) {
+    const attach =
+      !crossSite ||
+      cookie.sameSite === "None" ||
+      (cookie.sameSite === "Lax" && topLevel && method === "GET");
+    if (attach) {
+      cookies[cookie.name] = cookie.value;
+    } else {
+      steps.push(`Browser: cookie '${cookie.name}' withheld (SameSite=${cookie.sameSite}, cross-site)`);
+    }
+  }
+  steps.push(`Browser: cookies attached: ${Object.keys(cookies).join(", ") || "none"}`);
+
+  const headers: Record<string, string> = { ...intent.headers };
+  // Browsers send Origin on POSTs and CORS requests, not on plain GET navigations or images
+  if (method === "POST") headers.Origin = intent.initiator;
+  headers.Referer = crossOrigin ? `${intent.initiator}/` : `${BANK_ORIGIN}/account`;
+  steps.push(
+    `Browser: headers ${Object.entries(headers)
+      .map(([name, value]) => `${name}: ${value}`)
+      .join(", ")}`,
+  );
+
+  const request: SimulatedRequest = {
+    method,
+    url: method === "GET" ? `${TRANSFER_URL}?${query(intent.fields)}` : TRANSFER_URL,
+    cookies,
+    headers,
+    body: method === "POST" ? intent.fields : {},
+  };
+  return { sent: true, request, steps };
+}
+
+export interface CsrfVerdict {
+  accepted: boolean;
+  reason: string;
+}
+
+/** Server-side check for the given strategy; `accepted` means the transfer executes */
+export async function validateCsrf(strategy: CsrfStrategy, req: SimulatedRequest, ctx: CsrfContext): Promise<CsrfVerdict> {
+  if (req.cookies.session !== ctx.sessionId) {
+    return { accepted: false, reason: "No session cookie: request is unauthenticated" };
+  }
+  if (strategy === "samesite-lax" || strategy === "samesite-strict") {
+    return { accepted: true, reason: "Session cookie present - SameSite is the only defence" };
+  }
+  if (req.method === "GET") {
+    // The legacy GET /transfer endpoint: CSRF middleware skips "safe" methods
+    return { accepted: true, reason: "GET treated as a safe method, CSRF check skipped" };
+  }
+
+  const formToken = req.body.csrf_token;
+  switch (strategy) {
+    case "synchronizer":
+      return formToken && timingSafeEqual(formToken, ctx.token)
+        ? { accepted: true, reason: "Form token matches the session's token" }
+        : { accepted: false, reason: "Form token does not match the session's token" };
+    case "double-submit":
+      return formToken && req.cookies.csrf && timingSafeEqual(formToken, req.cookies.csrf)
+        ? { accepted: true, reason: "Form token matches the csrf cookie" }
+        : { accepted: false, reason: "Form token and csrf cookie differ" };
+    case "signed-double-submit": {
+      if (!formToken || !req.cookies.csrf || !timingSafeEqual(formToken, req.cookies.csrf)) {
+        return { accepted: false, reason: "Form token and csrf cookie differ" };
+      }
+      const result = await verifySignedToken(ctx.key, formToken, ctx.sessionId);
+      return result.valid
+        ? { accepted: true, reason: "Cookie matches form and HMAC is bound to this session" }
+        : { accepted: false, reason: "Cookie matches form, but HMAC is not bound to this session" };
+    }
+    case "origin-check": {
+      const source = req.headers.Origin ?? req.headers.Referer;
+      if (!source) return { accepted: false, reason: "No Origin or Referer header" };
+      return new URL(source).origin === BANK_ORIGIN
+        ? { accepted: true, reason: `Origin ${new URL(source).origin} is trusted` }
+        : { accepted: false, reason: `Origin ${new URL(source).origin} is not ${BANK_ORIGIN}` };
+    }
+    case "custom-header":
+      return req.headers["X-Requested-With"]
+        ? { accepted: true, reason: "X-Requested-With present" }
+        : { accepted: false, reason: "X-Requested-With header missing" };
+  }
+}
+
+export interface CsrfAttack {
+  id: string;
+  label: string;
+  description: string;
+  intent: (ctx: CsrfContext) => RequestIntent;
+}
+
+const TRANSFER_FIELDS = { to: "attacker", amount: "1000" };
+
+export const CSRF_ATTACKS: CsrfAttack[] = [
+  {
+    id: "cross-site-form",
+    label: "Form POST cross-site",
+    description: "Pagina malevola che invia automaticamente un form nascosto con un token inventato",
+    intent: () => ({
+      kind: "form-post",
+      initiator: ATTACKER_ORIGIN,
+      fields: { ...TRANSFER_FIELDS, csrf_token: "malicious_fake_token_xyz" },
+    }),
+  },
+  {
+    id: "stolen-token",
+    label: "Token di un'altra sessione",
+    description: "L'attaccante usa un token valido ottenuto con il proprio account",
+    intent: (ctx) => ({
+      kind: "form-post",
+      initiator: ATTACKER_ORIGIN,
+      fields: { ...TRANSFER_FIELDS, csrf_token: ctx.attackerToken },
+    }),
+  },
+  {
+    id: "img-get",
+    label: "<img> GET",
+    description: "Un tag immagine che punta a GET /transfer?to=attacker",
+    intent: () => ({ kind: "img-get", initiator: ATTACKER_ORIGIN, fields: TRANSFER_FIELDS }),
+  },
+  {
+    id: "top-level-get",
+    label: "Link GET top-level",
+    description: "La vittima clicca un link che naviga a GET /transfer?to=attacker",
+    intent: () => ({ kind: "link-get", initiator: ATTACKER_ORIGIN, fields: TRANSFER_FIELDS }),
+  },
+  {
+    id: "fetch-simple",
+    label: "fetch() senza header custom",
+    description: "fetch POST con credentials: 'include' e Content-Type text/plain (nessun preflight)",
+    intent: () => ({ kind: "fetch-post", initiator: ATTACKER_ORIGIN, fields: TRANSFER_FIELDS }),
+  },
+  {
+    id: "fetch-preflight",
+    label: "fetch() + X-Requested-With",
+    description: "fetch POST che falsifica l'header custom: richiede un preflight CORS",
+    intent: () => ({
+      kind: "fetch-custom-header",
+      initiator: ATTACKER_ORIGIN,
+      fields: TRANSFER_FIELDS,
+      headers: { "X-Requested-With": "XMLHttpRequest" },
+    }),
+  },
+  {
+    id: "subdomain-toss",
+    label: "Sottodominio + cookie tossing",
+    description: "Da forum.bank.example (same-site) sovrascrive il cookie csrf e invia lo stesso valore nel form",
+    intent: (ctx) => ({
+      kind: "form-post",
+      initiator: SIBLING_ORIGIN,
+      fields: { ...TRANSFER_FIELDS, csrf_token: ctx.attackerToken },
+      tossedCookies: { csrf: ctx.attackerToken },
+    }),
+  },
+];
+
+/** How the bank's own front-end submits a transfer under each strategy */
+export function legitimateIntent(strategy: CsrfStrategy, ctx: CsrfContext): RequestIntent {
+  const fields = { to: "landlord", amount: "850", csrf_token: ctx.token };
+  return strategy === "custom-header"
+    ? { kind: "fetch-custom-header", initiator: BANK_ORIGIN, fields, headers: { "X-Requested-With": "XMLHttpRequest" } }
+    : { kind: "form-post", initiator: BANK_ORIGIN, fields };
+}
+
+/** The HTML/JS the initiating page contains to fire the request */
+export function attackMarkup(intent: RequestIntent): string {
+  const fields = intent.fields;
+  switch (intent.kind) {
+    case "form-post":
+      return [
+        `<form action="${TRANSFER_URL}" method="POST" hidden>`,
+        ...Object.entries(fields).map(([name, value]) => `  <input name="${name}" value="${value}">`),
+        "</form>",
+        "<script>document.forms[0].submit()</script>",
+      ].join("\n");
+    case "img-get":
+      return `<img src="${TRANSFER_URL}?${query(fields)}" width="0" height="0">`;
+    case "link-get":
+      return `<a href="${TRANSFER_URL}?${query(fields)}">Hai vinto un iPhone! Clicca qui</a>`;
+    case "fetch-post":
+    case "fetch-custom-header": {
+      const headers =
+        intent.kind === "fetch-post" ? { "Content-Type": "text/plain" } : { ...intent.headers };
+      return [
+        `fetch("${TRANSFER_URL}", {`,
+        `  method: "POST",`,
+        `  credentials: "include",`,
+        `  headers: ${JSON.stringify(headers)},`,
+        `  body: "${query(fields)}",`,
+        "});",
+      ].join("\n");
+    }
+  }
+}
+
+/** Raw HTTP/1.1 rendering of what reaches the server */
+export function formatRequest(req: SimulatedRequest): string {
+  const url = new URL(req.url);
+  const cookie = Object.entries(req.cookies)
+    .map(([name, value]) => `${name}=${value.length > 24 ? value.slice(0, 24) + "…" : value}`)
+    .join("; ");
+  const lines = [`${req.method} ${url.pathname}${url.search} HTTP/1.1`, `Host: ${url.host}`];
+  for (const [name, value] of Object.entries(req.headers)) lines.push(`${name}: ${value}`);
+  if (cookie) lines.push(`Cookie: ${cookie}`);
+  if (req.method === "POST") lines.push("", query(req.body));
+  return lines.join("\n");
+}
+
+export interface CsrfOutcome {
+  browser: BrowserResult;
+  verdict?: CsrfVerdict;
+  /** True when the transfer executed */
+  executed: boolean;
+}
+
+/** Browser and server together: the full path of one request */
+export async function runCsrfScenario(
+  strategy: CsrfStrategy,
+  intent: RequestIntent,
+  ctx: CsrfContext,
+): Promise<CsrfOutcome> {
+  const browser = browserSend(intent, cookieJarFor(strategy, ctx));
+  if (!browser.sent || !browser.request) return { browser, executed: false };
+  const verdict = await validateCsrf(strategy, browser.request, ctx);
+  return { browser, verdict, executed: verdict.accepted };
+}
+
+/** strategy → attack id → whether the attack was stopped */
+export async function computeDefenseMatrix(ctx: CsrfContext): Promise<Record<CsrfStrategy, Record<string, boolean>>> {
+  const matrix = {} as Record<CsrfStrategy, Record<string, boolean>>;
+  for (const { id: strategy } of CSRF_STRATEGIES) {
+    matrix[strategy] = {};
+    for (const attack of CSRF_ATTACKS) {
+      const outcome = await runCsrfScenario(strategy, attack.intent(ctx), ctx);
+      matrix[strategy][attack.id] = !outcome.executed;
+    }
+  }
+  return matrix;
+}
@@ -0,0 +1,121 @@
+import { generateToken, timingSafeEqual } from "@/lib/csrf";
+import type { Clock } from "@/lib/rateLimiter";
+
+/**
+ * Server-side CSRF token store with different token lifecycles
+ *
+ * EDUCATIONAL NOTE:
+ * How long a token lives is a trade-off between exposure and usability:
+ * - Per session: one token for the whole login; every tab works, but a
+ *   leaked token stays valid until logout
+ * - Per request: each page load issues a new token and invalidates the
+ *   previous one. A second tab silently breaks the first tab's form
+ * - Time-limited: tokens coexist but expire; a form left open too long fails
+ * - Per form: one token per form action; a token leaked from a harmless
+ *   form cannot be replayed against the sensitive one
+ */
+
+export type TokenLifecycle = "per-session" | "per-request" | "time-limited" | "per-form";
+
+export const TOKEN_LIFECYCLES: Array<{ id: TokenLifecycle; label: string; description: string }> = [
+  {
+    id: "per-session",
+    label: "Per sessione",
+    description: "Un solo token per tutta la sessione, valido in ogni scheda",
+  },
+  {
+    id: "per-request",
+    label: "Per richiesta",
+    description: "Ogni caricamento di pagina genera un nuovo token e invalida il precedente",
+  },
+  {
+    id: "time-limited",
+    label: "A scadenza",
+    description: "I token coesistono ma scadono dopo il TTL configurato",
+  },
+  {
+    id: "per-form",
+    label: "Per form",
+    description: "Un token per ogni azione: valido solo per il form che lo ha ricevuto",
+  },
+];
+
+export type TokenRejection = "unknown" | "superseded" | "consumed" | "expired" | "wrong-form";
+
+export type TokenCheck = { valid: true } | { valid: false; reason: TokenRejection };
+
+export interface IssuedToken {
+  token: string;
+  formId: string;
+  issuedAt: number;
+  /** Infinity unless the lifecycle is time-limited */
+  expiresAt: number;
+}
+
+export interface CsrfTokenStore {
+  lifecycle: TokenLifecycle;
+  /** Called when a page containing `formId` is rendered */
+  issue(formId: string): IssuedToken;
+  /** Called when `formId` is submitted with `token` */
+  validate(token: string, formId: string): TokenCheck;
+  reset(): void;
+}
+
+export interface CsrfTokenStoreOptions {
+  ttlMs?: number;
+  clock?: Clock;
+}
+
+type Entry = IssuedToken & { state: "active" | "superseded" | "consumed" };
+
+export function createCsrfTokenStore(
+  lifecycle: TokenLifecycle,
+  { ttlMs = 60_000, clock = () => Date.now() }: CsrfTokenStoreOptions = {},
+): CsrfTokenStore {
+  // Every token ever issued, so rejections can say WHY rather than just "invalid"
+  let entries: Entry[] = [];
+
+  const create = (formId: string): Entry => {
+    const issuedAt = clock();
+    const entry: Entry = {
+      token: generateToken(),
+      formId,
+      issuedAt,
+      expiresAt: lifecycle === "time-limited" ? issuedAt + ttlMs : Infinity,
+      state: "active",
+    };
+    entries.push(entry);
+    return entry;
+  };
+
+  const reuse = (match: (e: Entry) => boolean) => entries.find((e) => e.state === "active" && match(e));
+
+  return {
+    lifecycle,
+    issue(formId) {
+      switch (lifecycle) {
+        case "per-session":
+          return reuse(() => true) ?? create(formId);
+        case "per-form":
+          return reuse((e) => e.formId === formId) ?? create(formId);
+        case "per-request":
+          for (const e of entries) if (e.state === "active") e.state = "superseded";
+          return create(formId);
+        case "time-limited":
+          return create(formId);
+      }
+    },
+    validate(token, formId) {
+      const entry = entries.find((e) => timingSafeEqual(e.token, token));
+      if (!entry) return { valid: false, reason: "unknown" };
+      if (entry.state !== "active") return { valid: false, reason: entry.state };
+      if (clock() >= entry.expiresAt) return { valid: false, reason: "expired" };
+      if (lifecycle === "per-form" && entry.formId !== formId) return { valid: false, reason: "wrong-form" };
+      if (lifecycle === "per-request") entry.state = "consumed";
+      return { valid: true };
+    },
+    reset() {
+      entries = [];
+    },
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Blacklist of common injection patterns
+ *
+ * EDUCATIONAL NOTE:
+ * A blacklist only knows the attacks its author thought of. These patterns
+ * catch the textbook payloads and are bypassed by trivial variations
+ * (see the filter-bypass challenge): treat detection as a signal for
+ * logging and monitoring, never as the defence itself.
+ *
+ * The patterns carry the /g flag, which makes a RegExp STATEFUL: test() and
+ * exec() resume from lastIndex, so calling pattern.test() on a second input
+ * can miss a match at its start. analyzeInput() never runs them directly:
+ * it matches with a fresh copy of each pattern, so no state is shared.
+ */
+
+export type PatternSeverity = "critical" | "high";
+
+export interface DangerousPattern {
+  id: string;
+  pattern: RegExp;
+  name: string;
+  severity: PatternSeverity;
+  remediation: string;
+}
+
+export const DANGEROUS_PATTERNS: DangerousPattern[] = [
+  {
+    id: "xss-script-tag",
+    pattern: /<script[\s\S]*?>[\s\S]*?<\/script>/gi,
+    name: "XSS Script Tag",
+    severity: "critical",
+    remediation: "Codifica l'output per il contesto HTML o usa un sanitizer ad allowlist",
+  },
+  {
+    id: "javascript-uri",
+    pattern: /javascript:/gi,
+    name: "JavaScript URI",
+    severity: "critical",
+    remediation: "Accetta negli URL solo gli schemi http: e https:, dopo averli normalizzati",
+  },
+  {
+    id: "event-handler",
+    pattern: /on\w+\s*=/gi,
+    name: "Event Handler",
+    severity: "high",
+    remediation: "Rimuovi tutti gli attributi on* con un sanitizer e blocca gli inline handler con la CSP",
+  },
+  {
+    id: "sql-tautology",
+    pattern: /'\s*(or|and)\s*'?\d*'?\s*=\s*'?\d*'?/gi,
+    name: "SQL Injection",
+    severity: "critical",
+    remediation: "Usa query parametrizzate: il valore non deve mai entrare nel testo SQL",
+  },
+  {
+    id: "command-chaining",
+    pattern: /;\s*(rm|cat|ls|wget|curl)/gi,
+    name: "Command Injection",
+    severity: "critical",
+    remediation: "Non passare input a una shell: usa execFile/spawn con un array di argomenti",
+  },
+  {
+    id: "path-traversal",
+    pattern: /\.\.\//g,
+    name: "Path Traversal",
+    severity: "high",
+    remediation: "Canonicalizza il percorso e verifica che resti dentro la directory consentita",
+  },
+  {
+    id: "iframe-injection",
+    pattern: /<iframe/gi,
+    name: "Iframe Injection",
+    severity: "high",
+    remediation: "Non consentire <iframe> nell'input; limita i frame con la direttiva CSP frame-src",
+  },
+  {
+    id: "img-onerror",
+    pattern: /<img.*onerror/gi,
+    name: "Image XSS",
+    severity: "high",
+    remediation: "Consenti <img> solo con attributi in allowlist (src https, alt)",
+  },
+];
+
+export interface ThreatFinding {
+  ruleId: string;
+  name: string;
+  severity: PatternSeverity;
+  /** The matched substring of the input */
+  match: string;
+  /** Offsets into the input, end exclusive */
+  start: number;
+  end: number;
+  remediation: string;
+}
+
+export interface HighlightSegment {
+  text: string;
+  severity?: PatternSeverity;
+}
+
+const SEVERITY_RANK: Record<PatternSeverity, number> = { high: 1, critical: 2 };
+
+/** Every match of every pattern, ordered by position */
+export function analyzeInput(input: string, patterns: DangerousPattern[] = DANGEROUS_PATTERNS): ThreatFinding[] {
+  const findings: ThreatFinding[] = [];
+  for (const { id, pattern, name, severity, remediation } of patterns) {
+    // matchAll would copy lastIndex from the shared pattern, so start from a fresh RegExp
+    const fresh = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : pattern.flags + "g");
+    for (const match of input.matchAll(fresh)) {
+      // An empty match would not mark anything
+      if (!match[0]) continue;
+      findings.push({
+        ruleId: id,
+        name,
+        severity,
+        match: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+        remediation,
+      });
+    }
+  }
+  return findings.sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+/** Splits the input into plain and flagged runs; overlaps take the highest severity */
+export function highlightSegments(input: string, findings: ThreatFinding[]): HighlightSegment[] {
+  const levels = new Array<number>(input.length).fill(0);
+  for (const f of findings) {
+    for (let i = f.start; i < f.end; i++) levels[i] = Math.max(levels[i], SEVERITY_RANK[f.severity]);
+  }
+  const severityOf = (level: number) =>
+    (Object.keys(SEVERITY_RANK) as PatternSeverity[]).find((s) => SEVERITY_RANK[s] === level);
+
+  const segments: HighlightSegment[] = [];
+  let start = 0;
+  for (let i = 1; i <= input.length; i++) {
+    if (i < input.length && levels[i] === levels[start]) continue;
+    segments.push({ text: input.slice(start, i), severity: severityOf(levels[start]) });
+    start = i;
+  }
+  return segments;
+}
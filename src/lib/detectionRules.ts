@@ -0,0 +1,328 @@
+import { analyzeInput, type PatternSeverity, type ThreatFinding } from "@/lib/dangerousPatterns";
+
+/**
+ * Custom detection rules for the sanitization engine
+ *
+ * EDUCATIONAL NOTE:
+ * Trainers can add patterns for attacks the built-in blacklist ignores
+ * (LDAP, NoSQL operators, template injection, XXE) and share them as JSON.
+ * A rule is either a regex or one of the named detector functions below.
+ * Imported files never contain code: accepting JavaScript in a JSON file
+ * and running it with eval() would turn a rule set into an XSS payload.
+ * Regexes still run on every keystroke, so a rule like (a+)+$ could freeze
+ * the tab (ReDoS): nested quantifiers are refused and custom rules only see
+ * the first MAX_RULE_INPUT characters.
+ */
+
+export type RuleKind = "regex" | "function";
+
+export interface CustomRule {
+  id: string;
+  name: string;
+  severity: PatternSeverity;
+  enabled: boolean;
+  kind: RuleKind;
+  /** Regex source and flags, for kind "regex" */
+  pattern?: string;
+  flags?: string;
+  /** One of RULE_FUNCTIONS, for kind "function" */
+  functionId?: string;
+  /** Payloads the rule is expected to flag */
+  samples: string[];
+  remediation?: string;
+}
+
+export type RuleValidation = { ok: true } | { ok: false; error: string };
+
+export type RuleSetParseResult = { ok: true; rules: CustomRule[] } | { ok: false; error: string };
+
+interface MatchRange {
+  start: number;
+  end: number;
+}
+
+const RULES_KEY = "secureshield_detection_rules";
+const RULE_SET_VERSION = 1;
+const ALLOWED_FLAGS = /^[gimsuy]*$/;
+/** Custom rules only scan this much input, bounding polynomial backtracking */
+export const MAX_RULE_INPUT = 1_000;
+
+/** Length of a repeating quantifier (*, +, {n,}, {n,m} with m > 1) at index i, or 0 */
+const repeatAt = (source: string, i: number) => {
+  if (source[i] === "*" || source[i] === "+") return 1;
+  const brace = source.slice(i).match(/^\{(\d+)(,(\d*))?\}/);
+  if (!brace) return 0;
+  const max = brace[2] === undefined ? Number(brace[1]) : brace[3] === "" ? Infinity : Number(brace[3]);
+  return max > 1 ? brace[0].length : 0;
+};
+
+/**
+ * Star height above one, e.g. (a+)+ or (\w*x)*: the shape behind most
+ * catastrophic backtracking. Conservative: some safe patterns are refused too.
+ */
+function hasNestedQuantifier(source: string): boolean {
+  const outer: boolean[] = [];
+  let repeats = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "[") {
+      // Skip the character class; "]" right after "[" or "[^" is literal
+      i += source[i + 1] === "^" ? 2 : 1;
+      if (source[i] === "]") i++;
+      while (i < source.length && source[i] !== "]") i += source[i] === "\\" ? 2 : 1;
+    } else if (ch === "(") {
+      outer.push(repeats);
+      repeats = false;
+    } else if (ch === ")") {
+      const inner = repeats;
+      repeats = outer.pop() ?? false;
+      const length = repeatAt(source, i + 1);
+      if (length > 0 && inner) return true;
+      repeats ||= inner || length > 0;
+      i += length;
+    } else {
+      const length = repeatAt(source, i);
+      if (length > 0) {
+        repeats = true;
+        i += length - 1;
+      }
+    }
+  }
+  return false;
+}
+
+/** Every match of a global regex, as offsets */
+const rangesOf = (input: string, regex: RegExp): MatchRange[] =>
+  Array.from(input.matchAll(regex))
+    .filter((m) => m[0])
+    .map((m) => ({ start: m.index, end: m.index + m[0].length }));
+
+export const RULE_FUNCTIONS: Array<{
+  id: string;
+  label: string;
+  description: string;
+  detect: (input: string) => MatchRange[];
+}> = [
+  {
+    id: "nosql-operator",
+    label: "Operatori NoSQL",
+    description: 'Chiavi JSON che iniziano con $ ($where, $ne, $gt...), anche annidate',
+    detect: (input) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(input);
+      } catch {
+        // Not JSON: look for operator keys in query-string form, e.g. password[$ne]=
+        return rangesOf(input, /\[\$\w+\]/g);
+      }
+      const operators = new Set<string>();
+      const walk = (value: unknown) => {
+        if (!value || typeof value !== "object") return;
+        for (const [key, child] of Object.entries(value)) {
+          if (key.startsWith("$")) operators.add(key);
+          walk(child);
+        }
+      };
+      walk(parsed);
+      return Array.from(operators).flatMap((key) =>
+        rangesOf(input, new RegExp(`"${key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}"`, "g"))
+      );
+    },
+  },
+  {
+    id: "template-expression",
+    label: "Espressioni di template",
+    description: "{{ }}, ${ }, <%= %> e #{ } che contengono un'espressione valutabile (operatori, chiamate, attributi)",
+    detect: (input) =>
+      rangesOf(input, /\{\{[\s\S]*?\}\}|\$\{[\s\S]*?\}|<%=?[\s\S]*?%>|#\{[\s\S]*?\}/g).filter(({ start, end }) =>
+        /[*+/()[\].|]|__/.test(input.slice(start, end))
+      ),
+  },
+  {
+    id: "xml-external-entity",
+    label: "Entità esterne XML",
+    description: "Dichiarazioni <!ENTITY ... SYSTEM/PUBLIC> dentro un DOCTYPE",
+    detect: (input) =>
+      /<!DOCTYPE/i.test(input) ? rangesOf(input, /<!ENTITY\s+%?\s*\w+\s+(SYSTEM|PUBLIC)\b[^>]*>/gi) : [],
+  },
+];
+
+export const STARTER_RULES: CustomRule[] = [
+  {
+    id: "ldap-injection",
+    name: "LDAP Injection",
+    severity: "high",
+    enabled: true,
+    kind: "regex",
+    pattern: "\\*\\)\\s*\\(|\\)\\s*\\(\\s*[|&!]",
+    flags: "g",
+    samples: ["*)(uid=*))(|(uid=*", "admin)(&(password=*)"],
+    remediation: "Codifica i metacaratteri LDAP (RFC 4515) o usa filtri parametrizzati",
+  },
+  {
+    id: "nosql-where",
+    name: "NoSQL Operator",
+    severity: "critical",
+    enabled: true,
+    kind: "function",
+    functionId: "nosql-operator",
+    samples: ['{"username": "admin", "password": {"$ne": null}}', '{"$where": "sleep(5000)"}', "password[$ne]=x"],
+    remediation: "Valida il tipo dei campi (stringa, non oggetto) e rifiuta le chiavi che iniziano con $",
+  },
+  {
+    id: "template-injection",
+    name: "Template Injection (SSTI)",
+    severity: "critical",
+    enabled: true,
+    kind: "function",
+    functionId: "template-expression",
+    samples: ["{{7*7}}", "${7*7}", "{{config.__class__.__init__}}", "<%= 7*7 %>"],
+    remediation: "Non compilare mai input come template: passalo come variabile di contesto",
+  },
+  {
+    id: "xxe",
+    name: "XXE",
+    severity: "critical",
+    enabled: true,
+    kind: "function",
+    functionId: "xml-external-entity",
+    samples: ['<?xml version="1.0"?><!DOCTYPE r [<!ENTITY x SYSTEM "file:///etc/passwd">]><r>&x;</r>'],
+    remediation: "Disabilita DTD ed entità esterne nel parser XML",
+  },
+];
+
+export function validateRule(rule: CustomRule): RuleValidation {
+  if (!rule.name?.trim()) return { ok: false, error: "Il nome è obbligatorio" };
+  if (rule.severity !== "critical" && rule.severity !== "high") {
+    return { ok: false, error: `Severità non valida: ${rule.severity}` };
+  }
+  if (rule.kind === "function") {
+    return RULE_FUNCTIONS.some((f) => f.id === rule.functionId)
+      ? { ok: true }
+      : { ok: false, error: `Funzione sconosciuta: ${rule.functionId}` };
+  }
+  if (rule.kind !== "regex") return { ok: false, error: `Tipo di regola non valido: ${rule.kind}` };
+  if (!rule.pattern) return { ok: false, error: "La regex è obbligatoria" };
+  if (!ALLOWED_FLAGS.test(rule.flags ?? "")) return { ok: false, error: `Flag non validi: ${rule.flags}` };
+  let regex: RegExp;
+  try {
+    regex = new RegExp(rule.pattern, rule.flags);
+  } catch (e) {
+    return { ok: false, error: `Regex non valida: ${e instanceof Error ? e.message : e}` };
+  }
+  if (hasNestedQuantifier(rule.pattern)) {
+    return { ok: false, error: "Quantificatori annidati come (a+)+: rischio ReDoS, riscrivi la regex" };
+  }
+  // A pattern that matches "" matches at every position of every input
+  if (regex.test("")) return { ok: false, error: "La regex corrisponde alla stringa vuota" };
+  return { ok: true };
+}
+
+/** Match offsets of one rule; empty for invalid rules */
+export function matchRule(rule: CustomRule, input: string): MatchRange[] {
+  if (validateRule(rule).ok === false) return [];
+  if (rule.kind === "function") return RULE_FUNCTIONS.find((f) => f.id === rule.functionId)?.detect(input) ?? [];
+  const flags = rule.flags?.includes("g") ? rule.flags : `${rule.flags ?? ""}g`;
+  return rangesOf(input.slice(0, MAX_RULE_INPUT), new RegExp(rule.pattern, flags));
+}
+
+/** Which sample payloads the rule flags */
+export function testRuleSamples(rule: CustomRule): Array<{ sample: string; matched: boolean }> {
+  return rule.samples.map((sample) => ({ sample, matched: matchRule(rule, sample).length > 0 }));
+}
+
+/** Built-in patterns plus every enabled custom rule, ordered by position */
+export function analyzeWithRules(input: string, rules: CustomRule[]): ThreatFinding[] {
+  const custom = rules
+    .filter((r) => r.enabled)
+    .flatMap((rule) =>
+      matchRule(rule, input).map(({ start, end }) => ({
+        ruleId: rule.id,
+        name: rule.name,
+        severity: rule.severity,
+        match: input.slice(start, end),
+        start,
+        end,
+        remediation: rule.remediation ?? "",
+      }))
+    );
+  return [...analyzeInput(input), ...custom].sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+/** Unique id derived from the name, e.g. "ldap-injection-2" */
+export function ruleIdFor(name: string, rules: CustomRule[]): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "rule";
+  let id = base;
+  for (let n = 2; rules.some((r) => r.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+export function exportRuleSet(rules: CustomRule[]): string {
+  return JSON.stringify({ version: RULE_SET_VERSION, rules }, null, 2);
+}
+
+export function parseRuleSet(json: string): RuleSetParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return { ok: false, error: `JSON non valido: ${e instanceof Error ? e.message : e}` };
+  }
+  const rules = (data as { rules?: unknown })?.rules ?? data;
+  if (!Array.isArray(rules)) return { ok: false, error: 'Atteso un array di regole o un oggetto { "rules": [...] }' };
+
+  const parsed: CustomRule[] = [];
+  for (const [index, raw] of rules.entries()) {
+    if (!raw || typeof raw !== "object") return { ok: false, error: `Regola ${index + 1}: non è un oggetto` };
+    const r = raw as Partial<CustomRule>;
+    // Anything else would reach new RegExp() as "[object Object]" and similar
+    for (const field of ["pattern", "flags"] as const) {
+      if (r[field] !== undefined && typeof r[field] !== "string") {
+        return { ok: false, error: `Regola ${index + 1}: "${field}" deve essere una stringa` };
+      }
+    }
+    const rule: CustomRule = {
+      id: typeof r.id === "string" && r.id ? r.id : ruleIdFor(String(r.name ?? ""), parsed),
+      name: String(r.name ?? ""),
+      severity: r.severity,
+      enabled: r.enabled !== false,
+      kind: r.kind,
+      pattern: r.pattern,
+      flags: r.flags,
+      functionId: r.functionId,
+      samples: Array.isArray(r.samples) ? r.samples.map(String) : [],
+      remediation: typeof r.remediation === "string" ? r.remediation : undefined,
+    };
+    const validation = validateRule(rule);
+    if (validation.ok === false) return { ok: false, error: `Regola ${index + 1} ("${rule.name}"): ${validation.error}` };
+    if (parsed.some((p) => p.id === rule.id)) return { ok: false, error: `Regola ${index + 1}: id duplicato ${rule.id}` };
+    parsed.push(rule);
+  }
+  return { ok: true, rules: parsed };
+}
+
+/** Saved rules, or the starter set when nothing (valid) is stored or storage is disabled */
+export function loadRules(): CustomRule[] {
+  let stored: string | null;
+  try {
+    stored = localStorage.getItem(RULES_KEY);
+  } catch {
+    // SecurityError: cookies and site data blocked for this origin
+    return STARTER_RULES;
+  }
+  if (!stored) return STARTER_RULES;
+  const parsed = parseRuleSet(stored);
+  return parsed.ok === true ? parsed.rules : STARTER_RULES;
+}
+
+/** False when the rules could not be stored (storage disabled or full) */
+export function saveRules(rules: CustomRule[]): boolean {
+  try {
+    localStorage.setItem(RULES_KEY, exportRuleSet(rules));
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,89 @@
+import { createRateLimiter, type Clock, type RateLimiter } from "@/lib/rateLimiter";
+
+/**
+ * Rate limiting across several app nodes behind a load balancer
+ *
+ * EDUCATIONAL NOTE:
+ * A limiter that keeps its counters in process memory only sees the
+ * requests that reach its own node. Behind a round-robin load balancer
+ * with N nodes, a client therefore gets N times the configured limit.
+ * The fix is a shared store (Redis INCR/EXPIRE or a sorted set per key):
+ * every node reads and writes the same counter. If the store is replicated
+ * with lag, nodes decide on stale counts and some excess still slips through.
+ *
+ * Both modes use a sliding window log so the comparison is like for like.
+ */
+
+export type CounterStore = "local" | "shared";
+
+export interface DistributedRateLimiterOptions {
+  nodes: number;
+  store: CounterStore;
+  limit: number;
+  windowMs: number;
+  /** How long a write on one node takes to become visible to the others */
+  replicationLagMs: number;
+  clock?: Clock;
+}
+
+export interface NodeRequestResult {
+  node: number;
+  allowed: boolean;
+  /** Requests in the window as seen by the handling node when it decided */
+  seen: number;
+}
+
+export interface DistributedRateLimiter {
+  /** Routes one request to the next node (round-robin) and lets it decide */
+  handle(): NodeRequestResult;
+  /** Requests in the current window as each node sees them */
+  nodeViews(): number[];
+  /** Requests actually accepted by the whole cluster in the current window */
+  clusterAccepted(): number;
+}
+
+export function createDistributedRateLimiter({
+  nodes,
+  store,
+  limit,
+  windowMs,
+  replicationLagMs,
+  clock = () => Date.now(),
+}: DistributedRateLimiterOptions): DistributedRateLimiter {
+  let nextNode = 0;
+  // Every accepted request, whichever node took it: the ground truth
+  let accepted: Array<{ at: number; node: number }> = [];
+  const localLimiters: RateLimiter[] = Array.from({ length: nodes }, () =>
+    createRateLimiter("sliding-window", { limit, windowMs, clock }),
+  );
+
+  const prune = () => {
+    const now = clock();
+    accepted = accepted.filter((e) => now - e.at < windowMs);
+    return now;
+  };
+
+  // A node always sees its own writes; other nodes' writes arrive after the lag
+  const sharedView = (node: number) => {
+    const now = prune();
+    return accepted.filter((e) => e.node === node || now - e.at >= replicationLagMs).length;
+  };
+
+  const view = (node: number) => (store === "local" ? localLimiters[node].peek().used : sharedView(node));
+
+  return {
+    handle() {
+      const node = nextNode;
+      nextNode = (nextNode + 1) % nodes;
+      const seen = view(node);
+      const allowed = store === "local" ? localLimiters[node].consume().allowed : seen < limit;
+      if (allowed) accepted.push({ at: clock(), node });
+      return { node, allowed, seen };
+    },
+    nodeViews: () => Array.from({ length: nodes }, (_, i) => view(i)),
+    clusterAccepted() {
+      prune();
+      return accepted.length;
+    },
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * Context-aware output encoding
+ *
+ * EDUCATIONAL NOTE:
+ * There is no such thing as "sanitized" data, only data encoded for the
+ * place it is written to. The same string needs different escaping in:
+ * - HTML body:       < > & become entities
+ * - HTML attribute:  everything but alphanumerics, so unquoted attributes are safe too
+ * - JavaScript string: \xHH / \uHHHH escapes, never HTML entities
+ * - URL parameter:   percent-encoding (and it is only safe as a parameter, not a whole URL)
+ * - Whole URL (href, src): an http/https scheme allowlist, then attribute encoding
+ * - CSS value:       \HH escapes
+ * - JSON in <script>: JSON plus escaping < > & and U+2028/2029
+ *
+ * These follow the OWASP XSS Prevention Cheat Sheet / OWASP Java Encoder.
+ */
+
+export type OutputContext = "html-body" | "html-attribute" | "js-string" | "url-param" | "css-value" | "json";
+
+const isAlphanumeric = (ch: string) => /^[a-zA-Z0-9]$/.test(ch);
+
+const hex = (code: number, width: number) => code.toString(16).toUpperCase().padStart(width, "0");
+
+export function encodeHtmlBody(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#x27;");
+}
+
+export function encodeHtmlAttribute(value: string): string {
+  return Array.from(value, (ch) => {
+    const code = ch.codePointAt(0)!;
+    return isAlphanumeric(ch) || code > 0xff ? ch : `&#x${hex(code, 2)};`;
+  }).join("");
+}
+
+export function encodeJsString(value: string): string {
+  return Array.from(value, (ch) => {
+    if (isAlphanumeric(ch)) return ch;
+    const code = ch.codePointAt(0)!;
+    if (code < 0x100) return `\\x${hex(code, 2)}`;
+    if (code < 0x10000) return `\\u${hex(code, 4)}`;
+    return `\\u{${hex(code, 1)}}`;
+  }).join("");
+}
+
+export function encodeUrlParam(value: string): string {
+  // encodeURIComponent leaves !'()* alone; ' in particular breaks single-quoted attributes
+  return encodeURIComponent(value).replace(/[!'()*]/g, (ch) => `%${hex(ch.charCodeAt(0), 2)}`);
+}
+
+const SAFE_URL_SCHEMES = ["http:", "https:"];
+
+/**
+ * For a whole URL in href or src. The scheme is read the way the browser
+ * reads it (control characters and whitespace stripped, case ignored), so
+ * " JaVa\tScript:" is caught; anything but http/https becomes "#".
+ */
+export function encodeSafeUrl(value: string): string {
+  // C0 controls and spaces are trimmed from both ends, tabs and newlines dropped everywhere
+  let start = 0;
+  let end = value.length;
+  while (start < end && value.charCodeAt(start) <= 0x20) start++;
+  while (end > start && value.charCodeAt(end - 1) <= 0x20) end--;
+  const normalized = value.slice(start, end).replace(/[\t\n\r]/g, "");
+  let scheme: string;
+  try {
+    // Relative URLs resolve against the page, so they stay on http(s)
+    scheme = new URL(normalized, "https://example.invalid/").protocol;
+  } catch {
+    return "#";
+  }
+  return SAFE_URL_SCHEMES.includes(scheme) ? encodeHtmlAttribute(normalized) : "#";
+}
+
+export function encodeCssValue(value: string): string {
+  // The trailing space terminates the escape so a following hex digit is not absorbed
+  return Array.from(value, (ch) => (isAlphanumeric(ch) ? ch : `\\${hex(ch.codePointAt(0)!, 1)} `)).join("");
+}
+
+export function encodeJson(value: string): string {
+  return JSON.stringify(value)
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/&/g, "\\u0026")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+}
+
+export const OUTPUT_CONTEXTS: Array<{
+  id: OutputContext;
+  label: string;
+  description: string;
+  /** Where the encoded value lands in the page */
+  template: string;
+  encode: (value: string) => string;
+}> = [
+  {
+    id: "html-body",
+    label: "HTML body",
+    description: "Testo tra tag HTML",
+    template: "<p>Ciao, {value}</p>",
+    encode: encodeHtmlBody,
+  },
+  {
+    id: "html-attribute",
+    label: "Attributo HTML",
+    description: "Valore di un attributo, anche senza virgolette",
+    template: '<input value="{value}">',
+    encode: encodeHtmlAttribute,
+  },
+  {
+    id: "js-string",
+    label: "Stringa JS",
+    description: "Letterale stringa dentro un blocco <script> o un event handler",
+    template: "<script>var name = '{value}';</script>",
+    encode: encodeJsString,
+  },
+  {
+    id: "url-param",
+    label: "Parametro URL",
+    description: "Valore di un parametro della query string",
+    template: '<a href="/search?q={value}">cerca</a>',
+    encode: encodeUrlParam,
+  },
+  {
+    id: "css-value",
+    label: "Valore CSS",
+    description: "Valore di una proprietà CSS in un attributo style",
+    template: '<div style="color: {value}">',
+    encode: encodeCssValue,
+  },
+  {
+    id: "json",
+    label: "JSON",
+    description: "Dati JSON incorporati in un blocco <script>",
+    template: '<script>var data = {"name": {value}};</script>',
+    encode: encodeJson,
+  },
+];
+
+export function encodeForContext(context: OutputContext, value: string): string {
+  const entry = OUTPUT_CONTEXTS.find((c) => c.id === context);
+  return entry ? entry.encode(value) : encodeHtmlBody(value);
+}
+
+/** Drops an already-encoded (or deliberately raw) value into the context's template */
+export function embedInContext(context: OutputContext, value: string): string {
+  const entry = OUTPUT_CONTEXTS.find((c) => c.id === context);
+  // A replacer function, so "$&" and friends in the value are not interpreted
+  return (entry?.template ?? "{value}").replace("{value}", () => value);
+}
+
+export function renderInContext(context: OutputContext, value: string): string {
+  return embedInContext(context, encodeForContext(context, value));
+}
+
+export interface WrongEncoderDemo {
+  id: string;
+  title: string;
+  explanation: string;
+  payload: string;
+  template: string;
+  wrong: { label: string; encode: (value: string) => string };
+  right: { label: string; encode: (value: string) => string };
+  /** Parses the rendered markup and reports whether the payload escaped its context */
+  isExploited: (doc: Document) => boolean;
+}
+
+const hasInjectedHandler = (doc: Document) =>
+  Array.from(doc.querySelectorAll("*")).some((el) => Array.from(el.attributes).some((a) => a.name.startsWith("on")));
+
+export const WRONG_ENCODER_DEMOS: WrongEncoderDemo[] = [
+  {
+    id: "unquoted-attribute",
+    title: "HTML body encoding in un attributo senza virgolette",
+    explanation: "Spazi e = non sono toccati: il payload aggiunge un nuovo attributo onfocus.",
+    payload: "x onfocus=alert(1) autofocus",
+    template: "<input value={value}>",
+    wrong: { label: "HTML body", encode: encodeHtmlBody },
+    right: { label: "Attributo HTML", encode: encodeHtmlAttribute },
+    isExploited: (doc) => hasInjectedHandler(doc),
+  },
+  {
+    id: "event-handler",
+    title: "HTML encoding dentro un event handler",
+    explanation:
+      "Il browser decodifica le entità dell'attributo PRIMA di eseguire il JavaScript: &#x27; torna ad essere un apice.",
+    payload: "');alert(1);//",
+    template: "<a href=\"#\" onclick=\"greet('{value}')\">saluta</a>",
+    wrong: { label: "HTML body", encode: encodeHtmlBody },
+    right: { label: "Stringa JS", encode: encodeJsString },
+    isExploited: (doc) => {
+      const handler = doc.querySelector("a")?.getAttribute("onclick") ?? "";
+      // Still a single call with a single string literal?
+      return !/^greet\('(?:[^'\\]|\\.)*'\)$/.test(handler);
+    },
+  },
+  {
+    id: "href-scheme",
+    title: "Attribute encoding per un URL completo",
+    explanation: "Il browser decodifica le entità prima di leggere l'URL: javascript: resta javascript:. Serve validare lo schema.",
+    payload: "javascript:alert(1)",
+    template: '<a href="{value}">profilo</a>',
+    wrong: { label: "Attributo HTML", encode: encodeHtmlAttribute },
+    right: { label: "URL con allowlist dello schema", encode: encodeSafeUrl },
+    isExploited: (doc) =>
+      (doc.querySelector("a")?.getAttribute("href") ?? "").trim().toLowerCase().startsWith("javascript:"),
+  },
+  {
+    id: "json-in-script",
+    title: "JSON.stringify dentro <script>",
+    explanation: "JSON.stringify non tocca </script>: il parser HTML chiude il blocco prima del motore JS.",
+    payload: "</script><img src=x onerror=alert(1)>",
+    template: "<script>var data = {value};</script>",
+    wrong: { label: "JSON.stringify", encode: (value) => JSON.stringify(value) },
+    right: { label: "JSON", encode: encodeJson },
+    isExploited: (doc) => hasInjectedHandler(doc),
+  },
+];
+
+export function runWrongEncoderDemo(demo: WrongEncoderDemo, payload = demo.payload) {
+  const parser = new DOMParser();
+  const render = (encode: (value: string) => string) => {
+    const markup = demo.template.replace("{value}", () => encode(payload));
+    return { markup, exploited: demo.isExploited(parser.parseFromString(markup, "text/html")) };
+  };
+  return { wrong: render(demo.wrong.encode), right: render(demo.right.encode) };
+}
@@ -0,0 +1,146 @@
+import { z } from "zod";
+import {
+  createRateLimiter,
+  type Clock,
+  type RateLimitAlgorithm,
+  type RateLimitDecision,
+  type RateLimiter,
+} from "@/lib/rateLimiter";
+
+/**
+ * Per-endpoint rate limit policies
+ *
+ * EDUCATIONAL NOTE:
+ * One global threshold never fits a whole service:
+ * - /login must be very strict (brute force, credential stuffing)
+ * - /api/search is expensive, so it gets a moderate budget
+ * - static assets are cheap and requested in bulk, so they get a generous one
+ * Policies are matched in order and the first matching route wins,
+ * like routes in Express or location blocks evaluated top to bottom.
+ */
+
+export interface EndpointPolicy {
+  id: string;
+  /** Exact path, a prefix ending in "*", or "*" for a catch-all */
+  route: string;
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  windowSeconds: number;
+}
+
+const ALGORITHM_IDS = ["fixed-window", "sliding-window", "token-bucket", "leaky-bucket"] as const;
+
+export const endpointPolicySchema = z.object({
+  id: z.string().min(1),
+  route: z
+    .string()
+    .trim()
+    .regex(/^(\*|\/[^\s*]*\*?)$/, "La route deve iniziare con / e può terminare con * (es. /static/*)"),
+  algorithm: z.enum(ALGORITHM_IDS),
+  limit: z.number().int().min(1).max(1000),
+  windowSeconds: z.number().int().min(1).max(3600),
+});
+
+const policySetSchema = z.object({
+  version: z.literal(1),
+  name: z.string().optional(),
+  policies: z.array(endpointPolicySchema).superRefine((policies, ctx) => {
+    // The id keys each policy's counters: two policies must never share one
+    const seen = new Set<string>();
+    policies.forEach((p, i) => {
+      if (seen.has(p.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [i, "id"],
+          message: `id "${p.id}" già usato da un'altra policy`,
+        });
+      }
+      seen.add(p.id);
+    });
+  }),
+});
+
+/** "/static/*" matches any path under /static/, "*" matches everything */
+export function matchRoute(route: string, path: string): boolean {
+  if (route === "*") return true;
+  if (route.endsWith("*")) return path.startsWith(route.slice(0, -1));
+  return path === route;
+}
+
+export function findPolicy(policies: EndpointPolicy[], path: string): EndpointPolicy | undefined {
+  return policies.find((p) => matchRoute(p.route, path));
+}
+
+/** Unique id derived from the route, e.g. "api-upload-2" */
+export function policyIdFor(route: string, policies: EndpointPolicy[]): string {
+  const base = route.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "policy";
+  let id = base;
+  for (let n = 2; policies.some((p) => p.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+export function serializePolicies(policies: EndpointPolicy[], name?: string): string {
+  return JSON.stringify({ version: 1, name, policies }, null, 2);
+}
+
+export function parsePolicies(json: string): { ok: true; policies: EndpointPolicy[]; name?: string } | { ok: false; error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { ok: false, error: "JSON non valido" };
+  }
+  const result = policySetSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { ok: false, error: `${issue.path.join(".") || "root"}: ${issue.message}` };
+  }
+  return { ok: true, policies: result.data.policies as EndpointPolicy[], name: result.data.name };
+}
+
+export const POLICY_PRESETS: Array<{ name: string; policies: EndpointPolicy[] }> = [
+  {
+    name: "Web app classica",
+    policies: [
+      { id: "login", route: "/login", algorithm: "sliding-window", limit: 5, windowSeconds: 60 },
+      { id: "search", route: "/api/search", algorithm: "token-bucket", limit: 20, windowSeconds: 10 },
+      { id: "api", route: "/api/*", algorithm: "fixed-window", limit: 100, windowSeconds: 60 },
+      { id: "static", route: "/static/*", algorithm: "leaky-bucket", limit: 500, windowSeconds: 10 },
+    ],
+  },
+  {
+    name: "API pubblica",
+    policies: [
+      { id: "token", route: "/oauth/token", algorithm: "sliding-window", limit: 10, windowSeconds: 60 },
+      { id: "write", route: "/api/orders", algorithm: "token-bucket", limit: 10, windowSeconds: 60 },
+      { id: "default", route: "*", algorithm: "fixed-window", limit: 60, windowSeconds: 60 },
+    ],
+  },
+];
+
+export const SAMPLE_PATHS = ["/login", "/api/search", "/api/users", "/static/app.js", "/oauth/token", "/api/orders"];
+
+export interface EndpointRateLimiter {
+  /** Runs a request against the first matching policy; unmatched paths are not limited */
+  consume(path: string): { policy?: EndpointPolicy; decision?: RateLimitDecision };
+  peek(policyId: string): RateLimitDecision | undefined;
+}
+
+/** One limiter per policy, each with the policy's own algorithm */
+export function createEndpointRateLimiter(policies: EndpointPolicy[], clock?: Clock): EndpointRateLimiter {
+  const limiters = new Map<string, RateLimiter>(
+    policies.map((p) => [
+      p.id,
+      createRateLimiter(p.algorithm, { limit: p.limit, windowMs: p.windowSeconds * 1000, clock }),
+    ]),
+  );
+
+  return {
+    consume(path) {
+      const policy = findPolicy(policies, path);
+      if (!policy) return {};
+      return { policy, decision: limiters.get(policy.id)!.consume() };
+    },
+    peek: (policyId) => limiters.get(policyId)?.peek(),
+  };
+}
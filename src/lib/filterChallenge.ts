@@ -0,0 +1,117 @@
+import { DANGEROUS_PATTERNS } from "@/lib/dangerousPatterns";
+import { sanitizeHtml, type SanitizerPolicy } from "@/lib/htmlSanitizer";
+
+/**
+ * Filter-bypass challenge: escalating XSS filters to defeat
+ *
+ * EDUCATIONAL NOTE:
+ * Each blacklist level fixes the previous level's bypass and introduces
+ * (or keeps) another one, because it reasons about the STRING while the
+ * browser executes the PARSED DOM. The last level inverts the approach:
+ * parse the input and keep only what is explicitly allowed. There is
+ * nothing left to forget.
+ */
+
+export interface FilterLevel {
+  id: number;
+  name: string;
+  description: string;
+  hints: string[];
+  filter: (input: string) => string;
+}
+
+const stripUntilStable = (input: string, patterns: RegExp[]) => {
+  let previous: string;
+  let output = input;
+  do {
+    previous = output;
+    for (const pattern of patterns) output = output.replace(pattern, "");
+  } while (output !== previous);
+  return output;
+};
+
+// Equivalent to parsePolicy("b, i, em, strong, p, br, a[href http https only]")
+const CHALLENGE_POLICY: SanitizerPolicy = {
+  tags: { b: {}, i: {}, em: {}, strong: {}, p: {}, br: {}, a: { href: { schemes: ["http", "https"], absoluteOnly: true } } },
+};
+
+export const FILTER_LEVELS: FilterLevel[] = [
+  {
+    id: 1,
+    name: "Rimuove <script>",
+    description: "Elimina i tag <script> e </script> scritti in minuscolo, una sola volta",
+    hints: [
+      "Il filtro confronta la stringa esatta: il parser HTML è case-insensitive.",
+      "Non serve un tag <script> per eseguire codice: pensa a un'immagine che non si carica.",
+    ],
+    filter: (input) => input.replace(/<script>/g, "").replace(/<\/script>/g, ""),
+  },
+  {
+    id: 2,
+    name: "Blacklist DANGEROUS_PATTERNS",
+    description: "La blacklist del simulatore: tag script, javascript:, handler on*=, iframe",
+    hints: [
+      "Guarda esattamente come la regex riconosce il tag di chiusura di <script>.",
+      "Per il parser HTML, </script > (con uno spazio) chiude comunque lo script.",
+    ],
+    filter: (input) => DANGEROUS_PATTERNS.reduce((out, { pattern }) => out.replace(pattern, "[BLOCKED]"), input),
+  },
+  {
+    id: 3,
+    name: "Blacklist ricorsiva",
+    description: "Rimuove script, iframe, javascript: e ' on*=' ripetendo finché l'input non cambia più",
+    hints: [
+      "La regex degli handler richiede uno spazio prima di 'on'.",
+      "Tra il nome del tag e un attributo il parser accetta anche uno slash: <svg/onload=...>",
+    ],
+    filter: (input) =>
+      stripUntilStable(input, [/<script[\s\S]*?<\/script\s*>/gi, /<iframe/gi, /\son\w+\s*=/gi, /javascript:/gi]),
+  },
+  {
+    id: 4,
+    name: "Blacklist completa",
+    description: "Rimuove ogni <script, <iframe, qualunque on*= e javascript:, in modo ricorsivo",
+    hints: [
+      "Niente esecuzione automatica: ma l'utente può ancora cliccare un link nell'anteprima.",
+      "Il browser decodifica le entità negli attributi prima di leggere l'URL: javascript&#58;",
+    ],
+    filter: (input) => stripUntilStable(input, [/<script/gi, /<iframe/gi, /on\w+\s*=/gi, /javascript:/gi]),
+  },
+  {
+    id: 5,
+    name: "Allowlist",
+    description: "Analizza l'HTML e mantiene solo b, i, em, strong, p, br e a[href http(s)]",
+    hints: [
+      "Questo livello è pensato per resistere: non c'è una stringa proibita da aggirare.",
+      "Un'allowlist non deve prevedere gli attacchi, solo ciò che è lecito.",
+    ],
+    filter: (input) => sanitizeHtml(input, CHALLENGE_POLICY).html,
+  },
+];
+
+/** Executable constructs left in filtered markup, found by parsing it as a browser would */
+export function executionVectors(html: string): string[] {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, "text/html");
+  const vectors: string[] = [];
+  for (const el of Array.from(doc.body.querySelectorAll("*"))) {
+    const tag = el.tagName.toLowerCase();
+    if (tag === "script" && el.textContent?.trim()) vectors.push("<script>");
+    for (const attr of Array.from(el.attributes)) {
+      if (attr.name.startsWith("on")) vectors.push(`<${tag} ${attr.name}>`);
+      else if (/^\s*javascript:/i.test(attr.value)) vectors.push(`<${tag} ${attr.name}=javascript:>`);
+    }
+  }
+  return vectors;
+}
+
+export interface LevelProgress {
+  attempts: number;
+  hintsUsed: number;
+  solved: boolean;
+}
+
+/** 100 points per level, minus 25 per hint and 5 per failed attempt, never below 10 */
+export function levelScore({ attempts, hintsUsed, solved }: LevelProgress): number {
+  if (!solved) return 0;
+  return Math.max(10, 100 - hintsUsed * 25 - Math.max(0, attempts - 1) * 5);
+}
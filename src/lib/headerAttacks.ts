@@ -0,0 +1,186 @@
+/**
+ * What each security header actually stops
+ *
+ * EDUCATIONAL NOTE:
+ * Every function here models one browser decision that a header changes:
+ * may this page be framed, may this file run as a script, what Referer is
+ * sent, may this frame use the camera. The demos call them with the header
+ * present or absent, so the difference is computed, not scripted.
+ */
+
+export type StripActor = "browser" | "attacker" | "server";
+
+export interface StripStep {
+  actor: StripActor;
+  text: string;
+  /** Whether this hop is encrypted */
+  secure: boolean;
+}
+
+export type ReferrerPolicy =
+  | "no-referrer"
+  | "no-referrer-when-downgrade"
+  | "origin"
+  | "origin-when-cross-origin"
+  | "same-origin"
+  | "strict-origin"
+  | "strict-origin-when-cross-origin"
+  | "unsafe-url";
+
+/**
+ * The policy a browser applied before 2020 when the header was missing.
+ * Current browsers default to strict-origin-when-cross-origin, but pages
+ * can still opt out with a <meta name="referrer">, and old clients exist.
+ */
+export const LEGACY_REFERRER_POLICY: ReferrerPolicy = "no-referrer-when-downgrade";
+
+const REFERRER_POLICIES: ReferrerPolicy[] = [
+  "no-referrer",
+  "no-referrer-when-downgrade",
+  "origin",
+  "origin-when-cross-origin",
+  "same-origin",
+  "strict-origin",
+  "strict-origin-when-cross-origin",
+  "unsafe-url",
+];
+
+/** X-Frame-Options check: may a page from pageOrigin render inside a frame on parentOrigin? */
+export function frameAllowed(xFrameOptions: string | null, parentOrigin: string, pageOrigin: string): boolean {
+  const value = xFrameOptions?.trim().toUpperCase();
+  if (value === "DENY") return false;
+  if (value === "SAMEORIGIN") return parentOrigin === pageOrigin;
+  return true;
+}
+
+const JAVASCRIPT_MIME = /^(text|application)\/(javascript|ecmascript|x-javascript)$/;
+
+/**
+ * Whether a file served with contentType runs when loaded by <script src>.
+ * Without nosniff, legacy browsers sniff the body and run anything that
+ * looks like code; modern ones still refuse image, audio and video types.
+ */
+export function scriptExecutes(contentType: string, nosniff: boolean): { executes: boolean; message: string } {
+  const mime = contentType.split(";")[0].trim().toLowerCase();
+  if (JAVASCRIPT_MIME.test(mime)) return { executes: true, message: "MIME JavaScript: eseguito" };
+  if (nosniff) {
+    return {
+      executes: false,
+      message: `Refused to execute script because its MIME type ('${mime}') is not executable, and strict MIME type checking is enabled.`,
+    };
+  }
+  if (/^(image|audio|video)\//.test(mime)) {
+    return { executes: false, message: `MIME ${mime} bloccato anche senza nosniff` };
+  }
+  return { executes: true, message: `MIME ${mime} ignorato: il browser ha "annusato" il contenuto e lo esegue` };
+}
+
+/** The hops of an SSL-stripping attack on a user who types a bare domain */
+export function sslStripSteps(host: string, hsts: boolean): StripStep[] {
+  if (hsts) {
+    return [
+      { actor: "browser", text: `L'utente digita ${host}`, secure: false },
+      {
+        actor: "browser",
+        text: `${host} è nella lista HSTS (visita precedente o preload): 307 Internal Redirect a https://${host}/`,
+        secure: true,
+      },
+      { actor: "attacker", text: "Il proxy vede solo un handshake TLS e non può leggere né riscrivere nulla", secure: true },
+      { actor: "server", text: "Login su HTTPS, il cookie di sessione resta cifrato", secure: true },
+    ];
+  }
+  return [
+    { actor: "browser", text: `L'utente digita ${host}: il browser prova http://${host}/`, secure: false },
+    { actor: "attacker", text: "Il proxy sulla Wi-Fi intercetta la richiesta in chiaro", secure: false },
+    { actor: "server", text: `Il proxy apre lui la connessione https://${host}/ e riceve la pagina`, secure: true },
+    { actor: "attacker", text: 'Riscrive i link https:// in http:// e toglie "Secure" dai cookie', secure: false },
+    { actor: "browser", text: "L'utente inserisce la password in una pagina HTTP che sembra quella vera", secure: false },
+    { actor: "attacker", text: "Password e cookie di sessione catturati in chiaro", secure: false },
+  ];
+}
+
+/** The effective policy: the last token the browser recognises wins, as in the spec */
+export function parseReferrerPolicy(value: string | null): ReferrerPolicy {
+  const tokens = (value ?? "").split(",").map((t) => t.trim().toLowerCase());
+  const known = tokens.filter((t): t is ReferrerPolicy => REFERRER_POLICIES.includes(t as ReferrerPolicy));
+  return known[known.length - 1] ?? LEGACY_REFERRER_POLICY;
+}
+
+/** The Referer header sent when navigating from one URL to another, or null when omitted */
+export function refererFor(policy: ReferrerPolicy, from: string, to: string): string | null {
+  const source = new URL(from);
+  const target = new URL(to);
+  source.hash = "";
+  source.username = "";
+  source.password = "";
+  const full = source.href;
+  const origin = `${source.origin}/`;
+  const sameOrigin = source.origin === target.origin;
+  const downgrade = source.protocol === "https:" && target.protocol !== "https:";
+
+  switch (policy) {
+    case "no-referrer":
+      return null;
+    case "no-referrer-when-downgrade":
+      return downgrade ? null : full;
+    case "origin":
+      return origin;
+    case "origin-when-cross-origin":
+      return sameOrigin ? full : origin;
+    case "same-origin":
+      return sameOrigin ? full : null;
+    case "strict-origin":
+      return downgrade ? null : origin;
+    case "strict-origin-when-cross-origin":
+      return sameOrigin ? full : downgrade ? null : origin;
+    case "unsafe-url":
+      return full;
+  }
+}
+
+/** Permissions-Policy as feature -> allowlist; "self", "*" or quoted origins */
+export function parsePermissionsPolicy(value: string): Record<string, string[]> {
+  const policy: Record<string, string[]> = {};
+  for (const entry of value.split(",")) {
+    const match = entry.trim().match(/^([a-z-]+)\s*=\s*(\(([^)]*)\)|\*|self)$/i);
+    if (!match) continue;
+    const list = match[3] !== undefined ? match[3] : match[2];
+    policy[match[1].toLowerCase()] = list
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((item) => item.replace(/^"(.*)"$/, "$1"));
+  }
+  return policy;
+}
+
+/**
+ * May a document on origin use a feature? Without a policy most powerful
+ * features default to "self": the top page and same-origin frames get them,
+ * and a cross-origin frame gets them only through <iframe allow="...">.
+ */
+export function featureAllowed(
+  policyValue: string | null,
+  feature: string,
+  origin: string,
+  topOrigin: string,
+  iframeAllow = false
+): boolean {
+  const allowlist = policyValue === null ? undefined : parsePermissionsPolicy(policyValue)[feature];
+  if (allowlist === undefined) return origin === topOrigin || iframeAllow;
+  if (allowlist.includes("*")) return origin === topOrigin || iframeAllow;
+  if (allowlist.includes("self") && origin === topOrigin) return true;
+  return allowlist.includes(origin) && (origin === topOrigin || iframeAllow);
+}
+
+/**
+ * The legacy XSS auditor (Chrome until 78, IE, old Safari): if a script
+ * from the URL appears verbatim in the response, mode=block blanks the page.
+ */
+export function xssAuditorVerdict(xXssProtection: string | null, url: string, body: string): "blocked" | "filtered" | "executed" {
+  const value = xXssProtection?.trim() ?? "1";
+  const reflected = Array.from(decodeURIComponent(new URL(url).search).matchAll(/<script[^>]*>[\s\S]*?<\/script>/gi)).some(
+    (m) => body.includes(m[0])
+  );
+  if (!reflected || value.startsWith("0")) return "executed";
+  return /mode\s*=\s*block/i.test(value) ? "blocked" : "filtered";
+}
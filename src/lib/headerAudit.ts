@@ -0,0 +1,379 @@
+import { CSP_PRESETS, evaluateCsp } from "@/lib/csp";
+import { parseReferrerPolicy } from "@/lib/headerAttacks";
+
+/**
+ * Offline audit of raw HTTP response headers
+ *
+ * EDUCATIONAL NOTE:
+ * Paste the output of `curl -I https://your.site` and get the same kind of
+ * report securityheaders.com gives, without sending the URL anywhere.
+ * Header names are case-insensitive, a header may appear several times
+ * (Set-Cookie always does), and old servers may fold long values onto
+ * continuation lines: the parser handles all three before any check runs.
+ */
+
+export interface RawHeader {
+  name: string;
+  value: string;
+}
+
+export type HeaderParseResult =
+  | { ok: true; statusLine: string | null; headers: RawHeader[] }
+  | { ok: false; error: string };
+
+export type AuditStatus = "pass" | "warn" | "fail" | "info";
+
+export interface AuditCheck {
+  header: string;
+  status: AuditStatus;
+  message: string;
+  /** Part of the baseline in SECURITY_HEADERS, or one of the extra checks */
+  baseline: boolean;
+}
+
+export type AuditGrade = "A+" | "A" | "B" | "C" | "D" | "F";
+
+export interface HeaderAuditReport {
+  statusLine: string | null;
+  headers: RawHeader[];
+  checks: AuditCheck[];
+  score: number;
+  grade: AuditGrade;
+}
+
+export interface SecurityHeader {
+  name: string;
+  value: string;
+  enabled: boolean;
+  description: string;
+  risk: string;
+}
+
+/** The headers the viewer recommends, and the baseline an audit is graded against */
+export const SECURITY_HEADERS: SecurityHeader[] = [
+  {
+    name: "Content-Security-Policy",
+    value: CSP_PRESETS[0].policy,
+    enabled: true,
+    description: "Controlla quali risorse il browser può caricare, prevenendo XSS",
+    risk: "Senza CSP, script malevoli possono essere iniettati ed eseguiti",
+  },
+  {
+    name: "X-Frame-Options",
+    value: "DENY",
+    enabled: true,
+    description: "Previene il clickjacking bloccando l'embedding in iframe",
+    risk: "Attaccanti potrebbero ingannare utenti con UI overlay invisibili",
+  },
+  {
+    name: "X-Content-Type-Options",
+    value: "nosniff",
+    enabled: true,
+    description: "Impedisce al browser di interpretare file con MIME type errato",
+    risk: "File potrebbero essere eseguiti come script invece che scaricati",
+  },
+  {
+    name: "Strict-Transport-Security",
+    value: "max-age=31536000; includeSubDomains; preload",
+    enabled: true,
+    description: "Forza connessioni HTTPS, previene downgrade attacks",
+    risk: "Traffico potrebbe essere intercettato su connessioni HTTP",
+  },
+  {
+    name: "X-XSS-Protection",
+    value: "1; mode=block",
+    enabled: true,
+    description: "Attiva filtri XSS built-in del browser (legacy)",
+    risk: "Browser più vecchi sarebbero vulnerabili a XSS riflessi",
+  },
+  {
+    name: "Referrer-Policy",
+    value: "strict-origin-when-cross-origin",
+    enabled: true,
+    description: "Controlla quali info referrer vengono inviate",
+    risk: "URL sensibili potrebbero essere esposti a terze parti",
+  },
+  {
+    name: "Permissions-Policy",
+    value: "geolocation=(), microphone=(), camera=()",
+    enabled: true,
+    description: "Limita accesso a API browser sensibili",
+    risk: "Script malevoli potrebbero accedere a camera/microfono",
+  },
+];
+
+export const SAMPLE_RESPONSE = `HTTP/1.1 301 Moved Permanently
+Location: https://shop.example.com/
+
+HTTP/2 200
+date: Mon, 19 Oct 2026 09:12:44 GMT
+content-type: text/html; charset=utf-8
+server: nginx/1.18.0 (Ubuntu)
+x-powered-by: Express
+strict-transport-security: max-age=86400
+x-frame-options: SAMEORIGIN
+X-Frame-Options: DENY
+content-security-policy: default-src 'self'; script-src 'self' 'unsafe-inline'
+  https://cdn.example.com
+set-cookie: session=9f8e7d; Path=/; HttpOnly
+set-cookie: prefs=dark; Path=/; Secure; SameSite=Lax
+cross-origin-opener-policy: same-origin
+`;
+
+/** Headers that must appear once; a browser may drop both copies when they disagree */
+const SINGLE_VALUE_HEADERS = [
+  "X-Frame-Options",
+  "X-Content-Type-Options",
+  "Strict-Transport-Security",
+  "Referrer-Policy",
+  "Cross-Origin-Opener-Policy",
+  "Cross-Origin-Embedder-Policy",
+  "Cross-Origin-Resource-Policy",
+];
+
+const HSTS_MIN_AGE = 15552000; // 180 days, the usual minimum for a pass and for preload lists
+
+const STATUS_PENALTY: Record<AuditStatus, { baseline: number; extra: number }> = {
+  pass: { baseline: 0, extra: 0 },
+  info: { baseline: 0, extra: 0 },
+  warn: { baseline: 5, extra: 5 },
+  fail: { baseline: 20, extra: 10 },
+};
+
+const GRADE_THRESHOLDS: Array<[number, AuditGrade]> = [
+  [90, "A"],
+  [75, "B"],
+  [60, "C"],
+  [40, "D"],
+];
+
+/**
+ * Parses a header block as printed by curl -I, curl -v ("< " prefixes) or
+ * DevTools. With redirects (curl -IL) only the last response counts.
+ */
+export function parseRawHeaders(text: string): HeaderParseResult {
+  let statusLine: string | null = null;
+  let headers: RawHeader[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    if (rawLine.startsWith(">") || rawLine.startsWith("*")) continue;
+    const line = rawLine.replace(/^< ?/, "");
+    if (/^HTTP\/[\d.]+\s+\d{3}/i.test(line)) {
+      statusLine = line.trim();
+      headers = [];
+      continue;
+    }
+    if (!line.trim()) continue;
+    // obs-fold: a line starting with whitespace continues the previous value
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].value += ` ${line.trim()}`;
+      continue;
+    }
+    const match = line.match(/^([!#$%&'*+.^_`|~0-9A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!match) return { ok: false, error: `Riga non valida: "${line.trim().slice(0, 60)}"` };
+    headers.push({ name: match[1], value: match[2].trim() });
+  }
+
+  if (headers.length === 0) return { ok: false, error: "Nessun header trovato: incolla l'output di curl -I" };
+  return { ok: true, statusLine, headers };
+}
+
+/** Every value of a header, whatever the case it was sent in */
+export function headerValues(headers: RawHeader[], name: string): string[] {
+  return headers.filter((h) => h.name.toLowerCase() === name.toLowerCase()).map((h) => h.value);
+}
+
+const auditBaseline = (headers: RawHeader[]): AuditCheck[] => {
+  const checks: AuditCheck[] = [];
+  const check = (header: string, status: AuditStatus, message: string) =>
+    checks.push({ header, status, message, baseline: true });
+  const first = (name: string) => headerValues(headers, name)[0];
+  const risk = (name: string) => SECURITY_HEADERS.find((h) => h.name === name)?.risk ?? "";
+
+  const csp = headerValues(headers, "Content-Security-Policy");
+  if (csp.length === 0) {
+    check(
+      "Content-Security-Policy",
+      headerValues(headers, "Content-Security-Policy-Report-Only").length > 0 ? "warn" : "fail",
+      headerValues(headers, "Content-Security-Policy-Report-Only").length > 0
+        ? "Solo Report-Only: le violazioni vengono segnalate ma non bloccate"
+        : `Mancante. ${risk("Content-Security-Policy")}`
+    );
+  } else {
+    // Several CSP headers are all enforced: a resource must pass every one of them
+    const reports = csp.map(evaluateCsp);
+    const best = reports.reduce((a, b) => (b.score > a.score ? b : a));
+    const problems = best.findings.filter((f) => f.severity === "critical" || f.severity === "high");
+    check(
+      "Content-Security-Policy",
+      best.grade === "A" || best.grade === "B" ? "pass" : best.grade === "C" ? "warn" : "fail",
+      `Voto CSP ${best.grade} (${best.score}/100)${problems.length > 0 ? `: ${problems.map((f) => f.title).join(", ")}` : ""}`
+    );
+  }
+
+  const xfo = first("X-Frame-Options")?.toUpperCase();
+  const frameAncestors = csp.some((policy) => /(^|;)\s*frame-ancestors\s/i.test(policy));
+  if (xfo === "DENY" || xfo === "SAMEORIGIN") check("X-Frame-Options", "pass", xfo);
+  else if (xfo) check("X-Frame-Options", "warn", `"${xfo}" non è riconosciuto dai browser moderni (ALLOW-FROM è obsoleto)`);
+  else if (frameAncestors) check("X-Frame-Options", "pass", "Sostituito da frame-ancestors nella CSP");
+  else check("X-Frame-Options", "fail", `Mancante. ${risk("X-Frame-Options")}`);
+
+  const nosniff = first("X-Content-Type-Options");
+  if (nosniff?.toLowerCase() === "nosniff") check("X-Content-Type-Options", "pass", "nosniff");
+  else {
+    check(
+      "X-Content-Type-Options",
+      "fail",
+      nosniff ? `Valore "${nosniff}" non valido: l'unico è nosniff` : `Mancante. ${risk("X-Content-Type-Options")}`
+    );
+  }
+
+  const hsts = first("Strict-Transport-Security");
+  const maxAge = Number(hsts?.match(/max-age\s*=\s*"?(\d+)/i)?.[1] ?? NaN);
+  if (!hsts) check("Strict-Transport-Security", "fail", `Mancante. ${risk("Strict-Transport-Security")}`);
+  else if (!Number.isFinite(maxAge) || maxAge === 0) {
+    check("Strict-Transport-Security", "fail", "max-age assente o 0: HSTS disattivato");
+  } else if (maxAge < HSTS_MIN_AGE) {
+    const days = Math.round(maxAge / 86400);
+    check("Strict-Transport-Security", "warn", `max-age=${maxAge} (${days} giorni): usa almeno 180 giorni`);
+  } else {
+    check(
+      "Strict-Transport-Security",
+      "pass",
+      `max-age=${maxAge}${/includesubdomains/i.test(hsts) ? ", includeSubDomains" : ", senza includeSubDomains"}`
+    );
+  }
+
+  const xxp = first("X-XSS-Protection");
+  check(
+    "X-XSS-Protection",
+    "info",
+    !xxp
+      ? "Assente: va bene, i browser moderni non hanno più il filtro XSS"
+      : xxp.startsWith("0")
+        ? "0: filtro legacy disattivato, come consigliato oggi"
+        : `"${xxp}" agisce solo su browser legacy; oggi si consiglia 0 e una CSP`
+  );
+
+  const referrer = first("Referrer-Policy");
+  if (!referrer) {
+    check(
+      "Referrer-Policy",
+      "warn",
+      "Mancante: i browser moderni usano strict-origin-when-cross-origin, quelli vecchi inviano l'URL completo"
+    );
+  } else {
+    const policy = parseReferrerPolicy(referrer);
+    const leaky = policy === "unsafe-url" || policy === "no-referrer-when-downgrade";
+    check(
+      "Referrer-Policy",
+      leaky ? "warn" : "pass",
+      leaky ? `${policy}: URL completo (query string inclusa) inviato ad altri siti` : policy
+    );
+  }
+
+  const permissions = first("Permissions-Policy");
+  check("Permissions-Policy", permissions ? "pass" : "warn", permissions ?? `Mancante. ${risk("Permissions-Policy")}`);
+
+  return checks;
+};
+
+const auditExtras = (headers: RawHeader[]): AuditCheck[] => {
+  const checks: AuditCheck[] = [];
+  const check = (header: string, status: AuditStatus, message: string) =>
+    checks.push({ header, status, message, baseline: false });
+  const first = (name: string) => headerValues(headers, name)[0]?.toLowerCase();
+
+  const coop = first("Cross-Origin-Opener-Policy");
+  if (coop === "same-origin" || coop === "same-origin-allow-popups") check("Cross-Origin-Opener-Policy", "pass", coop);
+  else {
+    check(
+      "Cross-Origin-Opener-Policy",
+      "warn",
+      coop
+        ? `${coop}: le finestre aperte da altri siti mantengono un riferimento alla tua`
+        : "Mancante: un sito che apre il tuo in un popup può controllarlo (XS-Leaks, tabnabbing)"
+    );
+  }
+
+  const coep = first("Cross-Origin-Embedder-Policy");
+  if (coep === "require-corp" || coep === "credentialless") check("Cross-Origin-Embedder-Policy", "pass", coep);
+  else {
+    check(
+      "Cross-Origin-Embedder-Policy",
+      "info",
+      "Serve solo per l'isolamento cross-origin (SharedArrayBuffer, timer ad alta precisione)"
+    );
+  }
+
+  const corp = first("Cross-Origin-Resource-Policy");
+  if (corp === "same-origin" || corp === "same-site") check("Cross-Origin-Resource-Policy", "pass", corp);
+  else {
+    check(
+      "Cross-Origin-Resource-Policy",
+      corp ? "info" : "warn",
+      corp
+        ? `${corp}: chiunque può includere questa risorsa`
+        : "Mancante: altri siti possono includere le tue risposte (Spectre, XS-Leaks)"
+    );
+  }
+
+  for (const cookie of headerValues(headers, "Set-Cookie")) {
+    const [pair, ...attributes] = cookie.split(";").map((p) => p.trim());
+    const name = pair.split("=")[0];
+    const has = (attr: string) => attributes.some((a) => a.toLowerCase().split("=")[0] === attr);
+    const sameSite = attributes.find((a) => a.toLowerCase().startsWith("samesite="))?.split("=")[1]?.toLowerCase();
+    const missing = [
+      !has("secure") && "Secure",
+      !has("httponly") && "HttpOnly",
+      !sameSite && "SameSite",
+    ].filter(Boolean);
+
+    const header = `Set-Cookie: ${name}`;
+
+    if (sameSite === "none" && !has("secure")) {
+      check(header, "fail", "SameSite=None senza Secure: il browser rifiuta il cookie");
+    } else if (!has("secure")) {
+      check(header, "fail", `Manca ${missing.join(", ")}: il cookie viaggia anche su HTTP in chiaro`);
+    } else if (missing.length > 0) {
+      const note = has("httponly") ? "" : ": leggibile da JavaScript, quindi da un XSS";
+      check(header, "warn", `Manca ${missing.join(", ")}${note}`);
+    } else {
+      check(header, "pass", `Secure, HttpOnly, SameSite=${sameSite}`);
+    }
+  }
+
+  const server = headerValues(headers, "Server")[0];
+  if (server && /\d/.test(server)) check("Server", "warn", `"${server}" rivela software e versione: aiuta a cercare CVE note`);
+  else if (server) check("Server", "info", `"${server}": nessuna versione esposta`);
+
+  for (const name of ["X-Powered-By", "X-AspNet-Version", "X-AspNetMvc-Version"]) {
+    const value = headerValues(headers, name)[0];
+    if (value) check(name, "warn", `"${value}" rivela il framework: rimuovilo`);
+  }
+
+  for (const name of SINGLE_VALUE_HEADERS) {
+    const values = headerValues(headers, name);
+    if (values.length > 1) {
+      check(
+        name,
+        "warn",
+        `Inviato ${values.length} volte (${values.join(" | ")}): con valori diversi il browser può ignorarli tutti`
+      );
+    }
+  }
+
+  return checks;
+};
+
+export function gradeFor(score: number, checks: AuditCheck[]): AuditGrade {
+  if (score >= 95 && checks.every((c) => c.status !== "fail" && c.status !== "warn")) return "A+";
+  return GRADE_THRESHOLDS.find(([min]) => score >= min)?.[1] ?? "F";
+}
+
+export function auditHeaders(headers: RawHeader[], statusLine: string | null = null): HeaderAuditReport {
+  const checks = [...auditBaseline(headers), ...auditExtras(headers)];
+  const penalty = checks.reduce((sum, c) => sum + STATUS_PENALTY[c.status][c.baseline ? "baseline" : "extra"], 0);
+  const score = Math.max(0, 100 - penalty);
+  return { statusLine, headers, checks, score, grade: gradeFor(score, checks) };
+}
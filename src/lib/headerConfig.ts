@@ -0,0 +1,153 @@
+import { parseCsp } from "@/lib/csp";
+
+/**
+ * Security header snippets for common servers and hosts
+ *
+ * EDUCATIONAL NOTE:
+ * The same headers, written six ways. Two traps are worth a comment in
+ * the output itself:
+ * - nginx: add_header in a location block REPLACES every add_header of the
+ *   server block, and without "always" headers are skipped on 4xx/5xx
+ * - helmet: it sets its own defaults too; headers it does not manage
+ *   (Permissions-Policy, a non-zero X-XSS-Protection) need plain middleware
+ */
+
+export type ConfigTarget = "nginx" | "apache" | "helmet" | "caddy" | "netlify" | "vercel";
+
+export interface HeaderEntry {
+  name: string;
+  value: string;
+}
+
+export const CONFIG_TARGETS: Array<{ id: ConfigTarget; label: string; filename: string }> = [
+  { id: "nginx", label: "nginx", filename: "nginx.conf" },
+  { id: "apache", label: "Apache", filename: ".htaccess" },
+  { id: "helmet", label: "Express + helmet", filename: "server.js" },
+  { id: "caddy", label: "Caddy", filename: "Caddyfile" },
+  { id: "netlify", label: "Netlify", filename: "_headers" },
+  { id: "vercel", label: "Vercel", filename: "vercel.json" },
+];
+
+/** Escapes a value for a double-quoted string in nginx, Apache and Caddy configs */
+const quote = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+const camelCase = (name: string) => name.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+
+const nginx = (headers: HeaderEntry[]) =>
+  [
+    "# server { ... } block. A location block with its own add_header",
+    "# drops all of these: repeat them there or use an include file.",
+    ...headers.map((h) => `add_header ${h.name} ${quote(h.value)} always;`),
+  ].join("\n");
+
+const apache = (headers: HeaderEntry[]) =>
+  [
+    "# Requires mod_headers (a2enmod headers)",
+    "<IfModule mod_headers.c>",
+    ...headers.map((h) => `  Header always set ${h.name} ${quote(h.value)}`),
+    "</IfModule>",
+  ].join("\n");
+
+const caddy = (headers: HeaderEntry[]) =>
+  ["example.com {", "\theader {", ...headers.map((h) => `\t\t${h.name} ${quote(h.value)}`), "\t}", "}"].join("\n");
+
+const netlify = (headers: HeaderEntry[]) => ["/*", ...headers.map((h) => `  ${h.name}: ${h.value}`)].join("\n");
+
+const vercel = (headers: HeaderEntry[]) =>
+  JSON.stringify({ headers: [{ source: "/(.*)", headers: headers.map((h) => ({ key: h.name, value: h.value })) }] }, null, 2);
+
+/** helmet option name -> its value, for the headers helmet can set */
+const HELMET_OPTIONS: Record<string, (value: string) => string | null> = {
+  "content-security-policy": (value) => {
+    const parsed = parseCsp(value).directives;
+    const directives = parsed.map(
+      (d) => `        ${camelCase(d.name)}: [${d.sources.map((s) => JSON.stringify(s)).join(", ")}],`
+    );
+    // helmet throws at startup when default-src is missing, unless it is opted out of explicitly
+    if (!parsed.some((d) => d.name === "default-src")) {
+      directives.unshift("        defaultSrc: helmet.contentSecurityPolicy.dangerouslyDisableDefaultSrc,");
+    }
+    return ["{", "      useDefaults: false,", "      directives: {", ...directives, "      },", "    }"].join("\n");
+  },
+  "x-frame-options": (value) => {
+    const action = value.trim().toLowerCase();
+    return action === "deny" || action === "sameorigin" ? `{ action: "${action}" }` : null;
+  },
+  "x-content-type-options": (value) => (value.trim().toLowerCase() === "nosniff" ? "true" : null),
+  "strict-transport-security": (value) => {
+    const maxAge = value.match(/max-age\s*=\s*(\d+)/i)?.[1];
+    if (!maxAge) return null;
+    return `{ maxAge: ${maxAge}, includeSubDomains: ${/includesubdomains/i.test(value)}, preload: ${/preload/i.test(value)} }`;
+  },
+  "referrer-policy": (value) =>
+    `{ policy: [${value
+      .split(",")
+      .map((p) => JSON.stringify(p.trim()))
+      .join(", ")}] }`,
+  // helmet can only send "0"
+  "x-xss-protection": (value) => (value.trim() === "0" ? "true" : null),
+};
+
+const HELMET_NAMES: Record<string, string> = {
+  "content-security-policy": "contentSecurityPolicy",
+  "x-frame-options": "xFrameOptions",
+  "x-content-type-options": "xContentTypeOptions",
+  "strict-transport-security": "strictTransportSecurity",
+  "referrer-policy": "referrerPolicy",
+  "x-xss-protection": "xXssProtection",
+};
+
+const helmet = (headers: HeaderEntry[]) => {
+  const options: string[] = [];
+  const manual: HeaderEntry[] = [];
+
+  for (const [key, option] of Object.entries(HELMET_NAMES)) {
+    const header = headers.find((h) => h.name.toLowerCase() === key);
+    const value = header ? HELMET_OPTIONS[key](header.value) : null;
+    // Disabled here means helmet must not add its own default either
+    options.push(`    ${option}: ${value ?? "false"},`);
+    if (header && value === null) manual.push(header);
+  }
+  manual.push(...headers.filter((h) => !(h.name.toLowerCase() in HELMET_NAMES)));
+
+  const lines = [
+    'import express from "express";',
+    'import helmet from "helmet";',
+    "",
+    "const app = express();",
+    "",
+    "// helmet also adds its defaults for headers not listed here (COOP, CORP, X-DNS-Prefetch-Control...)",
+    "app.use(",
+    "  helmet({",
+    ...options,
+    "  })",
+    ");",
+  ];
+  if (manual.length > 0) {
+    lines.push(
+      "",
+      "// Headers helmet does not manage, or not with these values",
+      "app.use((req, res, next) => {",
+      ...manual.map((h) => `  res.setHeader(${JSON.stringify(h.name)}, ${JSON.stringify(h.value)});`),
+      "  next();",
+      "});"
+    );
+  }
+  return lines.join("\n");
+};
+
+const GENERATORS: Record<ConfigTarget, (headers: HeaderEntry[]) => string> = {
+  nginx,
+  apache,
+  helmet,
+  caddy,
+  netlify,
+  vercel,
+};
+
+/** The snippet for one target, ending with a newline like a file on disk */
+export function generateConfig(target: ConfigTarget, headers: HeaderEntry[]): string {
+  // A policy pasted over several lines must not break out of its config line
+  const normalized = headers.map((h) => ({ name: h.name.trim(), value: h.value.replace(/\s+/g, " ").trim() }));
+  return `${GENERATORS[target](normalized)}\n`;
+}
@@ -0,0 +1,180 @@
+/**
+ * Allowlist HTML sanitizer
+ *
+ * EDUCATIONAL NOTE:
+ * This is the DOMPurify approach in miniature: parse the input with the
+ * browser's own HTML parser (DOMParser documents are inert: no scripts run,
+ * nothing loads), walk the tree, and rebuild ONLY what the policy allows.
+ * Anything unknown is dropped by default, so new attack vectors do not
+ * need new rules. URL attributes are also checked against allowed schemes,
+ * after the same normalisation the browser applies (entities decoded,
+ * whitespace and control characters ignored).
+ *
+ * Policy syntax: "b, i, a[href https only], img[src https; alt]"
+ * - tags are separated by commas
+ * - attributes go in brackets, separated by ";"
+ * - URL attributes may list schemes; "only" also rejects relative URLs
+ * - tags and attributes that run code or restyle the page can never be
+ *   allowed, whatever the policy says (see DENIED_TAGS, DENIED_ATTRIBUTES)
+ */
+
+export interface AttributeRule {
+  /** Allowed URL schemes, lower-case without ":"; empty for non-URL attributes */
+  schemes: string[];
+  /** Reject relative URLs too: only absolute URLs with an allowed scheme pass */
+  absoluteOnly: boolean;
+}
+
+export interface SanitizerPolicy {
+  tags: Record<string, Record<string, AttributeRule>>;
+}
+
+export type PolicyParseResult = { ok: true; policy: SanitizerPolicy } | { ok: false; error: string };
+
+export type RemovalKind = "element" | "attribute" | "comment";
+
+export interface RemovedNode {
+  kind: RemovalKind;
+  /** e.g. "<script>" or "onclick su <img>" */
+  node: string;
+  reason: string;
+}
+
+export interface DiffNode {
+  label: string;
+  status: "kept" | "removed" | "unwrapped";
+  reason?: string;
+  children: DiffNode[];
+}
+
+export interface SanitizeResult {
+  html: string;
+  removed: RemovedNode[];
+  tree: DiffNode[];
+}
+
+const URL_ATTRIBUTES = new Set(["href", "src", "action", "formaction", "xlink:href", "poster", "cite", "background"]);
+
+// Removing the tag but keeping the content would leak code or markup as text
+const DROP_CONTENT = new Set(["script", "style", "iframe", "object", "embed", "template", "noscript", "svg", "math", "textarea", "title"]);
+
+// Each of these runs script, loads a document or rewrites the page around the output
+const DENIED_TAGS = new Set(["script", "iframe", "frame", "object", "embed", "base", "meta", "link", "style", "template", "svg", "math"]);
+
+// srcdoc is a whole HTML document; style allows CSS overlays and data exfiltration
+const DENIED_ATTRIBUTES = new Set(["srcdoc", "style"]);
+
+export const POLICY_PRESETS: Array<{ name: string; policy: string }> = [
+  { name: "Commento", policy: "b, i, em, strong, a[href https only]" },
+  { name: "Post del blog", policy: "p, br, b, i, em, strong, ul, ol, li, blockquote, code, pre, a[href http https mailto], img[src https only; alt]" },
+  { name: "Solo testo", policy: "" },
+];
+
+export function parsePolicy(text: string): PolicyParseResult {
+  const tags: SanitizerPolicy["tags"] = {};
+  // Split on commas that are not inside brackets
+  const entries = text.split(/,(?![^[]*\])/).map((e) => e.trim()).filter(Boolean);
+
+  for (const entry of entries) {
+    const match = entry.match(/^([a-zA-Z][a-zA-Z0-9-]*)\s*(?:\[([^\]]*)\])?$/);
+    if (!match) return { ok: false, error: `Voce non valida: "${entry}"` };
+    const tag = match[1].toLowerCase();
+    if (DENIED_TAGS.has(tag)) return { ok: false, error: `<${tag}> non può essere consentito` };
+    const attributes: Record<string, AttributeRule> = {};
+
+    for (const spec of (match[2] ?? "").split(";").map((s) => s.trim()).filter(Boolean)) {
+      const [name, ...words] = spec.split(/\s+/);
+      const attr = name.toLowerCase();
+      if (!/^[a-z][a-z0-9:-]*$/.test(attr)) return { ok: false, error: `Attributo non valido in "${entry}": ${name}` };
+      if (attr.startsWith("on")) return { ok: false, error: `Gli event handler non possono essere consentiti: ${attr}` };
+      if (DENIED_ATTRIBUTES.has(attr)) return { ok: false, error: `L'attributo ${attr} non può essere consentito` };
+      const absoluteOnly = words.includes("only");
+      const schemes = words.filter((w) => w !== "only").map((w) => w.toLowerCase().replace(/:$/, ""));
+      if (schemes.includes("javascript")) return { ok: false, error: "Lo schema javascript: non può essere consentito" };
+      if (schemes.length > 0 && !URL_ATTRIBUTES.has(attr)) {
+        return { ok: false, error: `${attr} non è un attributo URL: gli schemi non si applicano` };
+      }
+      attributes[attr] = {
+        schemes: URL_ATTRIBUTES.has(attr) && schemes.length === 0 ? ["http", "https"] : schemes,
+        absoluteOnly,
+      };
+    }
+    tags[tag] = attributes;
+  }
+  return { ok: true, policy: { tags } };
+}
+
+/** Why a URL attribute value is rejected, or null if it is allowed */
+function urlRejection(value: string, rule: AttributeRule): string | null {
+  // Browsers ignore these when parsing a scheme: "java\tscript:" is javascript:
+  const normalized = Array.from(value)
+    .filter((ch) => ch.charCodeAt(0) > 0x20)
+    .join("")
+    .toLowerCase();
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/)?.[1];
+  if (!scheme) return rule.absoluteOnly ? "URL relativo non consentito" : null;
+  return rule.schemes.includes(scheme) ? null : `schema URL non consentito: ${scheme}:`;
+}
+
+const describeText = (text: string) => {
+  const trimmed = text.replace(/\s+/g, " ").trim();
+  return `"${trimmed.length > 30 ? trimmed.slice(0, 30) + "…" : trimmed}"`;
+};
+
+export function sanitizeHtml(input: string, policy: SanitizerPolicy): SanitizeResult {
+  const doc = new DOMParser().parseFromString(`<!doctype html><body>${input}</body>`, "text/html");
+  const output = doc.createElement("div");
+  const removed: RemovedNode[] = [];
+
+  // Appends the sanitized copy of `node` to `parent` and returns its diff entry
+  const visit = (node: Node, parent: Element): DiffNode | null => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parent.appendChild(doc.createTextNode(node.textContent ?? ""));
+      return node.textContent?.trim() ? { label: describeText(node.textContent), status: "kept", children: [] } : null;
+    }
+    if (node.nodeType === Node.COMMENT_NODE) {
+      removed.push({ kind: "comment", node: "<!-- -->", reason: "commenti non consentiti" });
+      return { label: "<!-- -->", status: "removed", reason: "commento", children: [] };
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    const allowedAttributes = policy.tags[tag];
+
+    if (!allowedAttributes) {
+      if (DROP_CONTENT.has(tag)) {
+        const reason = "elemento non consentito, contenuto eliminato";
+        removed.push({ kind: "element", node: `<${tag}>`, reason });
+        return { label: `<${tag}>`, status: "removed", reason, children: [] };
+      }
+      const reason = "tag non consentito, contenuto mantenuto";
+      removed.push({ kind: "element", node: `<${tag}>`, reason });
+      const children = Array.from(el.childNodes).map((child) => visit(child, parent)).filter(Boolean);
+      return { label: `<${tag}>`, status: "unwrapped", reason, children };
+    }
+
+    const copy = doc.createElement(tag);
+    const attrNodes: DiffNode[] = [];
+    for (const attr of Array.from(el.attributes)) {
+      const rule = allowedAttributes[attr.name];
+      let reason: string | null = null;
+      if (attr.name.startsWith("on")) reason = "event handler";
+      else if (!rule) reason = "attributo non consentito";
+      else if (URL_ATTRIBUTES.has(attr.name)) reason = urlRejection(attr.value, rule);
+
+      if (reason) {
+        removed.push({ kind: "attribute", node: `${attr.name} su <${tag}>`, reason });
+        attrNodes.push({ label: `${attr.name}="${attr.value}"`, status: "removed", reason, children: [] });
+      } else {
+        copy.setAttribute(attr.name, attr.value);
+      }
+    }
+    parent.appendChild(copy);
+    const children = Array.from(el.childNodes).map((child) => visit(child, copy)).filter(Boolean);
+    return { label: `<${tag}>`, status: "kept", children: [...attrNodes, ...children] };
+  };
+
+  const tree = Array.from(doc.body.childNodes).map((child) => visit(child, output)).filter(Boolean);
+  return { html: output.innerHTML, removed, tree };
+}
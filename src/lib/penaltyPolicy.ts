@@ -0,0 +1,134 @@
+import type { Clock } from "@/lib/rateLimiter";
+
+/**
+ * Escalating penalties for clients that keep hitting the rate limit
+ *
+ * EDUCATIONAL NOTE:
+ * A plain limiter lets an attacker retry at exactly the allowed rate forever.
+ * Login throttling therefore escalates: each violation ("strike") extends
+ * the block, and persistent offenders are locked out entirely.
+ * - Linear: 1x, 2x, 3x the base duration
+ * - Exponential: 1x, 2x, 4x, 8x... (what OWASP recommends for logins)
+ * - Capped: exponential, but never longer than a maximum
+ * - Ban: exponential, then a permanent block after N strikes
+ * Strikes are forgiven after a quiet period, so honest users recover.
+ */
+
+export type PenaltyStrategy = "none" | "linear" | "exponential" | "capped" | "ban";
+
+export interface PenaltyPolicy {
+  strategy: PenaltyStrategy;
+  /** Block duration for the first strike */
+  baseMs: number;
+  /** Upper bound for the "capped" strategy */
+  maxMs: number;
+  /** Strike count that triggers a permanent ban for the "ban" strategy */
+  banAfterStrikes: number;
+  /** Strikes are reset after this long without a violation */
+  forgiveAfterMs: number;
+}
+
+export const PENALTY_STRATEGIES: Array<{ id: PenaltyStrategy; label: string; description: string }> = [
+  { id: "none", label: "No penalty", description: "Solo il rate limiter: si riprova appena la finestra lo consente" },
+  { id: "linear", label: "Linear", description: "Ogni violazione aggiunge la durata base al blocco" },
+  { id: "exponential", label: "Exponential", description: "Il blocco raddoppia ad ogni violazione" },
+  { id: "capped", label: "Capped exponential", description: "Raddoppia, ma non supera la durata massima" },
+  { id: "ban", label: "Permanent ban", description: "Raddoppia, poi ban permanente dopo N violazioni" },
+];
+
+export const DEFAULT_PENALTY_POLICY: PenaltyPolicy = {
+  strategy: "exponential",
+  baseMs: 10_000,
+  maxMs: 120_000,
+  banAfterStrikes: 5,
+  forgiveAfterMs: 300_000,
+};
+
+/** Block duration for the given strike (1-based); Infinity means banned */
+export function penaltyDurationMs(policy: PenaltyPolicy, strike: number): number {
+  const exponential = policy.baseMs * 2 ** (strike - 1);
+  switch (policy.strategy) {
+    case "none":
+      return 0;
+    case "linear":
+      return policy.baseMs * strike;
+    case "exponential":
+      return exponential;
+    case "capped":
+      return Math.min(exponential, policy.maxMs);
+    case "ban":
+      return strike >= policy.banAfterStrikes ? Infinity : exponential;
+  }
+}
+
+export interface Violation {
+  strike: number;
+  at: number;
+  durationMs: number;
+}
+
+export interface PenaltyStatus {
+  blocked: boolean;
+  banned: boolean;
+  /** Milliseconds left in the current block (Infinity when banned) */
+  remainingMs: number;
+  strikes: number;
+  history: Violation[];
+}
+
+export interface PenaltyTracker {
+  readonly policy: PenaltyPolicy;
+  status(): PenaltyStatus;
+  /** Records a rate limit violation and returns the penalty it earned */
+  recordViolation(): Violation;
+  reset(): void;
+}
+
+export function createPenaltyTracker(policy: PenaltyPolicy, clock: Clock = () => Date.now()): PenaltyTracker {
+  let history: Violation[] = [];
+  let blockedUntil = 0;
+
+  const forgive = () => {
+    const last = history[history.length - 1];
+    if (last && blockedUntil !== Infinity && clock() - Math.max(last.at, blockedUntil) >= policy.forgiveAfterMs) {
+      history = [];
+    }
+  };
+
+  return {
+    policy,
+    status() {
+      forgive();
+      const now = clock();
+      const remainingMs = Math.max(0, blockedUntil - now);
+      return {
+        blocked: remainingMs > 0,
+        banned: blockedUntil === Infinity,
+        remainingMs,
+        strikes: history.length,
+        history,
+      };
+    },
+    recordViolation() {
+      forgive();
+      const at = clock();
+      const strike = history.length + 1;
+      const violation = { strike, at, durationMs: penaltyDurationMs(policy, strike) };
+      history = [...history, violation];
+      blockedUntil = Math.max(blockedUntil, at + violation.durationMs);
+      return violation;
+    },
+    reset() {
+      history = [];
+      blockedUntil = 0;
+    },
+  };
+}
+
+export const formatPenalty = (ms: number): string => {
+  if (ms === Infinity) return "BAN";
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return seconds % 60 === 0 ? `${minutes}m` : `${minutes}m ${seconds % 60}s`;
+};
@@ -0,0 +1,68 @@
+import type { RateLimitDecision } from "@/lib/rateLimiter";
+
+/**
+ * Mock HTTP responses carrying rate limit headers
+ *
+ * EDUCATIONAL NOTE:
+ * A limiter is only polite if clients can see it. Two header families exist:
+ * - Legacy (GitHub, Twitter, express-rate-limit): X-RateLimit-Limit,
+ *   X-RateLimit-Remaining and X-RateLimit-Reset as a Unix timestamp
+ * - IETF draft (draft-ietf-httpapi-ratelimit-headers): RateLimit-Policy
+ *   describes the quota, RateLimit reports remaining units and reset delta
+ * Retry-After (RFC 9110) is standard and tells a 429'd client when to retry.
+ */
+
+export type RateLimitHeaderFormat = "legacy" | "standard";
+
+export interface MockHttpResponse {
+  status: 200 | 429;
+  statusText: string;
+  headers: Array<[name: string, value: string]>;
+  body: string;
+}
+
+export interface RateLimitResponseOptions {
+  format: RateLimitHeaderFormat;
+  /** Policy name for the IETF headers, e.g. the algorithm or endpoint */
+  policy: string;
+  windowMs: number;
+  /** Wall clock used for the legacy epoch reset timestamp */
+  epochNowMs?: number;
+}
+
+const toSeconds = (ms: number) => Math.ceil(ms / 1000);
+
+export function buildRateLimitResponse(
+  decision: RateLimitDecision,
+  { format, policy, windowMs, epochNowMs = Date.now() }: RateLimitResponseOptions,
+): MockHttpResponse {
+  const headers: Array<[string, string]> = [["Content-Type", "application/json"]];
+  const resetSeconds = toSeconds(decision.allowed ? decision.resetAfterMs : decision.retryAfterMs);
+
+  if (format === "legacy") {
+    headers.push(["X-RateLimit-Limit", String(decision.limit)]);
+    headers.push(["X-RateLimit-Remaining", String(decision.remaining)]);
+    if (Number.isFinite(resetSeconds)) {
+      headers.push(["X-RateLimit-Reset", String(Math.floor(epochNowMs / 1000) + resetSeconds)]);
+    }
+  } else {
+    headers.push(["RateLimit-Policy", `"${policy}";q=${decision.limit};w=${toSeconds(windowMs)}`]);
+    const reset = Number.isFinite(resetSeconds) ? `;t=${resetSeconds}` : "";
+    headers.push(["RateLimit", `"${policy}";r=${decision.remaining}${reset}`]);
+  }
+
+  if (decision.allowed) {
+    return { status: 200, statusText: "OK", headers, body: JSON.stringify({ ok: true }) };
+  }
+
+  // A permanent ban has no meaningful retry time, so Retry-After is omitted
+  if (Number.isFinite(decision.retryAfterMs)) {
+    headers.push(["Retry-After", String(toSeconds(decision.retryAfterMs))]);
+  }
+  return {
+    status: 429,
+    statusText: "Too Many Requests",
+    headers,
+    body: JSON.stringify({ error: "rate_limited", message: "Too many requests, slow down." }),
+  };
+}
@@ -0,0 +1,330 @@
+/**
+ * Rate limiting algorithms behind a common interface
+ *
+ * EDUCATIONAL NOTE:
+ * Every algorithm answers the same question ("may this request pass?")
+ * but they differ in how they treat bursts and window boundaries:
+ * - Fixed Window Counter: cheap, but allows 2x the limit across a boundary
+ * - Sliding Window Log: exact, but stores one timestamp per request
+ * - Token Bucket: allows bursts up to the capacity, then a steady refill rate
+ * - Leaky Bucket: smooths traffic to a constant outflow, no bursts
+ *
+ * The clock is injectable so the algorithms are pure and testable.
+ * In production these counters live server-side (e.g. in Redis).
+ */
+
+export type RateLimitAlgorithm = "fixed-window" | "sliding-window" | "token-bucket" | "leaky-bucket";
+
+/** Returns the current time in milliseconds */
+export type Clock = () => number;
+
+export interface RateLimiterOptions {
+  /** Maximum number of requests per window (bucket capacity for bucket algorithms) */
+  limit: number;
+  /** Window length in milliseconds (time to fully refill/drain for bucket algorithms) */
+  windowMs: number;
+  clock?: Clock;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  /** Current usage, suitable for a meter (count, or bucket fill level) */
+  used: number;
+  remaining: number;
+  /** Milliseconds before a request of the same cost would be allowed (0 if allowed) */
+  retryAfterMs: number;
+  /** Milliseconds before usage is back to zero */
+  resetAfterMs: number;
+}
+
+export interface RateLimiter {
+  readonly algorithm: RateLimitAlgorithm;
+  readonly limit: number;
+  readonly windowMs: number;
+  /** Attempts to spend `cost` units; only allowed requests are counted */
+  consume(cost?: number): RateLimitDecision;
+  /** Reports the decision `consume` would take, without changing any state */
+  peek(cost?: number): RateLimitDecision;
+  reset(): void;
+}
+
+export const RATE_LIMIT_ALGORITHMS: Array<{ id: RateLimitAlgorithm; label: string; description: string }> = [
+  {
+    id: "fixed-window",
+    label: "Fixed Window Counter",
+    description: "Conta le richieste in finestre fisse; il contatore si azzera allo scadere della finestra",
+  },
+  {
+    id: "sliding-window",
+    label: "Sliding Window Log",
+    description: "Ricorda il timestamp di ogni richiesta e conta solo quelle nell'ultima finestra",
+  },
+  {
+    id: "token-bucket",
+    label: "Token Bucket",
+    description: "Ogni richiesta consuma un token; i token si ricaricano a velocità costante",
+  },
+  {
+    id: "leaky-bucket",
+    label: "Leaky Bucket",
+    description: "Le richieste riempiono un secchio che si svuota a velocità costante",
+  },
+];
+
+const defaultClock: Clock = () => Date.now();
+
+const decision = (
+  limit: number,
+  used: number,
+  allowed: boolean,
+  retryAfterMs: number,
+  resetAfterMs: number,
+): RateLimitDecision => ({
+  allowed,
+  limit,
+  used,
+  remaining: Math.max(0, Math.floor(limit - used)),
+  retryAfterMs: allowed ? 0 : Math.max(0, Math.ceil(retryAfterMs)),
+  resetAfterMs: Math.max(0, Math.ceil(resetAfterMs)),
+});
+
+const createFixedWindow = ({ limit, windowMs, clock = defaultClock }: RateLimiterOptions): RateLimiter => {
+  let windowStart = clock();
+  let count = 0;
+
+  const roll = () => {
+    const now = clock();
+    if (now - windowStart >= windowMs) {
+      // Align to window boundaries, as a server keyed on floor(now / window) would
+      windowStart = now - ((now - windowStart) % windowMs);
+      count = 0;
+    }
+    return now;
+  };
+
+  const evaluate = (cost: number) => {
+    const now = roll();
+    const allowed = count + cost <= limit;
+    return { allowed, untilNextWindow: windowStart + windowMs - now };
+  };
+
+  return {
+    algorithm: "fixed-window",
+    limit,
+    windowMs,
+    consume(cost = 1) {
+      const { allowed, untilNextWindow } = evaluate(cost);
+      if (allowed) count += cost;
+      return decision(limit, count, allowed, untilNextWindow, count > 0 ? untilNextWindow : 0);
+    },
+    peek(cost = 1) {
+      const { allowed, untilNextWindow } = evaluate(cost);
+      return decision(limit, count, allowed, untilNextWindow, count > 0 ? untilNextWindow : 0);
+    },
+    reset() {
+      windowStart = clock();
+      count = 0;
+    },
+  };
+};
+
+const createSlidingWindow = ({ limit, windowMs, clock = defaultClock }: RateLimiterOptions): RateLimiter => {
+  let log: number[] = [];
+
+  const prune = () => {
+    const now = clock();
+    log = log.filter((t) => now - t < windowMs);
+    return now;
+  };
+
+  const evaluate = (cost: number) => {
+    const now = prune();
+    const allowed = log.length + cost <= limit;
+    // The request is allowed again once enough old entries slide out of the window
+    const blocking = log[log.length + cost - limit - 1];
+    const retryAfterMs = blocking !== undefined ? blocking + windowMs - now : windowMs;
+    const resetAfterMs = log.length > 0 ? log[log.length - 1] + windowMs - now : 0;
+    return { now, allowed, retryAfterMs, resetAfterMs };
+  };
+
+  return {
+    algorithm: "sliding-window",
+    limit,
+    windowMs,
+    consume(cost = 1) {
+      const { now, allowed, retryAfterMs } = evaluate(cost);
+      if (allowed) {
+        for (let i = 0; i < cost; i++) log.push(now);
+      }
+      const resetAfterMs = log.length > 0 ? log[log.length - 1] + windowMs - now : 0;
+      return decision(limit, log.length, allowed, retryAfterMs, resetAfterMs);
+    },
+    peek(cost = 1) {
+      const { allowed, retryAfterMs, resetAfterMs } = evaluate(cost);
+      return decision(limit, log.length, allowed, retryAfterMs, resetAfterMs);
+    },
+    reset() {
+      log = [];
+    },
+  };
+};
+
+const createTokenBucket = ({ limit, windowMs, clock = defaultClock }: RateLimiterOptions): RateLimiter => {
+  const refillPerMs = limit / windowMs;
+  let tokens = limit;
+  let lastRefill = clock();
+
+  const refill = () => {
+    const now = clock();
+    tokens = Math.min(limit, tokens + (now - lastRefill) * refillPerMs);
+    lastRefill = now;
+  };
+
+  const evaluate = (cost: number) => {
+    refill();
+    const allowed = tokens >= cost;
+    return { allowed, retryAfterMs: (cost - tokens) / refillPerMs };
+  };
+
+  const snapshot = (allowed: boolean, retryAfterMs: number) =>
+    // "used" is the number of missing tokens, so the meter fills as the bucket empties
+    decision(limit, Math.ceil(limit - tokens), allowed, retryAfterMs, (limit - tokens) / refillPerMs);
+
+  return {
+    algorithm: "token-bucket",
+    limit,
+    windowMs,
+    consume(cost = 1) {
+      const { allowed, retryAfterMs } = evaluate(cost);
+      if (allowed) tokens -= cost;
+      return snapshot(allowed, retryAfterMs);
+    },
+    peek(cost = 1) {
+      const { allowed, retryAfterMs } = evaluate(cost);
+      return snapshot(allowed, retryAfterMs);
+    },
+    reset() {
+      tokens = limit;
+      lastRefill = clock();
+    },
+  };
+};
+
+const createLeakyBucket = ({ limit, windowMs, clock = defaultClock }: RateLimiterOptions): RateLimiter => {
+  const leakPerMs = limit / windowMs;
+  let level = 0;
+  let lastLeak = clock();
+
+  const leak = () => {
+    const now = clock();
+    level = Math.max(0, level - (now - lastLeak) * leakPerMs);
+    lastLeak = now;
+  };
+
+  const evaluate = (cost: number) => {
+    leak();
+    const allowed = level + cost <= limit;
+    return { allowed, retryAfterMs: (level + cost - limit) / leakPerMs };
+  };
+
+  const snapshot = (allowed: boolean, retryAfterMs: number) =>
+    decision(limit, Math.ceil(level), allowed, retryAfterMs, level / leakPerMs);
+
+  return {
+    algorithm: "leaky-bucket",
+    limit,
+    windowMs,
+    consume(cost = 1) {
+      const { allowed, retryAfterMs } = evaluate(cost);
+      if (allowed) level += cost;
+      return snapshot(allowed, retryAfterMs);
+    },
+    peek(cost = 1) {
+      const { allowed, retryAfterMs } = evaluate(cost);
+      return snapshot(allowed, retryAfterMs);
+    },
+    reset() {
+      level = 0;
+      lastLeak = clock();
+    },
+  };
+};
+
+export function createRateLimiter(algorithm: RateLimitAlgorithm, options: RateLimiterOptions): RateLimiter {
+  switch (algorithm) {
+    case "fixed-window":
+      return createFixedWindow(options);
+    case "sliding-window":
+      return createSlidingWindow(options);
+    case "token-bucket":
+      return createTokenBucket(options);
+    case "leaky-bucket":
+      return createLeakyBucket(options);
+  }
+}
+
+/**
+ * Which property of the caller a limit is counted against.
+ * Per-IP limits are evaded by rotating IPs and punish users behind a shared NAT;
+ * per-user limits stop credential stuffing against one account;
+ * a global limit protects the server but lets one client starve everyone else.
+ */
+export type RateLimitKeyStrategy = "ip" | "user" | "api-key" | "global";
+
+export interface RateLimitSubject {
+  ip: string;
+  userId: string;
+  apiKey: string;
+}
+
+export const RATE_LIMIT_KEY_STRATEGIES: Array<{ id: RateLimitKeyStrategy; label: string }> = [
+  { id: "ip", label: "Per IP" },
+  { id: "user", label: "Per user" },
+  { id: "api-key", label: "Per API key" },
+  { id: "global", label: "Global" },
+];
+
+export const rateLimitKey = (strategy: RateLimitKeyStrategy, subject: RateLimitSubject): string => {
+  switch (strategy) {
+    case "ip":
+      return `ip:${subject.ip}`;
+    case "user":
+      return `user:${subject.userId}`;
+    case "api-key":
+      return `key:${subject.apiKey}`;
+    case "global":
+      return "global";
+  }
+};
+
+export interface KeyedRateLimiter {
+  readonly algorithm: RateLimitAlgorithm;
+  consume(key: string, cost?: number): RateLimitDecision;
+  peek(key: string, cost?: number): RateLimitDecision;
+  keys(): string[];
+  reset(): void;
+}
+
+/** One independent limiter per key, created lazily on the key's first request */
+export function createKeyedRateLimiter(algorithm: RateLimitAlgorithm, options: RateLimiterOptions): KeyedRateLimiter {
+  const limiters = new Map<string, RateLimiter>();
+
+  const get = (key: string) => {
+    let limiter = limiters.get(key);
+    if (!limiter) {
+      limiter = createRateLimiter(algorithm, options);
+      limiters.set(key, limiter);
+    }
+    return limiter;
+  };
+
+  return {
+    algorithm,
+    consume: (key, cost = 1) => get(key).consume(cost),
+    // Peeking an unseen key must not allocate state for it
+    peek: (key, cost = 1) => (limiters.get(key) ?? createRateLimiter(algorithm, options)).peek(cost),
+    keys: () => [...limiters.keys()],
+    reset: () => limiters.clear(),
+  };
+}
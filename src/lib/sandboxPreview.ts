@@ -0,0 +1,74 @@
+/**
+ * Builds documents for sandboxed XSS previews
+ *
+ * EDUCATIONAL NOTE:
+ * Rendering attacker-controlled HTML safely takes layers:
+ * - sandbox="allow-scripts" WITHOUT allow-same-origin gives the frame an
+ *   opaque origin: its scripts run, but cannot touch our DOM, storage or cookies
+ * - A CSP in the srcdoc blocks all network access (no exfiltration, no
+ *   beacons), while inline script stays allowed so the payload can fire
+ * - An instrumentation stub, injected before the payload, replaces alert,
+ *   fetch, document.cookie etc. and reports each call via postMessage
+ */
+
+export type PreviewPane = "raw" | "sanitized";
+
+export interface PreviewEvent {
+  pane: PreviewPane;
+  /** Which sink the payload reached, e.g. "alert" or "document.cookie" */
+  sink: string;
+  detail: string;
+}
+
+export const PREVIEW_SANDBOX = "allow-scripts";
+
+export const PREVIEW_CSP = [
+  "default-src 'none'",
+  "script-src 'unsafe-inline'",
+  "style-src 'unsafe-inline'",
+  "img-src data:",
+  "form-action 'none'",
+  "base-uri 'none'",
+].join("; ");
+
+export const PREVIEW_MESSAGE_TYPE = "sandbox-preview-event";
+
+// Runs inside the frame before any payload; kept ES5 and dependency-free
+const instrumentation = (pane: PreviewPane) => `
+(function () {
+  var report = function (sink, detail) {
+    parent.postMessage({ type: "${PREVIEW_MESSAGE_TYPE}", pane: "${pane}", sink: sink, detail: String(detail).slice(0, 120) }, "*");
+  };
+  window.alert = function (m) { report("alert", m); };
+  window.confirm = function (m) { report("confirm", m); return false; };
+  window.prompt = function (m) { report("prompt", m); return null; };
+  window.fetch = function (url) { report("fetch", url); return Promise.reject(new TypeError("Blocked by sandbox")); };
+  var xhrOpen = XMLHttpRequest.prototype.open;
+  XMLHttpRequest.prototype.open = function (method, url) { report("XMLHttpRequest", method + " " + url); return xhrOpen.apply(this, arguments); };
+  Object.defineProperty(document, "cookie", {
+    get: function () { report("document.cookie", "read"); return "session=sess_demo"; },
+    set: function (v) { report("document.cookie", "write " + v); }
+  });
+})();`;
+
+export function buildPreviewDocument(body: string, pane: PreviewPane): string {
+  return [
+    "<!doctype html>",
+    "<html><head>",
+    `<meta http-equiv="Content-Security-Policy" content="${PREVIEW_CSP}">`,
+    `<script>${instrumentation(pane)}</script>`,
+    "<style>body{font:12px ui-monospace,monospace;color:#ccc;background:transparent;margin:8px}</style>",
+    "</head><body>",
+    body,
+    "</body></html>",
+  ].join("\n");
+}
+
+/** Narrows an untrusted postMessage payload to a PreviewEvent */
+export function parsePreviewEvent(data: unknown): PreviewEvent | null {
+  if (typeof data !== "object" || data === null) return null;
+  const message = data as Record<string, unknown>;
+  if (message.type !== PREVIEW_MESSAGE_TYPE) return null;
+  if (message.pane !== "raw" && message.pane !== "sanitized") return null;
+  return { pane: message.pane, sink: String(message.sink), detail: String(message.detail) };
+}
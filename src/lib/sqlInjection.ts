@@ -0,0 +1,140 @@
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue } from "sql.js";
+import wasmUrl from "sql.js/dist/sql-wasm.wasm?url";
+
+/**
+ * SQL injection against a real SQLite engine (sql.js, WebAssembly)
+ *
+ * EDUCATIONAL NOTE:
+ * String concatenation mixes CODE (the query) and DATA (the user's input)
+ * in one string, so the database cannot tell them apart: a quote in the
+ * input ends the string literal and the rest is parsed as SQL.
+ * Parameterized queries send the query and the values separately; the
+ * value is bound after parsing and can never change the query's structure.
+ *
+ * sql.js's exec() runs every statement in the string, like many real
+ * drivers with multi-statement support enabled, so stacked queries
+ * ("'; DROP TABLE users; --") really execute.
+ */
+
+export type QueryMode = "concatenation" | "parameterized";
+
+export const QUERY_MODES: Array<{ id: QueryMode; label: string; description: string }> = [
+  {
+    id: "concatenation",
+    label: "Concatenazione di stringhe",
+    description: "La query è costruita incollando l'input: `... WHERE username = '` + username + `'`",
+  },
+  {
+    id: "parameterized",
+    label: "Query parametrizzata",
+    description: "La query usa segnaposto ? e i valori sono passati separatamente al database",
+  },
+];
+
+export const SAMPLE_USERS = [
+  { id: 1, username: "admin", password: "S3cur3!Adm1n", email: "admin@bank.example", role: "admin" },
+  { id: 2, username: "alice", password: "alice2024", email: "alice@example.com", role: "user" },
+  { id: 3, username: "bob", password: "hunter2", email: "bob@example.com", role: "user" },
+  { id: 4, username: "carol", password: "c4r0l!", email: "carol@example.com", role: "support" },
+];
+
+export const SQLI_PAYLOADS: Array<{ label: string; username: string; password: string }> = [
+  { label: "Login legittimo", username: "alice", password: "alice2024" },
+  { label: "Tautologia OR 1=1", username: "' OR '1'='1' --", password: "x" },
+  { label: "Commento admin'--", username: "admin'--", password: "qualsiasi" },
+  {
+    label: "UNION sulle password",
+    username: "' UNION SELECT id, username || ':' || password, email, role FROM users --",
+    password: "x",
+  },
+  { label: "Stacked DROP TABLE", username: "'; DROP TABLE users; --", password: "x" },
+];
+
+const LOGIN_COLUMNS = "id, username, email, role";
+
+export const PARAMETERIZED_QUERY = `SELECT ${LOGIN_COLUMNS} FROM users WHERE username = ? AND password = ?`;
+
+export function buildConcatenatedQuery(username: string, password: string): string {
+  return `SELECT ${LOGIN_COLUMNS} FROM users WHERE username = '${username}' AND password = '${password}'`;
+}
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+/** Loads the WebAssembly engine once, from the locally bundled .wasm file */
+export function loadSqlEngine(): Promise<SqlJsStatic> {
+  sqlJs ??= initSqlJs({ locateFile: () => wasmUrl });
+  return sqlJs;
+}
+
+export function createUsersDatabase(SQL: SqlJsStatic): Database {
+  const db = new SQL.Database();
+  db.run("CREATE TABLE users (id INTEGER PRIMARY KEY, username TEXT, password TEXT, email TEXT, role TEXT)");
+  for (const u of SAMPLE_USERS) {
+    db.run("INSERT INTO users VALUES (?, ?, ?, ?, ?)", [u.id, u.username, u.password, u.email, u.role]);
+  }
+  return db;
+}
+
+export interface LoginAttempt {
+  mode: QueryMode;
+  /** The SQL text the database actually parsed */
+  query: string;
+  params: string[];
+  columns: string[];
+  rows: SqlValue[][];
+  error?: string;
+  authenticated: boolean;
+  /** Rows returned beyond the one a correct login would return */
+  leakedRows: number;
+}
+
+export function attemptLogin(db: Database, mode: QueryMode, username: string, password: string): LoginAttempt {
+  const legitimate = SAMPLE_USERS.some((u) => u.username === username && u.password === password) ? 1 : 0;
+  const base = { mode, params: [] as string[], columns: [] as string[], rows: [] as SqlValue[][] };
+
+  try {
+    if (mode === "concatenation") {
+      const query = buildConcatenatedQuery(username, password);
+      const [first] = db.exec(query);
+      const rows = first?.values ?? [];
+      return {
+        ...base,
+        query,
+        columns: first?.columns ?? [],
+        rows,
+        authenticated: rows.length > 0,
+        leakedRows: Math.max(0, rows.length - legitimate),
+      };
+    }
+
+    const stmt = db.prepare(PARAMETERIZED_QUERY);
+    stmt.bind([username, password]);
+    const rows: SqlValue[][] = [];
+    while (stmt.step()) rows.push(stmt.get());
+    const columns = stmt.getColumnNames();
+    stmt.free();
+    return {
+      ...base,
+      query: PARAMETERIZED_QUERY,
+      params: [username, password],
+      columns,
+      rows,
+      authenticated: rows.length > 0,
+      leakedRows: Math.max(0, rows.length - legitimate),
+    };
+  } catch (e) {
+    return {
+      ...base,
+      query: mode === "concatenation" ? buildConcatenatedQuery(username, password) : PARAMETERIZED_QUERY,
+      params: mode === "parameterized" ? [username, password] : [],
+      error: e instanceof Error ? e.message : String(e),
+      authenticated: false,
+      leakedRows: 0,
+    };
+  }
+}
+
+/** Whether the users table still exists, i.e. no stacked DROP has run */
+export function usersTableExists(db: Database): boolean {
+  return db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'users'").length > 0;
+}
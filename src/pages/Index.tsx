@@ -4,6 +4,7 @@ import { RateLimitingSimulator } from "@/components/RateLimitingSimulator";
 import { CSRFProtectionSimulator } from "@/components/CSRFProtectionSimulator";
 import { InputSanitizationSimulator } from "@/components/InputSanitizationSimulator";
 import { SecurityHeadersViewer } from "@/components/SecurityHeadersViewer";
+import { SqlInjectionSimulator } from "@/components/SqlInjectionSimulator";
 import { LoginScreen } from "@/components/LoginScreen";
 import { useAuth } from "@/hooks/useAuth";
 
@@ -25,6 +26,7 @@ import { useAuth } from "@/hooks/useAuth";
  * - Rate limiting would use server-side middleware + Redis
  * - CSRF tokens would be cryptographically generated server-side
  * - Input sanitization would happen on BOTH client and server
+ * - Database access would go through parameterized queries only
  * - Security headers would be configured at the web server level
  * 
  * Remember: Security is a DESIGN CHOICE, not an afterthought!
@@ -76,6 +78,10 @@ const Index = () => {
             <div className="animate-fade-in" style={{ animationDelay: "400ms" }}>
               <SecurityHeadersViewer />
             </div>
+
+            <div className="animate-fade-in" style={{ animationDelay: "500ms" }}>
+              <SqlInjectionSimulator />
+            </div>
           </div>
         </section>
 
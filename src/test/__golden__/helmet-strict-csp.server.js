@@ -0,0 +1,31 @@
+import express from "express";
+import helmet from "helmet";
+
+const app = express();
+
+// helmet also adds its defaults for headers not listed here (COOP, CORP, X-DNS-Prefetch-Control...)
+app.use(
+  helmet({
+    contentSecurityPolicy: {
+      useDefaults: false,
+      directives: {
+        defaultSrc: helmet.contentSecurityPolicy.dangerouslyDisableDefaultSrc,
+        scriptSrc: ["'nonce-r4nd0m'", "'strict-dynamic'", "https:", "'unsafe-inline'"],
+        objectSrc: ["'none'"],
+        baseUri: ["'none'"],
+      },
+    },
+    xFrameOptions: { action: "deny" },
+    xContentTypeOptions: true,
+    strictTransportSecurity: { maxAge: 31536000, includeSubDomains: true, preload: true },
+    referrerPolicy: { policy: ["strict-origin-when-cross-origin"] },
+    xXssProtection: false,
+  })
+);
+
+// Headers helmet does not manage, or not with these values
+app.use((req, res, next) => {
+  res.setHeader("X-XSS-Protection", "1; mode=block");
+  res.setHeader("Permissions-Policy", "geolocation=(), microphone=(), camera=()");
+  next();
+});
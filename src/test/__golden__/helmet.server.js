@@ -0,0 +1,30 @@
+import express from "express";
+import helmet from "helmet";
+
+const app = express();
+
+// helmet also adds its defaults for headers not listed here (COOP, CORP, X-DNS-Prefetch-Control...)
+app.use(
+  helmet({
+    contentSecurityPolicy: {
+      useDefaults: false,
+      directives: {
+        defaultSrc: ["'self'"],
+        scriptSrc: ["'self'"],
+        styleSrc: ["'self'", "'unsafe-inline'"],
+      },
+    },
+    xFrameOptions: { action: "deny" },
+    xContentTypeOptions: true,
+    strictTransportSecurity: { maxAge: 31536000, includeSubDomains: true, preload: true },
+    referrerPolicy: { policy: ["strict-origin-when-cross-origin"] },
+    xXssProtection: false,
+  })
+);
+
+// Headers helmet does not manage, or not with these values
+app.use((req, res, next) => {
+  res.setHeader("X-XSS-Protection", "1; mode=block");
+  res.setHeader("Permissions-Policy", "geolocation=(), microphone=(), camera=()");
+  next();
+});
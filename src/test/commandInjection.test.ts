@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { callEndpoint, injectedCommands } from "@/lib/commandInjection";
+import { createVirtualFs } from "@/lib/virtualShell";
+
+describe("commandInjection", () => {
+  it("runs injected commands only when the input is concatenated into a shell string", () => {
+    const fs = createVirtualFs();
+    const payload = "8.8.8.8; cat /etc/passwd";
+
+    const naive = callEndpoint(fs, "ping", "concatenation", payload);
+    expect(naive.invocation).toBe("ping -c 1 8.8.8.8; cat /etc/passwd");
+    expect(injectedCommands(naive)).toEqual([["cat", "/etc/passwd"]]);
+    expect(naive.run?.lines.some((l) => l.text.startsWith("root:x:0:0"))).toBe(true);
+
+    const argv = callEndpoint(fs, "ping", "argv", payload);
+    expect(injectedCommands(argv)).toEqual([]);
+    expect(argv.run?.lines).toEqual([{ stream: "stderr", text: `ping: ${payload}: Name or service not known` }]);
+
+    expect(callEndpoint(fs, "ping", "jail", payload).blocked).toMatch(/Host non valido/);
+  });
+
+  it("counts command substitution as injection even though it runs first", () => {
+    const fs = createVirtualFs();
+    const call = callEndpoint(fs, "ping", "concatenation", "$(cat /home/app/.env | head -n 1)");
+    expect(injectedCommands(call).map(([program]) => program)).toEqual(["cat", "head"]);
+
+    // The injected cat runs before the endpoint's own cat, and is still the one reported
+    const download = callEndpoint(fs, "download", "concatenation", "x$(cat /etc/passwd)");
+    expect(download.run?.commands.map(([program, arg]) => `${program} ${arg}`)).toEqual([
+      "cat /etc/passwd",
+      expect.stringMatching(/^cat \/var\/www\/downloads\/xroot:x:0:0/),
+    ]);
+    expect(injectedCommands(download)).toEqual([["cat", "/etc/passwd"]]);
+  });
+
+  it("still allows path traversal with an argument array, but not inside the jail", () => {
+    const fs = createVirtualFs();
+    const argv = callEndpoint(fs, "download", "argv", "../../../etc/passwd");
+    expect(argv.invocation).toBe('["cat","/var/www/downloads/../../../etc/passwd"]');
+    expect(argv.run?.lines[0].text).toBe("root:x:0:0:root:/root:/bin/bash");
+
+    const jailed = callEndpoint(fs, "download", "jail", "../../../etc/passwd");
+    expect(jailed.run).toBeUndefined();
+    expect(jailed.blocked).toBe("/etc/passwd è fuori da /var/www/downloads");
+
+    const legit = callEndpoint(fs, "download", "jail", "./report.txt");
+    expect(legit.invocation).toBe('["cat","/var/www/downloads/report.txt"]');
+    expect(legit.run?.exitCode).toBe(0);
+  });
+
+  it("lets a concatenated download delete the web root", () => {
+    const fs = createVirtualFs();
+    callEndpoint(fs, "download", "argv", "report.txt; rm -rf /var/www #");
+    expect(fs.isDir("/var/www")).toBe(true);
+    callEndpoint(fs, "download", "concatenation", "report.txt; rm -rf /var/www #");
+    expect(fs.isDir("/var/www")).toBe(false);
+    expect(fs.isFile("/etc/passwd")).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { effectiveSources, evaluateCsp, parseCsp } from "@/lib/csp";
+
+const ids = (policy: string) => evaluateCsp(policy).findings.map((f) => f.id);
+
+describe("csp", () => {
+  it("parses directives, keeping only the first of a repeated one", () => {
+    const { directives, duplicates } = parseCsp(
+      "Default-Src 'SELF';  script-src 'self' https://CDN.example.com 'NONCE-AbC=' ; ;script-src *"
+    );
+    expect(directives).toEqual([
+      { name: "default-src", sources: ["'self'"] },
+      { name: "script-src", sources: ["'self'", "https://CDN.example.com", "'nonce-AbC='"] },
+    ]);
+    expect(duplicates).toEqual(["script-src"]);
+    expect(effectiveSources(directives, "object-src")).toEqual({ from: "default-src", sources: ["'self'"] });
+    expect(effectiveSources(directives, "base-uri")).toBeNull();
+  });
+
+  it("flags the classic weaknesses", () => {
+    expect(ids("script-src 'self' 'unsafe-inline' 'unsafe-eval' data: *.cdn.test https:")).toEqual([
+      "unsafe-inline",
+      "unsafe-eval",
+      "data-script",
+      "wildcard-script",
+      "wildcard-script",
+      "missing-object-src",
+      "missing-base-uri",
+    ]);
+    expect(ids("img-src 'self'")).toContain("missing-script-src");
+    expect(ids("")).toEqual(["empty-policy"]);
+  });
+
+  it("treats sources that nonces and 'strict-dynamic' override as legacy fallbacks", () => {
+    const severities = (policy: string) => evaluateCsp(policy).findings.map(({ id, severity }) => ({ id, severity }));
+    expect(severities("script-src 'nonce-r4nd0m' 'unsafe-inline' https:; object-src 'none'; base-uri 'none'")).toEqual([
+      { id: "unsafe-inline-fallback", severity: "low" },
+      { id: "wildcard-script", severity: "critical" },
+    ]);
+    expect(
+      severities("script-src 'nonce-r4nd0m' 'strict-dynamic' 'unsafe-inline' https:; object-src 'none'; base-uri 'none'")
+    ).toEqual([
+      { id: "unsafe-inline-fallback", severity: "low" },
+      { id: "wildcard-script", severity: "low" },
+    ]);
+    // 'strict-dynamic' needs no nonce to switch off 'unsafe-inline' and the https: allowlist
+    expect(severities("script-src 'strict-dynamic' 'unsafe-inline' https:; object-src 'none'; base-uri 'none'")).toEqual([
+      { id: "strict-dynamic-without-nonce", severity: "low" },
+      { id: "unsafe-inline-fallback", severity: "low" },
+      { id: "wildcard-script", severity: "low" },
+    ]);
+  });
+
+  it("grades from the findings' severities", () => {
+    expect(evaluateCsp("default-src 'none'; script-src 'self'; base-uri 'self'")).toMatchObject({ score: 100, grade: "A" });
+    expect(evaluateCsp("default-src 'self'; script-src 'self'; style-src 'self' 'unsafe-inline'")).toMatchObject({
+      score: 75,
+      grade: "B",
+    });
+    expect(evaluateCsp("default-src * 'unsafe-inline' 'unsafe-eval'").grade).toBe("F");
+  });
+});
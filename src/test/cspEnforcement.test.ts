@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { enforcePolicy, hashSource, SAMPLE_PAGE, urlMatchesSource, type PageResource } from "@/lib/cspEnforcement";
+
+const outcome = async (policy: string, page: PageResource[] = SAMPLE_PAGE) =>
+  Object.fromEntries((await enforcePolicy(policy, page)).map((v) => [v.resource.id, v.allowed ? v.directive ?? "-" : `✗ ${v.directive}`]));
+
+describe("cspEnforcement", () => {
+  it("matches hosts, schemes, wildcards, ports and paths like the browser", () => {
+    const url = (u: string) => new URL(u);
+    expect(urlMatchesSource(url("https://app.secureshield.test/a.js"), "'self'")).toBe(true);
+    expect(urlMatchesSource(url("http://app.secureshield.test/a.js"), "'self'")).toBe(false);
+    expect(urlMatchesSource(url("https://cdn.example.com/x.js"), "cdn.example.com")).toBe(true);
+    expect(urlMatchesSource(url("http://cdn.example.com/x.js"), "cdn.example.com")).toBe(false);
+    expect(urlMatchesSource(url("https://a.example.com/x.js"), "http://*.example.com")).toBe(true);
+    expect(urlMatchesSource(url("https://example.com/x.js"), "*.example.com")).toBe(false);
+    expect(urlMatchesSource(url("https://example.com:8443/x.js"), "https://example.com")).toBe(false);
+    expect(urlMatchesSource(url("https://example.com:8443/x.js"), "https://example.com:*")).toBe(true);
+    expect(urlMatchesSource(url("https://example.com/js/x.js"), "https://example.com/js/")).toBe(true);
+    expect(urlMatchesSource(url("https://example.com/lib/x.js"), "https://example.com/js/")).toBe(false);
+    expect(urlMatchesSource(url("data:image/png;base64,AA"), "*")).toBe(false);
+    expect(urlMatchesSource(url("data:image/png;base64,AA"), "data:")).toBe(true);
+  });
+
+  it("reports the deciding directive for each resource of the sample page", async () => {
+    expect(await outcome("default-src 'self'; script-src 'self' https://cdn.jsdelivr.net; img-src *")).toEqual({
+      app: "script-src",
+      loader: "✗ script-src",
+      analytics: "✗ script-src",
+      config: "✗ script-src",
+      injected: "✗ script-src",
+      cdn: "script-src",
+      evil: "✗ script-src",
+      onclick: "✗ script-src",
+      template: "✗ script-src",
+      theme: "✗ default-src",
+      fonts: "✗ default-src",
+      avatar: "img-src",
+      tracker: "✗ img-src",
+      video: "✗ default-src",
+    });
+  });
+
+  it("supports nonces and 'strict-dynamic' propagation", async () => {
+    const verdicts = await outcome(
+      "script-src 'nonce-r4nd0m' 'strict-dynamic' https: 'unsafe-inline'; style-src 'unsafe-inline' https:"
+    );
+    expect(verdicts).toMatchObject({
+      app: "script-src",
+      loader: "script-src",
+      analytics: "script-src",
+      config: "script-src",
+      injected: "✗ script-src",
+      cdn: "✗ script-src",
+      onclick: "✗ script-src",
+      theme: "style-src",
+      fonts: "style-src",
+      video: "-",
+    });
+    // Without 'strict-dynamic' a script inserted by a nonced one gets no trust from it
+    expect(await outcome("script-src 'nonce-r4nd0m'; default-src 'none'")).toMatchObject({
+      analytics: "✗ script-src",
+      evil: "✗ script-src",
+      avatar: "✗ default-src",
+    });
+  });
+
+  it("applies 'strict-dynamic' even without a nonce or hash", async () => {
+    const verdicts = await enforcePolicy("script-src 'strict-dynamic' 'unsafe-inline' https:", SAMPLE_PAGE);
+    expect(Object.fromEntries(verdicts.map((v) => [v.resource.id, v.allowed]))).toMatchObject({
+      app: false,
+      loader: false,
+      analytics: false,
+      config: false,
+      injected: false,
+      cdn: false,
+      evil: false,
+      onclick: false,
+    });
+    expect(verdicts.find((v) => v.resource.id === "injected")?.reason).toMatch(/ignorato .*'strict-dynamic'/);
+  });
+
+  it("allows inline code whose SHA-256 hash is in the list", async () => {
+    const code = "window.APP_CONFIG = { locale: 'it' };";
+    const hash = await hashSource(code);
+    expect(hash).toMatch(/^'sha256-[A-Za-z0-9+/]{43}='$/);
+
+    const page: PageResource[] = [
+      { id: "config", kind: "inline-script", value: code },
+      { id: "edited", kind: "inline-script", value: `${code} ` },
+    ];
+    const [config, edited] = await enforcePolicy(`script-src ${hash}`, page);
+    expect(config.allowed).toBe(true);
+    expect(edited.allowed).toBe(false);
+    expect(edited.suggestedHash).not.toBe(hash);
+  });
+});
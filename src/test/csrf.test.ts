@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import {
+  createSignedToken,
+  createSigningKey,
+  generateToken,
+  parseSignedToken,
+  timingSafeEqual,
+  verifySignedToken,
+} from "@/lib/csrf";
+
+describe("csrf", () => {
+  it("generates 256-bit hex tokens that do not repeat", () => {
+    const a = generateToken();
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+    expect(generateToken()).not.toBe(a);
+  });
+
+  it("matches only identical strings; a length mismatch is rejected up front", () => {
+    expect(timingSafeEqual("abc", "abc")).toBe(true);
+    expect(timingSafeEqual("abc", "abd")).toBe(false);
+    expect(timingSafeEqual("abc", "abcd")).toBe(false);
+  });
+
+  it("accepts a signed token only for the session it was issued to", async () => {
+    const key = await createSigningKey();
+    const signed = await createSignedToken(key, "sess_victim");
+    expect(parseSignedToken(signed.token)).toEqual({ nonce: signed.nonce, signature: signed.signature });
+    expect(await verifySignedToken(key, signed.token, "sess_victim")).toEqual({ valid: true });
+    expect(await verifySignedToken(key, signed.token, "sess_attacker")).toEqual({ valid: false, reason: "bad-signature" });
+  });
+
+  it("rejects missing, malformed and tampered tokens", async () => {
+    const key = await createSigningKey();
+    const signed = await createSignedToken(key, "sess_1");
+    expect(await verifySignedToken(key, undefined, "sess_1")).toMatchObject({ reason: "missing" });
+    expect(await verifySignedToken(key, "malicious_fake_token_xyz", "sess_1")).toMatchObject({ reason: "malformed" });
+    const tampered = `${"0".repeat(64)}.${signed.signature}`;
+    expect(await verifySignedToken(key, tampered, "sess_1")).toMatchObject({ reason: "bad-signature" });
+  });
+
+  it("a token from another signing key is rejected", async () => {
+    const signed = await createSignedToken(await createSigningKey(), "sess_1");
+    expect((await verifySignedToken(await createSigningKey(), signed.token, "sess_1")).valid).toBe(false);
+  });
+});
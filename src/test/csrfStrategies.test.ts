@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { createSignedToken, createSigningKey } from "@/lib/csrf";
+import {
+  ATTACKER_ORIGIN,
+  browserSend,
+  computeDefenseMatrix,
+  cookieJarFor,
+  CSRF_ATTACKS,
+  formatRequest,
+  CSRF_STRATEGIES,
+  legitimateIntent,
+  runCsrfScenario,
+  type CsrfContext,
+} from "@/lib/csrfStrategies";
+
+describe("csrfStrategies", () => {
+  let ctx: CsrfContext;
+
+  beforeAll(async () => {
+    const key = await createSigningKey();
+    const [victim, attacker] = await Promise.all([
+      createSignedToken(key, "sess_victim"),
+      createSignedToken(key, "sess_attacker"),
+    ]);
+    ctx = { key, sessionId: "sess_victim", token: victim.token, attackerToken: attacker.token };
+  });
+
+  it("accepts the bank's own requests under every strategy", async () => {
+    for (const { id } of CSRF_STRATEGIES) {
+      const outcome = await runCsrfScenario(id, legitimateIntent(id, ctx), ctx);
+      expect(outcome.executed, id).toBe(true);
+    }
+  });
+
+  it("withholds SameSite cookies cross-site, except Lax on top-level GET", () => {
+    const lax = cookieJarFor("samesite-lax", ctx);
+    const fields = { to: "attacker" };
+    expect(browserSend({ kind: "form-post", initiator: ATTACKER_ORIGIN, fields }, lax).request?.cookies).toEqual({});
+    expect(browserSend({ kind: "img-get", initiator: ATTACKER_ORIGIN, fields }, lax).request?.cookies).toEqual({});
+    expect(browserSend({ kind: "link-get", initiator: ATTACKER_ORIGIN, fields }, lax).request?.cookies).toEqual({
+      session: "sess_victim",
+    });
+  });
+
+  it("blocks a cross-origin custom header before it is sent", () => {
+    const result = browserSend(
+      { kind: "fetch-custom-header", initiator: ATTACKER_ORIGIN, fields: {}, headers: { "X-Requested-With": "x" } },
+      cookieJarFor("custom-header", ctx),
+    );
+    expect(result.sent).toBe(false);
+  });
+
+  it("renders the request the server receives, query string included for GETs", () => {
+    const img = CSRF_ATTACKS.find((a) => a.id === "img-get")!;
+    const { request } = browserSend(img.intent(ctx), cookieJarFor("synchronizer", ctx));
+    const raw = formatRequest(request!);
+    expect(raw.split("\n")[0]).toBe("GET /transfer?to=attacker&amount=1000 HTTP/1.1");
+    expect(raw).toContain("Cookie: session=sess_victim");
+    expect(raw).not.toContain("Origin:");
+  });
+
+  it("matches the expected defence matrix", async () => {
+    const matrix = await computeDefenseMatrix(ctx);
+    // Cookie tossing from a sibling subdomain defeats plain double-submit and SameSite, not the signed variant
+    expect(matrix["double-submit"]["subdomain-toss"]).toBe(false);
+    expect(matrix["signed-double-submit"]["subdomain-toss"]).toBe(true);
+    expect(matrix["samesite-strict"]["subdomain-toss"]).toBe(false);
+    expect(matrix["origin-check"]["subdomain-toss"]).toBe(true);
+    // Lax still sends the session cookie on a top-level GET navigation
+    expect(matrix["samesite-lax"]["top-level-get"]).toBe(false);
+    expect(matrix["samesite-strict"]["top-level-get"]).toBe(true);
+    // A token from the attacker's own session is not the victim's token
+    expect(matrix.synchronizer["stolen-token"]).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { createCsrfTokenStore } from "@/lib/csrfTokenStore";
+
+describe("csrfTokenStore", () => {
+  it("shares one token across tabs per session", () => {
+    const store = createCsrfTokenStore("per-session");
+    const tab1 = store.issue("transfer");
+    const tab2 = store.issue("transfer");
+    expect(tab2.token).toBe(tab1.token);
+    expect(store.validate(tab1.token, "transfer")).toEqual({ valid: true });
+    expect(store.validate(tab1.token, "change-email")).toEqual({ valid: true });
+  });
+
+  it("invalidates the first tab when a second tab loads, per request", () => {
+    const store = createCsrfTokenStore("per-request");
+    const tab1 = store.issue("transfer");
+    const tab2 = store.issue("transfer");
+    expect(store.validate(tab1.token, "transfer")).toEqual({ valid: false, reason: "superseded" });
+    expect(store.validate(tab2.token, "transfer")).toEqual({ valid: true });
+    expect(store.validate(tab2.token, "transfer")).toEqual({ valid: false, reason: "consumed" });
+  });
+
+  it("expires time-limited tokens independently", () => {
+    let now = 0;
+    const store = createCsrfTokenStore("time-limited", { ttlMs: 30_000, clock: () => now });
+    const old = store.issue("transfer");
+    now = 20_000;
+    const fresh = store.issue("transfer");
+    now = 30_000;
+    expect(store.validate(old.token, "transfer")).toEqual({ valid: false, reason: "expired" });
+    expect(store.validate(fresh.token, "transfer")).toEqual({ valid: true });
+  });
+
+  it("scopes per-form tokens to their form", () => {
+    const store = createCsrfTokenStore("per-form");
+    const transfer = store.issue("transfer");
+    const email = store.issue("change-email");
+    expect(email.token).not.toBe(transfer.token);
+    expect(store.issue("transfer").token).toBe(transfer.token);
+    expect(store.validate(email.token, "transfer")).toEqual({ valid: false, reason: "wrong-form" });
+    expect(store.validate("forged", "transfer")).toEqual({ valid: false, reason: "unknown" });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { analyzeInput, DANGEROUS_PATTERNS, highlightSegments } from "@/lib/dangerousPatterns";
+
+describe("dangerousPatterns", () => {
+  it("reports every match with its rule, severity and offsets", () => {
+    const input = "x<img src=a onerror=alert(1)>../../etc";
+    const findings = analyzeInput(input);
+    expect(findings.map(({ ruleId, severity, start, end }) => ({ ruleId, severity, start, end }))).toEqual([
+      { ruleId: "img-onerror", severity: "high", start: 1, end: 19 },
+      { ruleId: "event-handler", severity: "high", start: 12, end: 20 },
+      { ruleId: "path-traversal", severity: "high", start: 29, end: 32 },
+      { ruleId: "path-traversal", severity: "high", start: 32, end: 35 },
+    ]);
+    for (const f of findings) expect(input.slice(f.start, f.end)).toBe(f.match);
+    expect(findings[0].remediation).toMatch(/allowlist/);
+  });
+
+  it("returns the same findings on repeated calls, whatever lastIndex the shared patterns hold", () => {
+    const input = "'; cat /etc/passwd";
+    const first = analyzeInput(input);
+    for (const { pattern } of DANGEROUS_PATTERNS) pattern.lastIndex = 5;
+    expect(analyzeInput(input)).toEqual(first);
+    expect(first.map((f) => f.ruleId)).toEqual(["command-chaining"]);
+    for (const { pattern } of DANGEROUS_PATTERNS) pattern.lastIndex = 0;
+  });
+
+  it("splits the input into highlighted runs, the higher severity winning on overlap", () => {
+    const input = "a<script onload=1>x</script>b onclick=c";
+    const segments = highlightSegments(input, analyzeInput(input));
+    expect(segments.map((s) => s.text).join("")).toBe(input);
+    expect(segments).toEqual([
+      { text: "a" },
+      { text: "<script onload=1>x</script>", severity: "critical" },
+      { text: "b " },
+      { text: "onclick=", severity: "high" },
+      { text: "c" },
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  analyzeWithRules,
+  exportRuleSet,
+  loadRules,
+  matchRule,
+  MAX_RULE_INPUT,
+  parseRuleSet,
+  saveRules,
+  STARTER_RULES,
+  testRuleSamples,
+  validateRule,
+  type CustomRule,
+} from "@/lib/detectionRules";
+
+const regexRule = (pattern: string, flags = "g"): CustomRule => ({
+  id: "test",
+  name: "Test",
+  severity: "high",
+  enabled: true,
+  kind: "regex",
+  pattern,
+  flags,
+  samples: [],
+});
+
+describe("detectionRules", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("flags every sample payload of the starter rules", () => {
+    for (const rule of STARTER_RULES) {
+      expect(validateRule(rule), rule.name).toEqual({ ok: true });
+      expect(testRuleSamples(rule).filter((s) => !s.matched), rule.name).toEqual([]);
+    }
+  });
+
+  it("rejects invalid regexes, unknown flags and patterns matching the empty string", () => {
+    expect(validateRule(regexRule("(unclosed"))).toMatchObject({ ok: false, error: expect.stringMatching(/^Regex non valida/) });
+    expect(validateRule(regexRule("a", "gx"))).toEqual({ ok: false, error: "Flag non validi: gx" });
+    expect(validateRule(regexRule("a*"))).toEqual({ ok: false, error: "La regex corrisponde alla stringa vuota" });
+    expect(validateRule({ ...regexRule("a"), kind: "function", functionId: "eval" })).toEqual({
+      ok: false,
+      error: "Funzione sconosciuta: eval",
+    });
+  });
+
+  it("refuses nested quantifiers and only scans the start of long input", () => {
+    for (const pattern of ["(a+)+$", "(\\w*x)*y", "((ab)+c){2,}", "(?:[a-z]+\\.)+com"]) {
+      expect(validateRule(regexRule(pattern)), pattern).toMatchObject({ ok: false, error: expect.stringMatching(/ReDoS/) });
+    }
+    for (const pattern of ["(ab)+", "(a+){1}b", "[(+]+x", "\\(a+\\)+", "(a|b)?c+"]) {
+      expect(validateRule(regexRule(pattern)), pattern).toEqual({ ok: true });
+    }
+    const long = "x".repeat(MAX_RULE_INPUT) + "evil";
+    expect(matchRule(regexRule("evil"), long)).toEqual([]);
+    expect(matchRule(regexRule("evil"), "evil")).toEqual([{ start: 0, end: 4 }]);
+  });
+
+  it("falls back to the starter set when a stored rule could hang the page", () => {
+    saveRules([regexRule("(a+)+$")]);
+    expect(loadRules()).toEqual(STARTER_RULES);
+  });
+
+  it("merges enabled custom findings with the built-in patterns", () => {
+    const input = "{{7*7}} ../x";
+    const findings = analyzeWithRules(input, STARTER_RULES);
+    expect(findings.map((f) => [f.ruleId, f.match])).toEqual([
+      ["template-injection", "{{7*7}}"],
+      ["path-traversal", "../"],
+    ]);
+    const disabled = STARTER_RULES.map((r) => ({ ...r, enabled: false }));
+    expect(analyzeWithRules(input, disabled).map((f) => f.ruleId)).toEqual(["path-traversal"]);
+  });
+
+  it("round-trips rule sets through JSON and reports the first invalid rule", () => {
+    expect(parseRuleSet(exportRuleSet(STARTER_RULES))).toEqual({ ok: true, rules: STARTER_RULES });
+    const bad = JSON.stringify([STARTER_RULES[0], { ...regexRule("[z-a]"), id: "bad", name: "Bad" }]);
+    expect(parseRuleSet(bad)).toMatchObject({ ok: false, error: expect.stringMatching(/^Regola 2 \("Bad"\): Regex non valida/) });
+    expect(parseRuleSet("{nope")).toMatchObject({ ok: false });
+    expect(parseRuleSet(JSON.stringify([{ ...regexRule("a"), pattern: {} }]))).toEqual({
+      ok: false,
+      error: 'Regola 1: "pattern" deve essere una stringa',
+    });
+    expect(parseRuleSet(JSON.stringify([{ ...regexRule("a"), flags: 1 }]))).toMatchObject({ ok: false });
+  });
+
+  it("persists rules in localStorage and falls back to the starter set", () => {
+    expect(loadRules()).toEqual(STARTER_RULES);
+    saveRules([regexRule("evil")]);
+    expect(loadRules()).toEqual([regexRule("evil")]);
+    localStorage.setItem("secureshield_detection_rules", "corrupted");
+    expect(loadRules()).toEqual(STARTER_RULES);
+  });
+
+  it("falls back to the starter set when storage throws", () => {
+    const denied = () => {
+      throw new DOMException("The operation is insecure.", "SecurityError");
+    };
+    const getItem = vi.spyOn(Storage.prototype, "getItem").mockImplementation(denied);
+    const setItem = vi.spyOn(Storage.prototype, "setItem").mockImplementation(denied);
+    try {
+      expect(loadRules()).toEqual(STARTER_RULES);
+      expect(saveRules([regexRule("evil")])).toBe(false);
+    } finally {
+      getItem.mockRestore();
+      setItem.mockRestore();
+    }
+  });
+});
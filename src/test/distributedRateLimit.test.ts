@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { createDistributedRateLimiter, type DistributedRateLimiterOptions } from "@/lib/distributedRateLimit";
+
+let now = 0;
+const base: DistributedRateLimiterOptions = {
+  nodes: 3,
+  store: "shared",
+  limit: 10,
+  windowMs: 10_000,
+  replicationLagMs: 0,
+  clock: () => now,
+};
+
+const burst = (options: DistributedRateLimiterOptions, count: number) => {
+  now = 0;
+  const cluster = createDistributedRateLimiter(options);
+  for (let i = 0; i < count; i++) cluster.handle();
+  return cluster;
+};
+
+describe("distributedRateLimit", () => {
+  it("local counters let the cluster accept nodes × limit", () => {
+    expect(burst({ ...base, store: "local" }, 50).clusterAccepted()).toBe(30);
+  });
+
+  it("a shared store enforces the limit cluster-wide", () => {
+    expect(burst(base, 50).clusterAccepted()).toBe(10);
+  });
+
+  it("replication lag lets nodes decide on stale counts", () => {
+    const cluster = burst({ ...base, replicationLagMs: 1_000 }, 50);
+    expect(cluster.clusterAccepted()).toBe(30);
+    expect(cluster.nodeViews()).toEqual([10, 10, 10]);
+    now = 1_000;
+    expect(cluster.nodeViews()).toEqual([30, 30, 30]);
+  });
+
+  it("routes requests round-robin", () => {
+    now = 0;
+    const cluster = createDistributedRateLimiter(base);
+    expect([0, 1, 2, 3].map(() => cluster.handle().node)).toEqual([0, 1, 2, 0]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import {
+  encodeCssValue,
+  encodeHtmlAttribute,
+  encodeHtmlBody,
+  encodeJsString,
+  encodeJson,
+  encodeSafeUrl,
+  encodeUrlParam,
+  runWrongEncoderDemo,
+  WRONG_ENCODER_DEMOS,
+} from "@/lib/encoding";
+
+describe("encoding", () => {
+  const payload = `<img src=x onerror='a("&")'>`;
+
+  it("encodes the same payload differently per context", () => {
+    expect(encodeHtmlBody(payload)).toBe("&lt;img src=x onerror=&#x27;a(&quot;&amp;&quot;)&#x27;&gt;");
+    expect(encodeHtmlAttribute("a b=")).toBe("a&#x20;b&#x3D;");
+    expect(encodeJsString("';</script>")).toBe("\\x27\\x3B\\x3C\\x2Fscript\\x3E");
+    expect(encodeUrlParam("a b&c='")).toBe("a%20b%26c%3D%27");
+    expect(encodeCssValue("red;}")).toBe("red\\3B \\7D ");
+    expect(encodeJson("</script>\u2028")).toBe('"\\u003c/script\\u003e\\u2028"');
+  });
+
+  it("leaves no HTML, JS or URL metacharacters in attribute or JS output", () => {
+    expect(encodeHtmlAttribute(payload)).toMatch(/^[a-zA-Z0-9&#;]+$/);
+    expect(encodeJsString(payload)).toMatch(/^[a-zA-Z0-9\\]+$/);
+  });
+
+  it("keeps http(s) and relative URLs but drops any other scheme", () => {
+    expect(encodeSafeUrl("https://example.com/u?id=1")).toBe(encodeHtmlAttribute("https://example.com/u?id=1"));
+    expect(encodeSafeUrl("/profilo/42")).toBe(encodeHtmlAttribute("/profilo/42"));
+    expect(encodeSafeUrl(" JaVa\tScript:alert(1)")).toBe("#");
+    expect(encodeSafeUrl("\u0001javascript:alert(1)")).toBe("#");
+    expect(encodeSafeUrl("data:text/html,<script>alert(1)</script>")).toBe("#");
+    // An entity is not decoded here, and once attribute-encoded it stays a harmless relative path
+    expect(encodeSafeUrl("&#x6A;avascript:alert(1)")).toBe(encodeHtmlAttribute("&#x6A;avascript:alert(1)"));
+  });
+
+  it("shows every wrong encoder exploitable and every right one safe", () => {
+    for (const demo of WRONG_ENCODER_DEMOS) {
+      const result = runWrongEncoderDemo(demo);
+      expect(result.wrong.exploited, demo.id).toBe(true);
+      expect(result.right.exploited, demo.id).toBe(false);
+    }
+  });
+});
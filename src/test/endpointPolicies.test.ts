@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import {
+  createEndpointRateLimiter,
+  findPolicy,
+  parsePolicies,
+  policyIdFor,
+  POLICY_PRESETS,
+  serializePolicies,
+} from "@/lib/endpointPolicies";
+
+const policies = POLICY_PRESETS[0].policies;
+
+describe("endpointPolicies", () => {
+  it("matches the first route in order", () => {
+    expect(findPolicy(policies, "/login")?.id).toBe("login");
+    expect(findPolicy(policies, "/api/search")?.id).toBe("search");
+    expect(findPolicy(policies, "/api/users")?.id).toBe("api");
+    expect(findPolicy(policies, "/static/app.js")?.id).toBe("static");
+    expect(findPolicy(policies, "/about")).toBeUndefined();
+  });
+
+  it("derives unique ids from the route", () => {
+    expect(policyIdFor("/api/upload", policies)).toBe("api-upload");
+    expect(policyIdFor("/login", policies)).toBe("login-2");
+    expect(policyIdFor("*", [])).toBe("policy");
+  });
+
+  it("round-trips through JSON", () => {
+    const parsed = parsePolicies(serializePolicies(policies, "demo"));
+    expect(parsed).toEqual({ ok: true, policies, name: "demo" });
+  });
+
+  it("rejects malformed policy sets", () => {
+    expect(parsePolicies("{").ok).toBe(false);
+    const bad = parsePolicies(JSON.stringify({ version: 1, policies: [{ ...policies[0], route: "login" }] }));
+    expect(bad).toMatchObject({ ok: false, error: expect.stringContaining("policies.0.route") });
+    const duplicate = parsePolicies(JSON.stringify({ version: 1, policies: [policies[0], { ...policies[1], id: "login" }] }));
+    expect(duplicate).toMatchObject({ ok: false, error: expect.stringContaining("policies.1.id") });
+  });
+
+  it("limits each endpoint independently", () => {
+    const limiter = createEndpointRateLimiter(policies, () => 0);
+    for (let i = 0; i < 5; i++) limiter.consume("/login");
+    expect(limiter.consume("/login").decision?.allowed).toBe(false);
+    expect(limiter.consume("/api/search").decision?.allowed).toBe(true);
+    expect(limiter.consume("/about")).toEqual({});
+  });
+});
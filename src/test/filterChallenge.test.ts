@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { executionVectors, FILTER_LEVELS, levelScore } from "@/lib/filterChallenge";
+
+const level = (id: number) => FILTER_LEVELS.find((l) => l.id === id)!;
+
+const BYPASSES: Record<number, string> = {
+  1: "<ScRiPt>alert(1)</ScRiPt>",
+  2: "<script>alert(1)</script >",
+  3: "<svg/onload=alert(1)>",
+  4: '<a href="javascript&#58;alert(1)">premio</a>',
+};
+
+describe("filterChallenge", () => {
+  it("blocks the textbook payload at every level", () => {
+    for (const l of FILTER_LEVELS) {
+      expect(executionVectors(l.filter('<script>alert("XSS")</script>')), l.name).toEqual([]);
+    }
+  });
+
+  it("lets each blacklist level's intended bypass through", () => {
+    for (const [id, payload] of Object.entries(BYPASSES)) {
+      expect(executionVectors(level(Number(id)).filter(payload)), `level ${id}`).not.toEqual([]);
+    }
+  });
+
+  it("fixes each bypass at the next level", () => {
+    for (const [id, payload] of Object.entries(BYPASSES)) {
+      expect(executionVectors(level(Number(id) + 1).filter(payload)), `level ${Number(id) + 1}`).toEqual([]);
+    }
+  });
+
+  it("keeps allowed markup through the allowlist", () => {
+    expect(level(5).filter('<b>ciao</b> <a href="https://example.com" onclick="x()">link</a><img src=x>')).toBe(
+      '<b>ciao</b> <a href="https://example.com">link</a>'
+    );
+  });
+
+  it("scores solved levels by hints and attempts", () => {
+    expect(levelScore({ attempts: 1, hintsUsed: 0, solved: true })).toBe(100);
+    expect(levelScore({ attempts: 3, hintsUsed: 1, solved: true })).toBe(65);
+    expect(levelScore({ attempts: 30, hintsUsed: 2, solved: true })).toBe(10);
+    expect(levelScore({ attempts: 3, hintsUsed: 0, solved: false })).toBe(0);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  featureAllowed,
+  frameAllowed,
+  parsePermissionsPolicy,
+  parseReferrerPolicy,
+  refererFor,
+  scriptExecutes,
+  sslStripSteps,
+  xssAuditorVerdict,
+} from "@/lib/headerAttacks";
+
+const APP = "https://app.secureshield.test";
+
+describe("headerAttacks", () => {
+  it("decides framing and script sniffing from the headers", () => {
+    expect(frameAllowed(null, "https://evil.test", APP)).toBe(true);
+    expect(frameAllowed("deny", APP, APP)).toBe(false);
+    expect(frameAllowed("SAMEORIGIN", "https://evil.test", APP)).toBe(false);
+    expect(frameAllowed("SAMEORIGIN", APP, APP)).toBe(true);
+
+    expect(scriptExecutes("text/plain", false).executes).toBe(true);
+    expect(scriptExecutes("text/plain", true).executes).toBe(false);
+    expect(scriptExecutes("image/jpeg", false).executes).toBe(false);
+    expect(scriptExecutes("application/javascript; charset=utf-8", true).executes).toBe(true);
+
+    expect(sslStripSteps("bank.test", false).some((s) => s.actor === "attacker" && !s.secure)).toBe(true);
+    expect(sslStripSteps("bank.test", true).slice(1).every((s) => s.secure)).toBe(true);
+  });
+
+  it("computes the Referer for every referrer policy", () => {
+    const from = `${APP}/reset-password?token=s3cr3t#step2`;
+    const cross = "https://analytics.evil.test/pixel";
+    expect(refererFor(parseReferrerPolicy(null), from, cross)).toBe(`${APP}/reset-password?token=s3cr3t`);
+    expect(refererFor(parseReferrerPolicy("strict-origin-when-cross-origin"), from, cross)).toBe(`${APP}/`);
+    expect(refererFor(parseReferrerPolicy("strict-origin-when-cross-origin"), from, `${APP}/home`)).toContain("token");
+    expect(refererFor("no-referrer-when-downgrade", from, "http://evil.test/")).toBeNull();
+    expect(refererFor("same-origin", from, cross)).toBeNull();
+    expect(refererFor("unsafe-url", from, "http://evil.test/")).toContain("token");
+    // Unknown tokens are skipped; the last known one wins
+    expect(parseReferrerPolicy("no-referrer, made-up")).toBe("no-referrer");
+    expect(parseReferrerPolicy("unsafe-url, strict-origin")).toBe("strict-origin");
+  });
+
+  it("applies Permissions-Policy allowlists to the page and to cross-origin frames", () => {
+    expect(parsePermissionsPolicy('geolocation=(), camera=(self "https://meet.test"), fullscreen=*')).toEqual({
+      geolocation: [],
+      camera: ["self", "https://meet.test"],
+      fullscreen: ["*"],
+    });
+    const ads = "https://ads.example";
+    expect(featureAllowed(null, "geolocation", APP, APP)).toBe(true);
+    expect(featureAllowed(null, "geolocation", ads, APP)).toBe(false);
+    expect(featureAllowed(null, "geolocation", ads, APP, true)).toBe(true);
+    expect(featureAllowed("geolocation=()", "geolocation", APP, APP)).toBe(false);
+    expect(featureAllowed("geolocation=()", "geolocation", ads, APP, true)).toBe(false);
+    expect(featureAllowed('camera=(self "https://meet.test")', "camera", "https://meet.test", APP, true)).toBe(true);
+  });
+
+  it("models the legacy XSS auditor modes", () => {
+    const url = `${APP}/search?q=${encodeURIComponent("<script>alert(1)</script>")}`;
+    const body = "<p>Risultati per <script>alert(1)</script></p>";
+    expect(xssAuditorVerdict("1; mode=block", url, body)).toBe("blocked");
+    expect(xssAuditorVerdict(null, url, body)).toBe("filtered");
+    expect(xssAuditorVerdict("0", url, body)).toBe("executed");
+    expect(xssAuditorVerdict("1; mode=block", `${APP}/search?q=ciao`, body)).toBe("executed");
+  });
+});
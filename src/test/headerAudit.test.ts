@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { auditHeaders, headerValues, parseRawHeaders, SAMPLE_RESPONSE, type RawHeader } from "@/lib/headerAudit";
+
+const parse = (text: string): RawHeader[] => {
+  const result = parseRawHeaders(text);
+  if (result.ok === false) throw new Error(result.error);
+  return result.headers;
+};
+
+const statuses = (headers: RawHeader[]) => auditHeaders(headers).checks.map((c) => `${c.header}: ${c.status}`);
+
+describe("headerAudit", () => {
+  it("parses the last response, folded lines, duplicates and any case", () => {
+    const result = parseRawHeaders(SAMPLE_RESPONSE);
+    expect(result).toMatchObject({ ok: true, statusLine: "HTTP/2 200" });
+    const headers = parse(SAMPLE_RESPONSE);
+    expect(headerValues(headers, "Location")).toEqual([]);
+    expect(headerValues(headers, "X-FRAME-OPTIONS")).toEqual(["SAMEORIGIN", "DENY"]);
+    expect(headerValues(headers, "Content-Security-Policy")).toEqual([
+      "default-src 'self'; script-src 'self' 'unsafe-inline' https://cdn.example.com",
+    ]);
+    expect(parse("< HTTP/1.1 200 OK\n< Server: caddy\n> GET / HTTP/1.1\n")).toEqual([{ name: "Server", value: "caddy" }]);
+    expect(parseRawHeaders("not a header")).toEqual({ ok: false, error: expect.stringContaining("not a header") });
+    expect(parseRawHeaders("HTTP/1.1 200 OK\n").ok).toBe(false);
+  });
+
+  it("checks the baseline and the extra headers of the sample", () => {
+    expect(statuses(parse(SAMPLE_RESPONSE))).toEqual([
+      "Content-Security-Policy: fail",
+      "X-Frame-Options: pass",
+      "X-Content-Type-Options: fail",
+      "Strict-Transport-Security: warn",
+      "X-XSS-Protection: info",
+      "Referrer-Policy: warn",
+      "Permissions-Policy: warn",
+      "Cross-Origin-Opener-Policy: pass",
+      "Cross-Origin-Embedder-Policy: info",
+      "Cross-Origin-Resource-Policy: warn",
+      "Set-Cookie: session: fail",
+      "Set-Cookie: prefs: warn",
+      "Server: warn",
+      "X-Powered-By: warn",
+      // SAMEORIGIN passes on its own, but it was sent twice with different values
+      "X-Frame-Options: warn",
+    ]);
+    expect(auditHeaders(parse(SAMPLE_RESPONSE)).grade).toBe("F");
+  });
+
+  it("gives A+ to a complete, strict header set", () => {
+    const report = auditHeaders(
+      parse(`HTTP/2 200
+content-security-policy: default-src 'none'; script-src 'self'; base-uri 'none'; frame-ancestors 'none'
+x-content-type-options: nosniff
+strict-transport-security: max-age=63072000; includeSubDomains; preload
+referrer-policy: strict-origin-when-cross-origin
+permissions-policy: geolocation=(), camera=(), microphone=()
+cross-origin-opener-policy: same-origin
+cross-origin-resource-policy: same-origin
+set-cookie: __Host-session=1; Path=/; Secure; HttpOnly; SameSite=Strict`)
+    );
+    expect(report.checks.filter((c) => c.status === "warn" || c.status === "fail")).toEqual([]);
+    expect(report.checks.find((c) => c.header === "X-Frame-Options")?.message).toMatch(/frame-ancestors/);
+    expect(report).toMatchObject({ score: 100, grade: "A+" });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { CONFIG_TARGETS, generateConfig } from "@/lib/headerConfig";
+import { CSP_PRESETS } from "@/lib/csp";
+import { SECURITY_HEADERS } from "@/lib/headerAudit";
+
+const baseline = SECURITY_HEADERS.map(({ name, value }) => ({ name, value }));
+
+describe("headerConfig", () => {
+  it.each(CONFIG_TARGETS)("generates the baseline for $label", async ({ id, filename }) => {
+    await expect(generateConfig(id, baseline)).toMatchFileSnapshot(`./__golden__/${id}.${filename.replace(/^\./, "")}`);
+  });
+
+  it("opts helmet out of default-src explicitly for a policy without one", async () => {
+    const strict = CSP_PRESETS.find((p) => p.name === "Strict (nonce)")!;
+    const headers = baseline.map((h) => (h.name === "Content-Security-Policy" ? { ...h, value: strict.policy } : h));
+    await expect(generateConfig("helmet", headers)).toMatchFileSnapshot("./__golden__/helmet-strict-csp.server.js");
+  });
+
+  it("keeps values on one line and escapes quotes", () => {
+    const headers = [{ name: "Content-Security-Policy", value: 'default-src \'self\';\n  report-to "csp"' }];
+    expect(generateConfig("nginx", headers)).toContain(
+      'add_header Content-Security-Policy "default-src \'self\'; report-to \\"csp\\"" always;'
+    );
+    expect(generateConfig("netlify", headers)).toBe("/*\n  Content-Security-Policy: default-src 'self'; report-to \"csp\"\n");
+    expect(JSON.parse(generateConfig("vercel", headers)).headers[0].headers[0].value).toBe(
+      "default-src 'self'; report-to \"csp\""
+    );
+  });
+
+  it("turns off helmet defaults for missing headers and sets the rest by hand", () => {
+    const config = generateConfig("helmet", [
+      { name: "X-Frame-Options", value: "ALLOW-FROM https://partner.test" },
+      { name: "Cross-Origin-Opener-Policy", value: "same-origin" },
+    ]);
+    expect(config).toContain("    contentSecurityPolicy: false,");
+    expect(config).toContain("    xFrameOptions: false,");
+    expect(config).toContain('  res.setHeader("X-Frame-Options", "ALLOW-FROM https://partner.test");');
+    expect(config).toContain('  res.setHeader("Cross-Origin-Opener-Policy", "same-origin");');
+  });
+});
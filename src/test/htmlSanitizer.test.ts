@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { parsePolicy, POLICY_PRESETS, sanitizeHtml, type SanitizerPolicy } from "@/lib/htmlSanitizer";
+
+const policy = (text: string): SanitizerPolicy => {
+  const result = parsePolicy(text);
+  if (result.ok === false) throw new Error(result.error);
+  return result.policy;
+};
+
+describe("htmlSanitizer", () => {
+  it("parses tags, attributes and URL schemes", () => {
+    expect(policy("b, a[href https only], img[src; alt]").tags).toEqual({
+      b: {},
+      a: { href: { schemes: ["https"], absoluteOnly: true } },
+      img: { src: { schemes: ["http", "https"], absoluteOnly: false }, alt: { schemes: [], absoluteOnly: false } },
+    });
+    for (const preset of POLICY_PRESETS) expect(parsePolicy(preset.policy).ok, preset.name).toBe(true);
+  });
+
+  it("rejects policies that would allow script", () => {
+    expect(parsePolicy("img[onerror]")).toEqual({ ok: false, error: expect.stringContaining("onerror") });
+    expect(parsePolicy("a[href javascript]").ok).toBe(false);
+    expect(parsePolicy("b[class https]").ok).toBe(false);
+    expect(parsePolicy("<b>").ok).toBe(false);
+    for (const tag of ["script", "iframe", "frame", "object", "embed", "base", "meta", "link", "style", "template", "svg", "math"]) {
+      expect(parsePolicy(`b, ${tag.toUpperCase()}`), tag).toEqual({ ok: false, error: `<${tag}> non può essere consentito` });
+    }
+    expect(parsePolicy("base[href]").ok).toBe(false);
+    expect(parsePolicy("div[srcdoc]")).toEqual({ ok: false, error: expect.stringContaining("srcdoc") });
+    expect(parsePolicy("p[style]")).toEqual({ ok: false, error: expect.stringContaining("style") });
+    expect(parsePolicy("*[style]").ok).toBe(false);
+  });
+
+  it("keeps allowed markup and reports every removal with a reason", () => {
+    const result = sanitizeHtml(
+      '<b onclick="x()">ciao</b><script>alert(1)</script><div>testo</div><a href="http://x.test">x</a><!-- c -->',
+      policy("b, a[href https only]")
+    );
+    expect(result.html).toBe("<b>ciao</b>testo<a>x</a>");
+    expect(result.removed).toEqual([
+      { kind: "attribute", node: "onclick su <b>", reason: "event handler" },
+      { kind: "element", node: "<script>", reason: "elemento non consentito, contenuto eliminato" },
+      { kind: "element", node: "<div>", reason: "tag non consentito, contenuto mantenuto" },
+      { kind: "attribute", node: "href su <a>", reason: "schema URL non consentito: http:" },
+      { kind: "comment", node: "<!-- -->", reason: "commenti non consentiti" },
+    ]);
+    expect(result.tree.map((n) => n.status)).toEqual(["kept", "removed", "unwrapped", "kept", "removed"]);
+  });
+
+  it("normalizes URLs like the browser before checking the scheme", () => {
+    const links = policy("a[href]");
+    for (const href of ["javascript&#58;alert(1)", "java&#9;script:alert(1)", " JAVASCRIPT:alert(1)"]) {
+      expect(sanitizeHtml(`<a href="${href}">x</a>`, links).html).toBe("<a>x</a>");
+    }
+    expect(sanitizeHtml('<a href="/profile">x</a>', links).html).toBe('<a href="/profile">x</a>');
+    expect(sanitizeHtml('<a href="/profile">x</a>', policy("a[href https only]")).html).toBe("<a>x</a>");
+  });
+
+  it("escapes text so entities cannot be turned back into markup", () => {
+    expect(sanitizeHtml("&lt;img src=x onerror=alert(1)&gt;", policy("b")).html).toBe(
+      "&lt;img src=x onerror=alert(1)&gt;"
+    );
+  });
+});
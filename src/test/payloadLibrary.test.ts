@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { callEndpoint, injectedCommands } from "@/lib/commandInjection";
+import { analyzeWithRules, STARTER_RULES } from "@/lib/detectionRules";
+import { PAYLOAD_CATEGORIES, PAYLOADS, payloadsFor } from "@/lib/payloadLibrary";
+import { createVirtualFs } from "@/lib/virtualShell";
+
+describe("payloadLibrary", () => {
+  it("has unique ids and at least one payload per category", () => {
+    expect(new Set(PAYLOADS.map((p) => p.id)).size).toBe(PAYLOADS.length);
+    for (const category of PAYLOAD_CATEGORIES) {
+      expect(PAYLOADS.some((p) => p.category === category.id), category.id).toBe(true);
+    }
+  });
+
+  it("documents exactly the rules that fire on each payload", () => {
+    for (const entry of PAYLOADS) {
+      const fired = new Set(analyzeWithRules(entry.payload, STARTER_RULES).map((f) => f.ruleId));
+      expect(Array.from(fired).sort(), entry.id).toEqual([...entry.expectedDetection].sort());
+    }
+  });
+
+  it("only offers command injection payloads to the shell that actually inject", () => {
+    for (const entry of payloadsFor("ping")) {
+      const call = callEndpoint(createVirtualFs(), "ping", "concatenation", entry.payload);
+      expect(injectedCommands(call).length, entry.id).toBeGreaterThan(0);
+    }
+  });
+});
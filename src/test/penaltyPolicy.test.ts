@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createPenaltyTracker, DEFAULT_PENALTY_POLICY, penaltyDurationMs, type PenaltyStrategy } from "@/lib/penaltyPolicy";
+
+let now = 0;
+const clock = () => now;
+const policy = (strategy: PenaltyStrategy) => ({ ...DEFAULT_PENALTY_POLICY, strategy, baseMs: 1_000, maxMs: 4_000, banAfterStrikes: 4 });
+
+describe("penaltyPolicy", () => {
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it.each<[PenaltyStrategy, number[]]>([
+    ["none", [0, 0, 0, 0, 0]],
+    ["linear", [1_000, 2_000, 3_000, 4_000, 5_000]],
+    ["exponential", [1_000, 2_000, 4_000, 8_000, 16_000]],
+    ["capped", [1_000, 2_000, 4_000, 4_000, 4_000]],
+    ["ban", [1_000, 2_000, 4_000, Infinity, Infinity]],
+  ])("%s escalates as expected", (strategy, expected) => {
+    expect([1, 2, 3, 4, 5].map((strike) => penaltyDurationMs(policy(strategy), strike))).toEqual(expected);
+  });
+
+  it("blocks for the earned duration and then releases", () => {
+    const tracker = createPenaltyTracker(policy("exponential"), clock);
+    tracker.recordViolation();
+    now = 500;
+    expect(tracker.status()).toMatchObject({ blocked: true, remainingMs: 500, strikes: 1 });
+    now = 1_000;
+    expect(tracker.status().blocked).toBe(false);
+    expect(tracker.recordViolation().durationMs).toBe(2_000);
+  });
+
+  it("forgives strikes after a quiet period, but never a ban", () => {
+    const tracker = createPenaltyTracker(policy("ban"), clock);
+    tracker.recordViolation();
+    now = 1_000 + DEFAULT_PENALTY_POLICY.forgiveAfterMs;
+    expect(tracker.status().strikes).toBe(0);
+
+    for (let i = 0; i < 4; i++) tracker.recordViolation();
+    now += 10 * DEFAULT_PENALTY_POLICY.forgiveAfterMs;
+    expect(tracker.status()).toMatchObject({ banned: true, blocked: true, strikes: 4 });
+  });
+});
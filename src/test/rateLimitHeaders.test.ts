@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { buildRateLimitResponse } from "@/lib/rateLimitHeaders";
+import type { RateLimitDecision } from "@/lib/rateLimiter";
+
+const allowed: RateLimitDecision = { allowed: true, limit: 10, used: 4, remaining: 6, retryAfterMs: 0, resetAfterMs: 12_300 };
+const rejected: RateLimitDecision = { allowed: false, limit: 10, used: 10, remaining: 0, retryAfterMs: 7_200, resetAfterMs: 30_000 };
+const banned: RateLimitDecision = { ...rejected, retryAfterMs: Infinity };
+
+const options = { policy: "login", windowMs: 60_000, epochNowMs: 1_700_000_000_000 };
+
+describe("rateLimitHeaders", () => {
+  it("builds the legacy X-RateLimit-* set with an epoch reset", () => {
+    expect(buildRateLimitResponse(allowed, { ...options, format: "legacy" })).toEqual({
+      status: 200,
+      statusText: "OK",
+      headers: [
+        ["Content-Type", "application/json"],
+        ["X-RateLimit-Limit", "10"],
+        ["X-RateLimit-Remaining", "6"],
+        ["X-RateLimit-Reset", "1700000013"],
+      ],
+      body: '{"ok":true}',
+    });
+  });
+
+  it("builds the IETF RateLimit-Policy and RateLimit pair, plus Retry-After on a 429", () => {
+    const response = buildRateLimitResponse(rejected, { ...options, format: "standard" });
+    expect(response.status).toBe(429);
+    expect(response.statusText).toBe("Too Many Requests");
+    expect(response.headers).toEqual([
+      ["Content-Type", "application/json"],
+      ["RateLimit-Policy", '"login";q=10;w=60'],
+      ["RateLimit", '"login";r=0;t=8'],
+      ["Retry-After", "8"],
+    ]);
+    expect(JSON.parse(response.body)).toMatchObject({ error: "rate_limited" });
+  });
+
+  it("omits every reset and Retry-After for a permanent ban", () => {
+    const legacy = buildRateLimitResponse(banned, { ...options, format: "legacy" });
+    const standard = buildRateLimitResponse(banned, { ...options, format: "standard" });
+    expect(legacy.status).toBe(429);
+    expect(legacy.headers.map(([name]) => name)).toEqual(["Content-Type", "X-RateLimit-Limit", "X-RateLimit-Remaining"]);
+    expect(standard.headers).toContainEqual(["RateLimit", '"login";r=0']);
+    expect(standard.headers.some(([name]) => name === "Retry-After")).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createKeyedRateLimiter,
+  createRateLimiter,
+  rateLimitKey,
+  type RateLimitAlgorithm,
+} from "@/lib/rateLimiter";
+
+let now = 0;
+const clock = () => now;
+
+const make = (algorithm: RateLimitAlgorithm) =>
+  createRateLimiter(algorithm, { limit: 10, windowMs: 10_000, clock });
+
+const drain = (limiter: ReturnType<typeof make>, count: number) => {
+  for (let i = 0; i < count; i++) limiter.consume();
+};
+
+describe("rateLimiter", () => {
+  beforeEach(() => {
+    now = 0;
+  });
+
+  describe.each<RateLimitAlgorithm>(["fixed-window", "sliding-window", "token-bucket", "leaky-bucket"])(
+    "%s",
+    (algorithm) => {
+      it("allows requests up to the limit, then blocks", () => {
+        const limiter = make(algorithm);
+        drain(limiter, 10);
+        const blocked = limiter.consume();
+        expect(blocked.allowed).toBe(false);
+        expect(blocked.remaining).toBe(0);
+        expect(blocked.retryAfterMs).toBeGreaterThan(0);
+      });
+
+      it("peek does not change state", () => {
+        const limiter = make(algorithm);
+        drain(limiter, 3);
+        const first = limiter.peek();
+        const second = limiter.peek();
+        expect(second).toEqual(first);
+        expect(first.used).toBe(3);
+      });
+
+      it("reset restores full capacity", () => {
+        const limiter = make(algorithm);
+        drain(limiter, 10);
+        limiter.reset();
+        expect(limiter.peek()).toMatchObject({ allowed: true, used: 0, remaining: 10 });
+      });
+    },
+  );
+
+  it("fixed window allows a 2x burst across a window boundary", () => {
+    const limiter = make("fixed-window");
+    now = 9_000;
+    drain(limiter, 10);
+    expect(limiter.consume().allowed).toBe(false);
+    now = 10_000;
+    expect(limiter.consume().allowed).toBe(true);
+  });
+
+  it("sliding window only frees capacity as old requests expire", () => {
+    const limiter = make("sliding-window");
+    drain(limiter, 5);
+    now = 5_000;
+    drain(limiter, 5);
+    expect(limiter.consume().retryAfterMs).toBe(5_000);
+    now = 10_000;
+    expect(limiter.peek()).toMatchObject({ allowed: true, used: 5 });
+  });
+
+  it("token bucket refills one token per window/limit", () => {
+    const limiter = make("token-bucket");
+    drain(limiter, 10);
+    expect(limiter.peek().retryAfterMs).toBe(1_000);
+    now = 1_000;
+    expect(limiter.consume().allowed).toBe(true);
+    expect(limiter.consume().allowed).toBe(false);
+  });
+
+  it("leaky bucket drains at a constant rate", () => {
+    const limiter = make("leaky-bucket");
+    drain(limiter, 10);
+    now = 3_000;
+    expect(limiter.peek()).toMatchObject({ allowed: true, used: 7 });
+    now = 10_000;
+    expect(limiter.peek().used).toBe(0);
+  });
+});
+
+describe("createKeyedRateLimiter", () => {
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it("keeps an independent budget per key", () => {
+    const limiter = createKeyedRateLimiter("fixed-window", { limit: 2, windowMs: 1_000, clock });
+    limiter.consume("ip:1");
+    limiter.consume("ip:1");
+    expect(limiter.consume("ip:1").allowed).toBe(false);
+    expect(limiter.consume("ip:2").allowed).toBe(true);
+  });
+
+  it("rotating IPs evades a per-IP key but not a per-user key", () => {
+    const limiter = createKeyedRateLimiter("fixed-window", { limit: 3, windowMs: 1_000, clock });
+    const attempts = Array.from({ length: 10 }, (_, i) => ({ ip: `203.0.113.${i}`, userId: "admin", apiKey: "k" }));
+    expect(attempts.every((s) => limiter.consume(rateLimitKey("ip", s)).allowed)).toBe(true);
+    expect(attempts.filter((s) => limiter.consume(rateLimitKey("user", s)).allowed)).toHaveLength(3);
+  });
+
+  it("peek does not allocate unseen keys", () => {
+    const limiter = createKeyedRateLimiter("token-bucket", { limit: 2, windowMs: 1_000, clock });
+    expect(limiter.peek("user:ghost").remaining).toBe(2);
+    expect(limiter.keys()).toEqual([]);
+  });
+});
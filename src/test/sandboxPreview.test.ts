@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { buildPreviewDocument, parsePreviewEvent, PREVIEW_CSP, PREVIEW_MESSAGE_TYPE } from "@/lib/sandboxPreview";
+
+describe("sandboxPreview", () => {
+  it("puts the CSP and instrumentation before the payload", () => {
+    const doc = buildPreviewDocument("<img src=x onerror=alert(1)>", "raw");
+    const csp = doc.indexOf(PREVIEW_CSP);
+    const stub = doc.indexOf("window.alert =");
+    expect(csp).toBeGreaterThan(-1);
+    expect(stub).toBeGreaterThan(csp);
+    expect(doc.indexOf("<img src=x")).toBeGreaterThan(stub);
+    expect(PREVIEW_CSP).toContain("default-src 'none'");
+  });
+
+  it("accepts only well-formed preview events", () => {
+    expect(parsePreviewEvent({ type: PREVIEW_MESSAGE_TYPE, pane: "raw", sink: "alert", detail: "1" })).toEqual({
+      pane: "raw",
+      sink: "alert",
+      detail: "1",
+    });
+    expect(parsePreviewEvent({ type: PREVIEW_MESSAGE_TYPE, pane: "parent", sink: "alert" })).toBeNull();
+    expect(parsePreviewEvent("alert")).toBeNull();
+  });
+});
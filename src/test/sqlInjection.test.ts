@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import path from "node:path";
+import initSqlJs, { type Database, type SqlJsStatic } from "sql.js";
+import { attemptLogin, createUsersDatabase, SQLI_PAYLOADS, usersTableExists } from "@/lib/sqlInjection";
+
+const payload = (label: string) => SQLI_PAYLOADS.find((p) => p.label.startsWith(label))!;
+
+describe("sqlInjection", () => {
+  let SQL: SqlJsStatic;
+  let db: Database;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs({ locateFile: (file) => path.resolve("node_modules/sql.js/dist", file) });
+  });
+
+  beforeEach(() => {
+    db = createUsersDatabase(SQL);
+  });
+
+  it("logs in a legitimate user in both modes", () => {
+    const { username, password } = payload("Login legittimo");
+    for (const mode of ["concatenation", "parameterized"] as const) {
+      const attempt = attemptLogin(db, mode, username, password);
+      expect(attempt.authenticated, mode).toBe(true);
+      expect(attempt.rows).toEqual([[2, "alice", "alice@example.com", "user"]]);
+      expect(attempt.leakedRows).toBe(0);
+    }
+  });
+
+  it("leaks every row through a tautology when concatenating", () => {
+    const { username, password } = payload("Tautologia");
+    const attempt = attemptLogin(db, "concatenation", username, password);
+    expect(attempt.query).toBe(
+      "SELECT id, username, email, role FROM users WHERE username = '' OR '1'='1' --' AND password = 'x'"
+    );
+    expect(attempt.authenticated).toBe(true);
+    expect(attempt.leakedRows).toBe(4);
+  });
+
+  it("extracts passwords with UNION and neutralises it when parameterized", () => {
+    const { username, password } = payload("UNION");
+    const leaked = attemptLogin(db, "concatenation", username, password);
+    expect(leaked.rows.map((r) => r[1])).toContain("admin:S3cur3!Adm1n");
+
+    const safe = attemptLogin(db, "parameterized", username, password);
+    expect(safe.params).toEqual([username, password]);
+    expect(safe.rows).toEqual([]);
+    expect(safe.authenticated).toBe(false);
+  });
+
+  it("runs stacked statements only when concatenating", () => {
+    const { username, password } = payload("Stacked");
+    attemptLogin(db, "parameterized", username, password);
+    expect(usersTableExists(db)).toBe(true);
+    attemptLogin(db, "concatenation", username, password);
+    expect(usersTableExists(db)).toBe(false);
+    expect(attemptLogin(db, "concatenation", "alice", "alice2024").error).toMatch(/no such table/);
+  });
+});
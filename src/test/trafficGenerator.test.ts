@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { createTrafficGenerator, recordTimeline, type TrafficPattern } from "@/lib/trafficGenerator";
+
+/** mulberry32: a tiny seeded PRNG, so random arrivals are the same on every run */
+const seeded = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/** Arrivals per tick over the first ticks of a pattern */
+const run = (pattern: TrafficPattern, ratePerSecond: number, dtMs: number, ticks: number, random = seeded(1)) => {
+  const generator = createTrafficGenerator(pattern, { ratePerSecond, random });
+  return Array.from({ length: ticks }, (_, i) => generator.next(i * dtMs, dtMs));
+};
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+describe("trafficGenerator", () => {
+  it("carries fractional requests over so low constant rates still fire", () => {
+    expect(run("constant", 1, 250, 8)).toEqual([0, 0, 0, 1, 0, 0, 0, 1]);
+    expect(run("constant", 3, 1_000, 3)).toEqual([3, 3, 3]);
+  });
+
+  it("samples Poisson arrivals around the mean", () => {
+    // Knuth's sampler multiplies uniforms until the product drops below e^-mean
+    expect(run("poisson", 1, 1_000, 1, () => 0.5)).toEqual([1]);
+    expect(run("poisson", 2, 1_000, 1, () => 0.5)).toEqual([2]);
+
+    const arrivals = run("poisson", 4, 1_000, 2_000, seeded(42));
+    expect(sum(arrivals) / arrivals.length).toBeCloseTo(4, 0);
+    expect(new Set(arrivals).size).toBeGreaterThan(5);
+    expect(run("poisson", 4, 1_000, 50, seeded(42))).toEqual(arrivals.slice(0, 50));
+  });
+
+  it("fires a whole burst at the start and at every 5 second boundary", () => {
+    const arrivals = run("burst", 2, 250, 41);
+    expect(arrivals.filter((n) => n > 0)).toEqual([10, 10, 10]);
+    expect([arrivals[0], arrivals[19], arrivals[39]]).toEqual([10, 10, 10]);
+    expect(sum(arrivals)).toBe(30);
+  });
+
+  it("ramps up linearly to three times the base rate in 30 seconds", () => {
+    const generator = createTrafficGenerator("ramp-up", { ratePerSecond: 10 });
+    expect(generator.next(0, 1_000)).toBe(0);
+    expect(generator.next(15_000, 1_000)).toBe(15);
+    expect(generator.next(30_000, 1_000)).toBe(30);
+    expect(generator.next(90_000, 1_000)).toBe(30);
+  });
+
+  it("merges same-second outcomes and fills silent seconds with zeros", () => {
+    let points = recordTimeline([], 3, 1, 0);
+    points = recordTimeline(points, 3, 2, 1);
+    points = recordTimeline(points, 6, 0, 4);
+    expect(points).toEqual([
+      { second: 3, accepted: 3, rejected: 1 },
+      { second: 4, accepted: 0, rejected: 0 },
+      { second: 5, accepted: 0, rejected: 0 },
+      { second: 6, accepted: 0, rejected: 4 },
+    ]);
+
+    // A long pause only fills what fits in the chart
+    expect(recordTimeline(points, 100, 1, 0, 3).map((p) => p.second)).toEqual([98, 99, 100]);
+  });
+});
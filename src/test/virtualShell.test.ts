@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { createVirtualFs, execArgv, resolvePath, runShell } from "@/lib/virtualShell";
+
+const stdout = (run: ReturnType<typeof runShell>) =>
+  run.lines.filter((l) => l.stream === "stdout").map((l) => l.text);
+
+describe("virtualShell", () => {
+  it("resolves dot segments without escaping the root", () => {
+    expect(resolvePath("/var/www/downloads", "../../../etc/passwd")).toBe("/etc/passwd");
+    expect(resolvePath("/var/www", "../../../../..")).toBe("/");
+    expect(resolvePath("/var/www", "./a//b/../c")).toBe("/var/www/a/c");
+  });
+
+  it("runs lists, pipes and command substitution", () => {
+    const fs = createVirtualFs();
+    const run = runShell(fs, "echo start; cat /etc/passwd | grep www && echo \"user: $(whoami)\" # ignored");
+    expect(stdout(run)).toEqual(["start", "www-data:x:33:33:www-data:/var/www:/usr/sbin/nologin", "user: www-data"]);
+    expect(run.commands.map(([program]) => program)).toEqual(["echo", "cat", "grep", "whoami", "echo"]);
+    expect(run.exitCode).toBe(0);
+  });
+
+  it("short-circuits && and || on exit status", () => {
+    const fs = createVirtualFs();
+    const run = runShell(fs, "cat /missing && echo no || echo yes");
+    expect(stdout(run)).toEqual(["yes"]);
+    expect(run.lines[0]).toEqual({ stream: "stderr", text: "cat: /missing: No such file or directory" });
+  });
+
+  it("deletes and writes only where www-data may", () => {
+    const fs = createVirtualFs();
+    const run = runShell(fs, "rm /etc/passwd; rm -r /var/www/downloads; echo x > /etc/hostname; echo hi > /tmp/note");
+    expect(run.lines.map((l) => l.text)).toEqual([
+      "rm: cannot remove '/etc/passwd': Permission denied",
+      "sh: 1: cannot create /etc/hostname: Permission denied",
+    ]);
+    expect(fs.isFile("/etc/passwd")).toBe(true);
+    expect(fs.isDir("/var/www/downloads")).toBe(false);
+    expect(fs.read("/tmp/note")).toBe("hi\n");
+  });
+
+  it("reports syntax errors without running anything", () => {
+    const fs = createVirtualFs();
+    const run = runShell(fs, "echo 'open; rm -r /var/www");
+    expect(run.commands).toEqual([]);
+    expect(run.lines).toEqual([{ stream: "stderr", text: "sh: 1: Syntax error: Unterminated quoted string" }]);
+  });
+
+  it("passes an argument array through verbatim", () => {
+    const fs = createVirtualFs();
+    const run = execArgv(fs, ["echo", "a; rm -r /var/www", "$(id)"]);
+    expect(stdout(run)).toEqual(["a; rm -r /var/www $(id)"]);
+    expect(fs.isDir("/var/www")).toBe(true);
+  });
+});